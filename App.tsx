@@ -1,46 +1,117 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import type { User, SpeakerData } from './types';
 import * as api from './mockApi';
 import Header from './components/Header';
 import Login from './components/Login';
 import AdminPanel from './components/AdminPanel';
 import UserPanel from './components/UserPanel';
+import ChangePasswordScreen from './components/ChangePasswordScreen';
+import IdleTimer from './components/IdleTimer';
+import { can } from './permissions';
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [speakerDataList, setSpeakerDataList] = useState<SpeakerData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [loginRetryAt, setLoginRetryAt] = useState<number | null>(null);
+  const [idleTimeoutSeconds, setIdleTimeoutSeconds] = useState<number | null>(null);
+
+  const endSession = useCallback((message: string | null) => {
+    setCurrentUser(null);
+    setSpeakerDataList([]);
+    setIdleTimeoutSeconds(null);
+    setLoginError(message);
+  }, []);
 
   useEffect(() => {
-    setIsLoading(false);
+    // Restore the session after a page reload, if the session cookie is still valid.
+    const restoreSession = async () => {
+      try {
+        const session = await api.getCurrentSession();
+        setCurrentUser(session.user);
+        setIdleTimeoutSeconds(session.idleTimeoutSeconds);
+        await refetchSpeakerData(session.user);
+      } catch (error) {
+        // No session (or it expired): simply show the login screen.
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    restoreSession();
   }, []);
+
+  useEffect(() => {
+    // The server rejected our session (expired or revoked), so drop back to the login screen.
+    api.setUnauthorizedHandler(() => endSession('Your session has expired. Please log in again.'));
+    return () => api.setUnauthorizedHandler(null);
+  }, [endSession]);
   
-  const refetchSpeakerData = async () => {
-    if (currentUser && !currentUser.isAdmin) {
-      const data = await api.getSpeakerDataByUser(currentUser.email);
+  // Takes the user explicitly when called right after it was set, before `currentUser` has updated.
+  // Admins load their own data in AdminPanel; everyone else sees all entries or just their own, depending on role.
+  const refetchSpeakerData = async (user: User | null = currentUser) => {
+    if (user && !can(user, 'users:manage') && !user.mustChangePassword) {
+      const data = can(user, 'speakers:readAll')
+        ? await api.getAllSpeakerData()
+        : await api.getSpeakerDataByUser(user.email);
       setSpeakerDataList(data);
     }
   };
 
   const handleLogin = async (email: string, pass: string) => {
     setLoginError(null);
+    setLoginRetryAt(null);
     setIsLoading(true);
-    const user = await api.login(email, pass);
-    if (user) {
+    try {
+      const { user, idleTimeoutSeconds } = await api.login(email, pass);
       setCurrentUser(user);
-      if (!user.isAdmin) {
-        await refetchSpeakerData();
+      setIdleTimeoutSeconds(idleTimeoutSeconds);
+      await refetchSpeakerData(user);
+    } catch (error) {
+      const details = error instanceof api.ApiError ? error.details : {};
+      if (error instanceof api.ApiError && error.status === 429) {
+        setLoginError('Too many failed login attempts.');
+      } else if (typeof details.attemptsRemaining === 'number' && details.attemptsRemaining <= 2) {
+        setLoginError(`Invalid email or password. ${details.attemptsRemaining} attempt(s) left before this account is temporarily locked.`);
+      } else {
+        setLoginError('Invalid email or password.');
+      }
+      if (details.retryAfterSeconds > 0) {
+        setLoginRetryAt(Date.now() + details.retryAfterSeconds * 1000);
       }
-    } else {
-      setLoginError('Invalid email or password.');
     }
     setIsLoading(false);
   };
 
-  const handleLogout = () => {
-    setCurrentUser(null);
-    setSpeakerDataList([]);
+  const handleLogout = useCallback(async () => {
+    try {
+      await api.logout();
+    } catch (error) {
+      // The local session is cleared regardless; the server session will expire on its own.
+    }
+    endSession(null);
+  }, [endSession]);
+
+  const handleIdleTimeout = useCallback(async () => {
+    await handleLogout();
+    setLoginError('You were logged out due to inactivity.');
+  }, [handleLogout]);
+
+  const handleKeepAlive = useCallback(async () => {
+    try {
+      await api.getCurrentSession();
+    } catch (error) {
+      if (error instanceof api.ApiError && error.status === 401) {
+        endSession('Your session has expired. Please log in again.');
+      }
+    }
+  }, [endSession]);
+
+  const handlePasswordChanged = async () => {
+    if (!currentUser) return;
+    const user = { ...currentUser, mustChangePassword: false };
+    setCurrentUser(user);
+    await refetchSpeakerData(user);
   };
 
   const handleAddSpeaker = async (newSpeakerData: Omit<SpeakerData, 'id' | 'createdBy'>): Promise<SpeakerData | null> => {
@@ -56,9 +127,18 @@ const App: React.FC = () => {
   };
 
   const handleUpdateSpeaker = async (updatedSpeaker: SpeakerData): Promise<SpeakerData> => {
-    const savedSpeaker = await api.updateSpeakerData(updatedSpeaker);
-    setSpeakerDataList(prev => prev.map(s => s.id === savedSpeaker.id ? savedSpeaker : s));
-    return savedSpeaker;
+    try {
+      const savedSpeaker = await api.updateSpeakerData(updatedSpeaker);
+      setSpeakerDataList(prev => prev.map(s => s.id === savedSpeaker.id ? savedSpeaker : s));
+      return savedSpeaker;
+    } catch (error) {
+      // Someone else saved this entry first: show their version in the list, then let the caller resolve it.
+      if (error instanceof api.ApiError && error.status === 409 && error.details.current) {
+        const current = error.details.current as SpeakerData;
+        setSpeakerDataList(prev => prev.map(s => s.id === current.id ? current : s));
+      }
+      throw error;
+    }
   };
 
   const handleDeleteSpeaker = async (speakerId: string) => {
@@ -76,14 +156,18 @@ const App: React.FC = () => {
     }
 
     if (!currentUser) {
-      return <Login onLogin={handleLogin} error={loginError} />;
+      return <Login onLogin={handleLogin} error={loginError} retryAt={loginRetryAt} />;
+    }
+
+    if (currentUser.mustChangePassword) {
+      return <ChangePasswordScreen user={currentUser} onPasswordChanged={handlePasswordChanged} onLogout={handleLogout} />;
     }
 
     return (
       <div className="min-h-screen bg-slate-900 text-slate-200">
         <Header user={currentUser} onLogout={handleLogout} />
         <main>
-          {currentUser.isAdmin ? (
+          {can(currentUser, 'users:manage') ? (
             <AdminPanel currentUser={currentUser} />
           ) : (
             <UserPanel 
@@ -91,8 +175,8 @@ const App: React.FC = () => {
               onAddSpeaker={handleAddSpeaker}
               onUpdateSpeaker={handleUpdateSpeaker}
               onDeleteSpeaker={handleDeleteSpeaker}
-              currentUserEmail={currentUser.email}
-              onDataImported={refetchSpeakerData}
+              currentUser={currentUser}
+              onDataImported={() => refetchSpeakerData()}
             />
           )}
         </main>
@@ -100,7 +184,14 @@ const App: React.FC = () => {
     );
   };
 
-  return <>{renderContent()}</>;
+  return (
+    <>
+      {renderContent()}
+      {currentUser && idleTimeoutSeconds && (
+        <IdleTimer idleTimeoutSeconds={idleTimeoutSeconds} onKeepAlive={handleKeepAlive} onTimeout={handleIdleTimeout} />
+      )}
+    </>
+  );
 };
 
 export default App;
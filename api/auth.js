@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+
+// --- SESSION TOKENS ---
+// A session is a random id stored in the `sessions` table. The cookie carries the id
+// plus an HMAC of it, so tampered or forged cookies are rejected before any DB lookup.
+
+export const SESSION_COOKIE_NAME = 'sds_session';
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+// Sessions also end after this long without any request. Configurable per deployment.
+export const SESSION_IDLE_TIMEOUT_MS = (Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+
+let sessionSecret = process.env.SESSION_SECRET;
+if (!sessionSecret) {
+    // Sessions will not survive a restart (or be shared between instances) without a fixed secret.
+    console.warn('SESSION_SECRET environment variable is not set. Using a temporary secret.');
+    sessionSecret = crypto.randomBytes(32).toString('hex');
+}
+
+const sign = (value) => crypto.createHmac('sha256', sessionSecret).update(value).digest('base64url');
+
+export const generateSessionId = () => crypto.randomBytes(32).toString('hex');
+
+export const signSessionId = (sessionId) => `${sessionId}.${sign(sessionId)}`;
+
+// Returns the session id if the token's signature is valid, otherwise null.
+export const verifySessionToken = (token) => {
+    if (!token) return null;
+    const separatorIndex = token.lastIndexOf('.');
+    if (separatorIndex <= 0) return null;
+
+    const sessionId = token.slice(0, separatorIndex);
+    const expected = Buffer.from(sign(sessionId));
+    const actual = Buffer.from(token.slice(separatorIndex + 1));
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+    return sessionId;
+};
+
+
+// --- COOKIES ---
+
+const parseCookies = (header = '') => {
+    const cookies = {};
+    header.split(';').forEach(part => {
+        const separatorIndex = part.indexOf('=');
+        if (separatorIndex < 0) return;
+        const name = part.slice(0, separatorIndex).trim();
+        const value = part.slice(separatorIndex + 1).trim();
+        try {
+            cookies[name] = decodeURIComponent(value);
+        } catch {
+            cookies[name] = value;
+        }
+    });
+    return cookies;
+};
+
+export const readSessionToken = (req) => parseCookies(req.headers.cookie)[SESSION_COOKIE_NAME] || null;
+
+const buildCookie = (value, maxAgeSeconds) => {
+    const attributes = [
+        `${SESSION_COOKIE_NAME}=${encodeURIComponent(value)}`,
+        'Path=/',
+        'HttpOnly',
+        'SameSite=Lax',
+        `Max-Age=${maxAgeSeconds}`,
+    ];
+    if (process.env.NODE_ENV === 'production') {
+        attributes.push('Secure');
+    }
+    return attributes.join('; ');
+};
+
+export const setSessionCookie = (res, sessionId) => {
+    res.setHeader('Set-Cookie', buildCookie(signSessionId(sessionId), Math.floor(SESSION_TTL_MS / 1000)));
+};
+
+export const clearSessionCookie = (res) => {
+    res.setHeader('Set-Cookie', buildCookie('', 0));
+};
+
+
+// --- PASSWORD HASHING ---
+// Stored format: `scrypt$<salt hex>$<derived key hex>`. Anything else is a legacy plaintext password,
+// which is upgraded to a hash the next time its owner logs in successfully.
+
+const PASSWORD_HASH_PREFIX = 'scrypt$';
+const SCRYPT_KEY_LENGTH = 64;
+
+const deriveKey = (password, salt) => new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, derivedKey) => {
+        if (err) reject(err);
+        else resolve(derivedKey);
+    });
+});
+
+// Checked against when a login names no known user, so that it takes as long as one with a wrong password
+// and response times don't reveal which emails have accounts. No password matches it.
+export const UNKNOWN_USER_PASSWORD_HASH = `${PASSWORD_HASH_PREFIX}${'0'.repeat(32)}$${'0'.repeat(SCRYPT_KEY_LENGTH * 2)}`;
+
+export const isPasswordHash = (stored) => typeof stored === 'string' && stored.startsWith(PASSWORD_HASH_PREFIX);
+
+export const hashPassword = async (password) => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const derivedKey = await deriveKey(password, salt);
+    return `${PASSWORD_HASH_PREFIX}${salt}$${derivedKey.toString('hex')}`;
+};
+
+export const verifyPassword = async (password, stored) => {
+    if (typeof password !== 'string' || typeof stored !== 'string') return false;
+
+    if (!isPasswordHash(stored)) {
+        const expected = Buffer.from(stored);
+        const actual = Buffer.from(password);
+        return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    }
+
+    const [salt, keyHex] = stored.slice(PASSWORD_HASH_PREFIX.length).split('$');
+    if (!salt || !keyHex) return false;
+    const expected = Buffer.from(keyHex, 'hex');
+    const actual = await deriveKey(password, salt);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+
+// --- PASSWORD POLICY ---
+// Applied to every password a person chooses. Generated temporary passwords skip it,
+// since their owner is forced to replace them on first login anyway.
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+// Returns a human-readable reason the password is rejected, or null if it is acceptable.
+export const checkPasswordPolicy = (password, email) => {
+    if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+        return `Password must be at least ${PASSWORD_MIN_LENGTH} characters long.`;
+    }
+    if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+        return 'Password must contain both letters and numbers.';
+    }
+    if (email && password.trim().toLowerCase() === String(email).trim().toLowerCase()) {
+        return 'Password must not be the same as your email address.';
+    }
+    return null;
+};
@@ -0,0 +1,148 @@
+import { SPEAKER_FIELDS, COMPUTED_SPEAKER_FIELDS } from './speakerFields.js';
+import { recordSpeakerChange, recordSpeakerCreations, diffSpeakers } from './history.js';
+import { insertSpeakerRows, updateSpeakerRow } from './speakerRows.js';
+import { canModifySpeaker } from './permissions.js';
+import { normalizeSpeaker, normalizeEmail } from './speakerNormalization.js';
+import { withComputedFields } from './computedFields.js';
+import { listTitleRules } from './titleClassification.js';
+
+// --- BULK IMPORT ---
+// Every incoming row is classified before anything is written, so the import preview and the
+// import itself agree on what happens to each row:
+//   insert    - a new speaker
+//   update    - merged into the existing speaker with the same business email (see IMPORT_MODES)
+//   unchanged - matches an existing speaker, but merging changes nothing
+//   skip      - a duplicate of an earlier row in the file, or of an existing speaker in `skip` mode
+//   invalid   - the row can't be imported as it is
+// Rows are identified by their position in the imported file: their position in the request body
+// plus `options.rowOffset`, for files uploaded in several chunks (see importSessions.js).
+// With `options.batchId`, inserted speakers and every history entry written are stamped with the
+// import batch, so the import can be rolled back (see importBatches.js).
+// Written values are normalized and their computed fields derived like any other write (see computedFields.js).
+// Imported speakers' emails are not checked yet; an admin verifies them afterwards (see emailVerification.js).
+
+// How a row is merged into an existing speaker with the same business email:
+//   skip              - leave the existing speaker alone
+//   overwrite         - replace every field with the incoming one, blanks included
+//   fillEmpty         - only fill fields the existing speaker has no value for
+//   overwriteNonEmpty - replace fields for which the row has a value
+export const IMPORT_MODES = ['skip', 'overwrite', 'fillEmpty', 'overwriteNonEmpty'];
+
+const EMAIL_PATTERN = /\S+@\S+\.\S+/; // Same check as the speaker form
+const INSERT_BATCH_SIZE = 200; // Rows per INSERT, to stay under the query parameter limit
+
+// The business email identifies the speaker, so a merge never changes it; computed fields are never imported.
+const MERGED_FIELDS = SPEAKER_FIELDS.filter(field => field !== 'businessEmail' && !COMPUTED_SPEAKER_FIELDS.includes(field));
+
+// An unset flag counts as empty, so merging never clears a flag in the non-overwriting modes.
+const isEmptyValue = (value) => value === null || value === undefined || value === '' || value === false;
+
+const mergeSpeaker = (existing, incoming, mode) => {
+    const merged = { ...existing };
+    MERGED_FIELDS.forEach(field => {
+        const takeIncoming = mode === 'overwrite'
+            || (mode === 'fillEmpty' && isEmptyValue(existing[field]) && !isEmptyValue(incoming[field]))
+            || (mode === 'overwriteNonEmpty' && !isEmptyValue(incoming[field]));
+        if (takeIncoming) merged[field] = incoming[field] ?? '';
+    });
+    return merged;
+};
+
+// Active speakers by lowercased business email. `lock` takes row locks for the rest of the transaction.
+const findExistingSpeakers = async (db, emails, lock = false) => {
+    if (emails.length === 0) return new Map();
+    const result = await db.query(
+        `SELECT * FROM speakers WHERE LOWER("businessEmail") = ANY($1) AND "deletedAt" IS NULL AND "businessEmail" <> '' ORDER BY id${lock ? ' FOR UPDATE' : ''}`,
+        [emails]
+    );
+    const byEmail = new Map();
+    result.rows.forEach(row => {
+        const email = normalizeEmail(row.businessEmail);
+        if (!byEmail.has(email)) byEmail.set(email, row);
+    });
+    return byEmail;
+};
+
+const classifyExisting = (existing, incoming, { mode, user }, titleRules) => {
+    if (mode === 'skip') return { status: 'skip', reason: 'A speaker with this business email already exists.' };
+    if (!canModifySpeaker(user, existing, 'edit')) {
+        return { status: 'skip', reason: 'A speaker with this business email already exists, and you are not allowed to update it.' };
+    }
+    const merged = withComputedFields(normalizeSpeaker(mergeSpeaker(existing, incoming, mode), existing), existing, { titleRules });
+    const changedCount = Object.keys(diffSpeakers(existing, merged)).length;
+    if (changedCount === 0) return { status: 'unchanged', reason: 'Matches the existing speaker; nothing to update.' };
+    return { status: 'update', reason: `Updates ${changedCount} field(s) of the existing speaker.`, existing, merged };
+};
+
+// Returns one { status, reason } per row; `update` rows also carry the `existing` and `merged` records.
+// `options.seenRows` (lowercased email -> file row) carries the emails of earlier chunks of the same file;
+// it is updated with the emails first seen in this one.
+const classifyRows = async (db, speakers, options, lock, titleRules) => {
+    const { rowOffset = 0, seenRows: firstRowByEmail = new Map() } = options;
+    const emails = speakers.map(s => normalizeEmail(s.businessEmail));
+    const existingByEmail = await findExistingSpeakers(db, [...new Set(emails.filter(Boolean))], lock);
+
+    return speakers.map((s, position) => {
+        const index = rowOffset + position;
+        const email = emails[position];
+        if (!email) return { status: 'invalid', reason: 'Business email is missing.' };
+        if (!EMAIL_PATTERN.test(email)) return { status: 'invalid', reason: 'Business email is not a valid email address.' };
+        if (firstRowByEmail.has(email)) {
+            return { status: 'skip', reason: `Same business email as row ${firstRowByEmail.get(email) + 1} of this file.` };
+        }
+        firstRowByEmail.set(email, index);
+        const existing = existingByEmail.get(email);
+        if (existing) return classifyExisting(existing, s, options, titleRules);
+        return { status: 'insert', reason: null };
+    });
+};
+
+// What an import would do with each row, for the preview. `options` is { mode, user, rowOffset?, seenRows? }.
+export const classifyImportRows = async (db, speakers, options) => {
+    const checks = await classifyRows(db, speakers, options, false, await listTitleRules(db));
+    return checks.map(({ status, reason }) => ({ status, reason }));
+};
+
+// Classifies and writes the rows. `db` must be a transaction client; `options` is { mode, user, batchId?, rowOffset?, seenRows? }.
+// Returns the counts and, for every row that was skipped or invalid, its position, status and reason.
+export const importSpeakers = async (db, speakers, options) => {
+    const actor = options.user.email;
+    const batchId = options.batchId || null;
+    const titleRules = await listTitleRules(db);
+    const checks = await classifyRows(db, speakers, options, true, titleRules);
+    const toInsert = speakers.map((s, index) => ({ s: withComputedFields(normalizeSpeaker(s), null, { titleRules }), index })).filter(({ index }) => checks[index].status === 'insert');
+    const rowOffset = options.rowOffset || 0;
+
+    for (let i = 0; i < toInsert.length; i += INSERT_BATCH_SIZE) {
+        const batch = toInsert.slice(i, i + INSERT_BATCH_SIZE);
+        const inserted = await insertSpeakerRows(db, batch.map(({ s }) => s), batchId);
+        await recordSpeakerCreations(db, inserted, actor, batchId);
+        // Rows that lost a race with a concurrent insert of the same email
+        const insertedEmails = new Set(inserted.map(row => row.businessEmail));
+        batch.forEach(({ s, index }) => {
+            if (!insertedEmails.has(s.businessEmail)) {
+                checks[index] = { status: 'skip', reason: 'A speaker with this business email already exists.' };
+            }
+        });
+    }
+
+    for (const check of checks) {
+        if (check.status !== 'update') continue;
+        const after = await updateSpeakerRow(db, check.existing.id, check.merged);
+        await recordSpeakerChange(db, { speakerId: check.existing.id, action: 'update', actor, before: check.existing, after, importBatchId: batchId });
+    }
+
+    const countOf = (status) => checks.filter(check => check.status === status).length;
+    const rejected = [];
+    checks.forEach(({ status, reason }, index) => {
+        if (status === 'skip' || status === 'invalid') rejected.push({ row: rowOffset + index, status, reason });
+    });
+    return {
+        insertedCount: countOf('insert'),
+        updatedCount: countOf('update'),
+        unchangedCount: countOf('unchanged'),
+        skippedCount: countOf('skip'),
+        invalidCount: countOf('invalid'),
+        rejected,
+    };
+};
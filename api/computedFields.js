@@ -0,0 +1,24 @@
+import { withStoredComputedFields } from './speakerFields.js';
+import { withEmailCheck } from './emailVerification.js';
+import { withUrlChecks } from './urlVerification.js';
+import { withTitleClassification } from './titleClassification.js';
+import { withParsedFields } from './speakerParsing.js';
+
+// --- COMPUTED FIELDS ---
+// Every write of a speaker goes through `withComputedFields`, so the fields the server computes stay in step
+// with the values they are computed from, whichever route (form, import, merge, revert) changed them.
+
+// `speaker` with its computed columns: kept from the stored speaker `before` while the values they depend on are
+// unchanged, otherwise recomputed. Missing name and location fields are parsed first, as the checks read them.
+// `titleRules` are the rules from listTitleRules; `emailCheck` is a check made for the email being written, if any
+// (see withEmailCheck); `reviewedParses` lists parsed fields a person confirmed (see withParsedFields);
+// `titleFlagOverrides` are flags set by hand, if any were sent (see withTitleClassification).
+export const withComputedFields = (speaker, before, { titleRules, emailCheck = null, reviewedParses = [], titleFlagOverrides = null }) => {
+    const parsed = withParsedFields(withStoredComputedFields(speaker, before), before, reviewedParses);
+    return withTitleClassification(
+        withUrlChecks(withEmailCheck(parsed, before, emailCheck), before),
+        before,
+        titleRules,
+        titleFlagOverrides
+    );
+};
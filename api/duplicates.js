@@ -0,0 +1,230 @@
+import { SPEAKER_FIELDS } from './speakerFields.js';
+import { withComputedFields } from './computedFields.js';
+import { listTitleRules } from './titleClassification.js';
+import { recordSpeakerChange } from './history.js';
+import { updateSpeakerRow } from './speakerRows.js';
+import { normalizeSpeaker } from './speakerNormalization.js';
+
+// --- DUPLICATE DETECTION ---
+// The business email is unique, but the same person often comes back with another email. A scan
+// compares the active speakers on normalized LinkedIn profile, emails (business and secondary),
+// phone number, and name plus company, and stores every pair that scores high enough in
+// `duplicate_candidates` for an admin to review. A reviewed pair is either dismissed (and never
+// suggested again) or merged: the chosen values go into one surviving speaker and the other one
+// moves to the trash, with both sides recorded in the history.
+
+// Evidence that two speakers are the same person, with how strongly each signal suggests it.
+// A pair's score combines its signals as independent evidence: 1 - (1 - w1)(1 - w2)...
+const SIGNALS = {
+    linkedin: { weight: 0.9, reason: 'Same LinkedIn profile' },
+    email: { weight: 0.85, reason: 'Shares an email address' },
+    nameAndCompany: { weight: 0.8, reason: 'Same name and company' },
+    similarNameAndCompany: { weight: 0.6, reason: 'Similar name at the same company' },
+    phone: { weight: 0.5, reason: 'Same phone number' },
+    name: { weight: 0.3, reason: 'Same name' },
+};
+
+const MIN_SCORE = 0.5; // A shared name alone is not enough to suggest a pair
+// Values shared by more speakers than this (placeholders like "n/a", a company switchboard)
+// say nothing about identity and would produce a flood of pairs.
+const MAX_GROUP_SIZE = 25;
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|gmbh|ag|sa|sas|bv|plc|corp|corporation|co|company|group)\b/g;
+
+const stripAccents = (value) => String(value || '').normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+// Lowercase words without punctuation, in alphabetical order, so "Lovelace, Ada" matches "Ada Lovelace".
+export const normalizeName = (value) => stripAccents(value).toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean).sort().join(' ');
+
+export const normalizeCompany = (value) =>
+    stripAccents(value).toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(COMPANY_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+
+// A percent-encoded slug decoded; one with a malformed escape ("jane%zzdoe") is compared as it is stored.
+const decodeSlug = (slug) => {
+    try {
+        return decodeURIComponent(slug);
+    } catch {
+        return slug;
+    }
+};
+
+// The profile slug of a LinkedIn URL ("linkedin.com/in/<slug>"), whatever the host, scheme or trailing parts.
+export const normalizeLinkedin = (value) => {
+    const match = String(value || '').toLowerCase().match(/linkedin\.com\/in\/([^/?#\s]+)/);
+    return match ? decodeSlug(match[1]).replace(/\/+$/, '') : '';
+};
+
+// Digits only, ignoring a leading international prefix; too short to be a real number means no value.
+export const normalizePhone = (value) => {
+    const digits = String(value || '').replace(/\D/g, '').replace(/^00/, '');
+    return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+const normalizeEmail = (value) => String(value || '').trim().toLowerCase();
+
+const speakerName = (s) => normalizeName(s.fullName || `${s.firstName || ''} ${s.lastName || ''}`);
+
+// Edit distance, for catching typos in names
+export const levenshtein = (a, b) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const scoreSignals = (signals) => 1 - [...signals].reduce((rest, signal) => rest * (1 - SIGNALS[signal].weight), 1);
+
+// The values a speaker is compared on, normalized.
+const comparisonKeys = (s) => ({
+    linkedin: normalizeLinkedin(s.personLinkedinUrl),
+    emails: [normalizeEmail(s.businessEmail), normalizeEmail(s.secondaryEmail)].filter(Boolean),
+    phone: normalizePhone(s.phoneNumber),
+    name: speakerName(s),
+    company: normalizeCompany(s.company),
+});
+
+// Scores every plausible pair among `speakers`. Returns [{ speakerA, speakerB, score, reasons }]
+// with speakerA < speakerB, best first.
+export const findDuplicatePairs = (speakers) => {
+    const keys = new Map(speakers.map(s => [s.id, comparisonKeys(s)]));
+    const groups = new Map(); // "<signal>:<value>" -> speaker ids
+    const addToGroup = (group, id) => {
+        if (!groups.has(group)) groups.set(group, []);
+        groups.get(group).push(id);
+    };
+    speakers.forEach(({ id }) => {
+        const k = keys.get(id);
+        if (k.linkedin) addToGroup(`linkedin:${k.linkedin}`, id);
+        new Set(k.emails).forEach(email => addToGroup(`email:${email}`, id));
+        if (k.phone) addToGroup(`phone:${k.phone}`, id);
+        if (k.name) addToGroup(`name:${k.name}`, id);
+        if (k.company) addToGroup(`company:${k.company}`, id);
+    });
+
+    const pairSignals = new Map(); // "a|b" -> Set of signals
+    const addSignal = (a, b, signal) => {
+        const pair = a < b ? `${a}|${b}` : `${b}|${a}`;
+        if (!pairSignals.has(pair)) pairSignals.set(pair, new Set());
+        pairSignals.get(pair).add(signal);
+    };
+
+    groups.forEach((ids, group) => {
+        if (ids.length < 2 || ids.length > MAX_GROUP_SIZE) return;
+        const signal = group.slice(0, group.indexOf(':'));
+        for (let i = 0; i < ids.length; i++) {
+            for (let j = i + 1; j < ids.length; j++) {
+                if (ids[i] === ids[j]) continue;
+                const a = keys.get(ids[i]);
+                const b = keys.get(ids[j]);
+                if (signal === 'company') {
+                    // Within a company, compare names: equal, or off by a typo in a longer name
+                    if (!a.name || !b.name) continue;
+                    if (a.name === b.name) addSignal(ids[i], ids[j], 'nameAndCompany');
+                    else if (Math.min(a.name.length, b.name.length) >= 6 && levenshtein(a.name, b.name) <= 1) addSignal(ids[i], ids[j], 'similarNameAndCompany');
+                } else {
+                    addSignal(ids[i], ids[j], signal);
+                }
+            }
+        }
+    });
+
+    const pairs = [];
+    pairSignals.forEach((signals, pair) => {
+        if (signals.has('nameAndCompany')) signals.delete('name'); // Already counted
+        const score = scoreSignals(signals);
+        if (score < MIN_SCORE) return;
+        const [speakerA, speakerB] = pair.split('|');
+        pairs.push({ speakerA, speakerB, score: Math.round(score * 1000) / 1000, reasons: [...signals].map(signal => SIGNALS[signal].reason) });
+    });
+    return pairs.sort((x, y) => y.score - x.score);
+};
+
+const INSERT_BATCH_SIZE = 1000;
+
+// Rescans all active speakers. New pairs are queued, pending ones get their score refreshed and
+// pending pairs that no longer match are dropped; dismissed and merged pairs are left alone.
+// `db` must be a transaction client. Returns { scannedCount, pendingCount }.
+export const scanForDuplicates = async (db) => {
+    const result = await db.query(
+        `SELECT id, "fullName", "firstName", "lastName", company, "businessEmail", "secondaryEmail", "personLinkedinUrl", "phoneNumber"
+         FROM speakers WHERE "deletedAt" IS NULL`
+    );
+    const pairs = findDuplicatePairs(result.rows);
+    for (let i = 0; i < pairs.length; i += INSERT_BATCH_SIZE) {
+        const batch = pairs.slice(i, i + INSERT_BATCH_SIZE);
+        await db.query(
+            `INSERT INTO duplicate_candidates ("speakerA", "speakerB", score, reasons)
+             SELECT * FROM UNNEST($1::text[], $2::text[], $3::real[], $4::jsonb[])
+             ON CONFLICT ("speakerA", "speakerB") DO UPDATE
+                SET score = EXCLUDED.score, reasons = EXCLUDED.reasons, "lastSeenAt" = NOW()
+                WHERE duplicate_candidates.status = 'pending'`,
+            [batch.map(p => p.speakerA), batch.map(p => p.speakerB), batch.map(p => p.score), batch.map(p => JSON.stringify(p.reasons))]
+        );
+    }
+    // NOW() is the transaction's start time, so everything written above has "lastSeenAt" = NOW()
+    await db.query(`DELETE FROM duplicate_candidates WHERE status = 'pending' AND "lastSeenAt" < NOW()`);
+    const pending = await db.query(`SELECT COUNT(*)::int AS count FROM duplicate_candidates WHERE status = 'pending'`);
+    return { scannedCount: result.rows.length, pendingCount: pending.rows[0].count };
+};
+
+// Pending pairs whose speakers are both still active, best first, with both records.
+export const listDuplicateCandidates = async (db, { limit = 100 } = {}) => {
+    const result = await db.query(
+        `SELECT d.id, d.score, d.reasons, d."createdAt", row_to_json(a) AS "speakerA", row_to_json(b) AS "speakerB"
+         FROM duplicate_candidates d
+         JOIN speakers a ON a.id = d."speakerA" AND a."deletedAt" IS NULL
+         JOIN speakers b ON b.id = d."speakerB" AND b."deletedAt" IS NULL
+         WHERE d.status = 'pending'
+         ORDER BY d.score DESC, d.id
+         LIMIT $1`,
+        [limit]
+    );
+    return result.rows;
+};
+
+export const getDuplicateCandidate = async (db, id, { lock = false } = {}) => {
+    const result = await db.query(`SELECT * FROM duplicate_candidates WHERE id = $1${lock ? ' FOR UPDATE' : ''}`, [id]);
+    return result.rows[0] || null;
+};
+
+export const dismissDuplicateCandidate = async (db, id, actor) => {
+    const result = await db.query(
+        `UPDATE duplicate_candidates SET status = 'dismissed', "reviewedBy" = $2, "reviewedAt" = NOW() WHERE id = $1 AND status = 'pending' RETURNING *`,
+        [id, actor]
+    );
+    return result.rows[0] || null;
+};
+
+// Merges a locked, pending pair. `survivor` and `merged` are the locked speaker rows; `values` are the
+// field values picked for the surviving record. The merged-away speaker goes to the trash first, so the
+// survivor can take over its business email. Returns the updated survivor.
+export const mergeDuplicatePair = async (db, { candidate, survivor, mergedAway, values, actor }) => {
+    const trashed = await db.query(
+        'UPDATE speakers SET "deletedAt" = NOW(), "deletedBy" = $2 WHERE id = $1 RETURNING *',
+        [mergedAway.id, actor]
+    );
+    await recordSpeakerChange(db, { speakerId: mergedAway.id, action: 'delete', actor, before: trashed.rows[0], relatedSpeakerId: survivor.id });
+
+    const chosen = Object.fromEntries(SPEAKER_FIELDS.filter(field => field in values).map(field => [field, values[field]]));
+    // Picked values are stored in canonical form like any edit. The email check goes with the business email that is kept
+    const merged = normalizeSpeaker({ ...survivor, ...chosen }, survivor);
+    const emailSource = merged.businessEmail === mergedAway.businessEmail ? mergedAway : survivor;
+    const after = await updateSpeakerRow(db, survivor.id, withComputedFields(merged, emailSource, { titleRules: await listTitleRules(db) }));
+    await recordSpeakerChange(db, { speakerId: survivor.id, action: 'merge', actor, before: survivor, after, relatedSpeakerId: mergedAway.id });
+
+    await db.query(
+        `UPDATE duplicate_candidates SET status = 'merged', "reviewedBy" = $2, "reviewedAt" = NOW() WHERE id = $1`,
+        [candidate.id, actor]
+    );
+    // Other suggestions for the merged-away speaker are moot; the next scan compares the survivor instead.
+    await db.query(
+        `DELETE FROM duplicate_candidates WHERE status = 'pending' AND ("speakerA" = $1 OR "speakerB" = $1)`,
+        [mergedAway.id]
+    );
+    return after;
+};
@@ -0,0 +1,132 @@
+import dns from 'dns';
+import { recordSpeakerChange } from './history.js';
+
+// --- EMAIL VERIFICATION ---
+// "isEmailValid" is computed here rather than ticked by hand. A business email is checked for, in order:
+//   syntax     - a plausible address
+//   disposable - a throwaway mailbox provider
+//   role       - a shared mailbox (info@, sales@, ...) rather than a person
+//   noMx       - a domain that accepts no mail (no MX records)
+// Free-mail addresses (gmail.com, ...) are deliverable and count as valid, with their own reason.
+// The outcome is stored as "isEmailValid", "emailCheckReason" and "emailCheckedAt". When the mail
+// servers can't be looked up (a timeout, a DNS outage), the stored result is left alone and the reason
+// says so, so the speaker can be checked again later.
+// The MX lookup goes through a replaceable resolver (see setMxResolver), so tests can run offline.
+
+const EMAIL_SYNTAX = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+const DISPOSABLE_DOMAINS = new Set([
+    '10minutemail.com', 'dispostable.com', 'fakeinbox.com', 'getairmail.com', 'getnada.com', 'guerrillamail.com',
+    'guerrillamail.net', 'mailcatch.com', 'maildrop.cc', 'mailinator.com', 'mailnesia.com', 'mintemail.com',
+    'mohmal.com', 'sharklasers.com', 'spamgourmet.com', 'temp-mail.org', 'tempmail.com', 'tempmailo.com',
+    'throwawaymail.com', 'trashmail.com', 'yopmail.com',
+]);
+
+const FREE_MAIL_DOMAINS = new Set([
+    'aol.com', 'gmail.com', 'gmx.com', 'gmx.de', 'googlemail.com', 'hotmail.com', 'hotmail.co.uk', 'icloud.com',
+    'live.com', 'mail.com', 'mail.ru', 'me.com', 'msn.com', 'outlook.com', 'proton.me', 'protonmail.com',
+    'qq.com', 'web.de', 'yahoo.com', 'yahoo.co.uk', 'yandex.com', 'yandex.ru', 'zoho.com',
+]);
+
+const ROLE_ACCOUNTS = new Set([
+    'admin', 'billing', 'contact', 'enquiries', 'events', 'hello', 'help', 'hr', 'info', 'inquiries', 'jobs',
+    'marketing', 'media', 'noreply', 'no-reply', 'office', 'press', 'sales', 'support', 'team', 'webmaster',
+]);
+
+const LOOKUP_TIMEOUT_MS = 3000;
+
+export const isFreeMailDomain = (domain) => FREE_MAIL_DOMAINS.has(String(domain || '').toLowerCase());
+
+// Resolves a domain to its mail exchangers: [{ exchange, priority }], or [] when the domain has none.
+// Throws when the lookup itself failed.
+const dnsMxResolver = async (domain) => {
+    try {
+        return await dns.promises.resolveMx(domain);
+    } catch (err) {
+        if (err.code === 'ENOTFOUND' || err.code === 'ENODATA') return [];
+        throw err;
+    }
+};
+
+let mxResolver = dnsMxResolver;
+
+// Replaces the MX lookup, e.g. with a stub returning fixed records; without an argument, restores DNS.
+export const setMxResolver = (resolver) => {
+    mxResolver = resolver || dnsMxResolver;
+};
+
+const withTimeout = (promise, ms) => {
+    let timer;
+    const timeout = new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('MX lookup timed out')), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Checks one address. `mxCache` (domain -> promise of records) lets a batch look each domain up once.
+// Returns { isValid, reason }; `isValid` is null when the result is unknown (`lookupFailed`).
+export const verifyEmail = async (email, mxCache = new Map()) => {
+    const address = String(email || '').trim().toLowerCase();
+    if (!EMAIL_SYNTAX.test(address)) return { isValid: false, reason: 'syntax' };
+    const [local, domain] = address.split('@');
+    if (DISPOSABLE_DOMAINS.has(domain)) return { isValid: false, reason: 'disposable' };
+    if (ROLE_ACCOUNTS.has(local.split('+')[0])) return { isValid: false, reason: 'role' };
+    if (FREE_MAIL_DOMAINS.has(domain)) return { isValid: true, reason: 'freeMail' };
+
+    if (!mxCache.has(domain)) mxCache.set(domain, withTimeout(mxResolver(domain), LOOKUP_TIMEOUT_MS));
+    try {
+        const records = await mxCache.get(domain);
+        // A single "." exchange is the null MX record: the domain explicitly accepts no mail
+        const accepting = records.filter(record => record.exchange && record.exchange !== '.');
+        return accepting.length > 0 ? { isValid: true, reason: 'ok' } : { isValid: false, reason: 'noMx' };
+    } catch {
+        return { isValid: null, reason: 'lookupFailed' };
+    }
+};
+
+// `check` is { email, isValid, reason }, made before a write for the email being written. Returns `speaker` with
+// the computed email columns for after the write: kept while the business email stays the same, otherwise the
+// result of `check` or, without one for this email, not checked yet.
+export const withEmailCheck = (speaker, before, check) => {
+    if (before && before.businessEmail === speaker.businessEmail) return speaker;
+    if (!check || check.email !== speaker.businessEmail) return { ...speaker, isEmailValid: false, emailCheckReason: null, emailCheckedAt: null };
+    return { ...speaker, isEmailValid: check.isValid ?? false, emailCheckReason: check.reason, emailCheckedAt: new Date() };
+};
+
+export const MAX_SPEAKERS_PER_RUN = 200;
+
+// Checks the business emails of the given active speakers, without writing anything, so no row is locked
+// while the mail servers are looked up. Returns [{ id, businessEmail, isValid, reason }].
+export const checkSpeakerEmails = async (db, speakerIds) => {
+    const result = await db.query(
+        'SELECT id, "businessEmail" FROM speakers WHERE id = ANY($1) AND "deletedAt" IS NULL',
+        [speakerIds.slice(0, MAX_SPEAKERS_PER_RUN)]
+    );
+    const mxCache = new Map();
+    return Promise.all(result.rows.map(async ({ id, businessEmail }) => ({ id, businessEmail, ...await verifyEmail(businessEmail, mxCache) })));
+};
+
+// Stores the results of checkSpeakerEmails, skipping speakers whose email changed in the meantime. A changed
+// "isEmailValid" is a real change to the record: it bumps the version and is recorded in the history.
+// `db` must be a transaction client. Returns the updated speakers.
+export const storeEmailChecks = async (db, checks, actor) => {
+    const updated = [];
+    for (const { id, businessEmail, isValid, reason } of checks) {
+        const current = await db.query('SELECT * FROM speakers WHERE id = $1 AND "deletedAt" IS NULL FOR UPDATE', [id]);
+        const before = current.rows[0];
+        if (!before || before.businessEmail !== businessEmail) continue;
+        const isEmailValid = isValid === null ? before.isEmailValid : isValid;
+        const written = await db.query(
+            `UPDATE speakers SET "isEmailValid" = $2, "emailCheckReason" = $3, "emailCheckedAt" = NOW(),
+                version = version + CASE WHEN "isEmailValid" IS DISTINCT FROM $2 THEN 1 ELSE 0 END
+             WHERE id = $1 RETURNING *`,
+            [id, isEmailValid, reason]
+        );
+        const after = written.rows[0];
+        if (after.version !== before.version) {
+            await recordSpeakerChange(db, { speakerId: id, action: 'update', actor, before, after });
+        }
+        updated.push(after);
+    }
+    return updated;
+};
@@ -0,0 +1,166 @@
+// --- GAZETTEER ---
+// The offline place data the location parser reads (see speakerParsing.js): the states and provinces of the
+// countries most speakers come from, and the cities seen most often in speaker locations. Countries themselves
+// are recognized by speakerNormalization.js. Region codes are the postal abbreviations people write
+// ("Austin, TX"); city aliases are common short forms ("NYC").
+
+export const REGIONS = {
+    US: {
+        AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+        CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii',
+        ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+        ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+        MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey',
+        NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma',
+        OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota',
+        TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington',
+        WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming', PR: 'Puerto Rico',
+    },
+    CA: {
+        AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick', NL: 'Newfoundland and Labrador',
+        NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut', ON: 'Ontario', PE: 'Prince Edward Island',
+        QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon',
+    },
+    AU: {
+        ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory', QLD: 'Queensland',
+        SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria', WA: 'Western Australia',
+    },
+    IN: {
+        DL: 'Delhi', KA: 'Karnataka', MH: 'Maharashtra', TN: 'Tamil Nadu', TG: 'Telangana', WB: 'West Bengal',
+        GJ: 'Gujarat', UP: 'Uttar Pradesh', KL: 'Kerala', HR: 'Haryana',
+    },
+};
+
+// [city, country code, region code or null, aliases]
+export const CITIES = [
+    ['New York', 'US', 'NY', ['nyc', 'new york city', 'manhattan', 'brooklyn']],
+    ['Los Angeles', 'US', 'CA', ['la']],
+    ['San Francisco', 'US', 'CA', ['sf']],
+    ['San Jose', 'US', 'CA', []],
+    ['San Diego', 'US', 'CA', []],
+    ['Palo Alto', 'US', 'CA', []],
+    ['Mountain View', 'US', 'CA', []],
+    ['Menlo Park', 'US', 'CA', []],
+    ['Oakland', 'US', 'CA', []],
+    ['Sacramento', 'US', 'CA', []],
+    ['Seattle', 'US', 'WA', []],
+    ['Portland', 'US', 'OR', []],
+    ['Austin', 'US', 'TX', []],
+    ['Dallas', 'US', 'TX', []],
+    ['Houston', 'US', 'TX', []],
+    ['San Antonio', 'US', 'TX', []],
+    ['Chicago', 'US', 'IL', []],
+    ['Boston', 'US', 'MA', []],
+    ['Cambridge', 'US', 'MA', []],
+    ['Washington', 'US', 'DC', ['washington dc', 'dc']],
+    ['Philadelphia', 'US', 'PA', ['philly']],
+    ['Pittsburgh', 'US', 'PA', []],
+    ['Atlanta', 'US', 'GA', []],
+    ['Miami', 'US', 'FL', []],
+    ['Orlando', 'US', 'FL', []],
+    ['Tampa', 'US', 'FL', []],
+    ['Denver', 'US', 'CO', []],
+    ['Boulder', 'US', 'CO', []],
+    ['Phoenix', 'US', 'AZ', []],
+    ['Las Vegas', 'US', 'NV', []],
+    ['Salt Lake City', 'US', 'UT', []],
+    ['Minneapolis', 'US', 'MN', []],
+    ['Detroit', 'US', 'MI', []],
+    ['Nashville', 'US', 'TN', []],
+    ['Charlotte', 'US', 'NC', []],
+    ['Raleigh', 'US', 'NC', []],
+    ['Baltimore', 'US', 'MD', []],
+    ['St. Louis', 'US', 'MO', ['saint louis']],
+    ['Kansas City', 'US', 'MO', []],
+    ['Columbus', 'US', 'OH', []],
+    ['Cleveland', 'US', 'OH', []],
+    ['Indianapolis', 'US', 'IN', []],
+    ['New Orleans', 'US', 'LA', []],
+    ['Honolulu', 'US', 'HI', []],
+    ['Toronto', 'CA', 'ON', []],
+    ['Ottawa', 'CA', 'ON', []],
+    ['Montreal', 'CA', 'QC', []],
+    ['Quebec City', 'CA', 'QC', []],
+    ['Vancouver', 'CA', 'BC', []],
+    ['Calgary', 'CA', 'AB', []],
+    ['Edmonton', 'CA', 'AB', []],
+    ['Winnipeg', 'CA', 'MB', []],
+    ['Halifax', 'CA', 'NS', []],
+    ['Sydney', 'AU', 'NSW', []],
+    ['Melbourne', 'AU', 'VIC', []],
+    ['Brisbane', 'AU', 'QLD', []],
+    ['Perth', 'AU', 'WA', []],
+    ['Adelaide', 'AU', 'SA', []],
+    ['Canberra', 'AU', 'ACT', []],
+    ['Mumbai', 'IN', 'MH', ['bombay']],
+    ['Pune', 'IN', 'MH', []],
+    ['Bengaluru', 'IN', 'KA', ['bangalore']],
+    ['New Delhi', 'IN', 'DL', ['delhi']],
+    ['Hyderabad', 'IN', 'TG', []],
+    ['Chennai', 'IN', 'TN', ['madras']],
+    ['Kolkata', 'IN', 'WB', ['calcutta']],
+    ['Gurugram', 'IN', 'HR', ['gurgaon']],
+    ['London', 'GB', null, []],
+    ['Manchester', 'GB', null, []],
+    ['Birmingham', 'GB', null, []],
+    ['Edinburgh', 'GB', null, []],
+    ['Glasgow', 'GB', null, []],
+    ['Bristol', 'GB', null, []],
+    ['Leeds', 'GB', null, []],
+    ['Oxford', 'GB', null, []],
+    ['Belfast', 'GB', null, []],
+    ['Dublin', 'IE', null, []],
+    ['Paris', 'FR', null, []],
+    ['Lyon', 'FR', null, []],
+    ['Berlin', 'DE', null, []],
+    ['Munich', 'DE', null, ['munchen', 'muenchen']],
+    ['Hamburg', 'DE', null, []],
+    ['Frankfurt', 'DE', null, ['frankfurt am main']],
+    ['Cologne', 'DE', null, ['koln', 'koeln']],
+    ['Amsterdam', 'NL', null, []],
+    ['Rotterdam', 'NL', null, []],
+    ['Brussels', 'BE', null, ['bruxelles']],
+    ['Zurich', 'CH', null, []],
+    ['Geneva', 'CH', null, []],
+    ['Vienna', 'AT', null, ['wien']],
+    ['Madrid', 'ES', null, []],
+    ['Barcelona', 'ES', null, []],
+    ['Lisbon', 'PT', null, ['lisboa']],
+    ['Milan', 'IT', null, ['milano']],
+    ['Rome', 'IT', null, ['roma']],
+    ['Stockholm', 'SE', null, []],
+    ['Copenhagen', 'DK', null, []],
+    ['Oslo', 'NO', null, []],
+    ['Helsinki', 'FI', null, []],
+    ['Warsaw', 'PL', null, []],
+    ['Prague', 'CZ', null, []],
+    ['Tel Aviv', 'IL', null, []],
+    ['Dubai', 'AE', null, []],
+    ['Abu Dhabi', 'AE', null, []],
+    ['Singapore', 'SG', null, []],
+    ['Hong Kong', 'HK', null, []],
+    ['Tokyo', 'JP', null, []],
+    ['Seoul', 'KR', null, []],
+    ['Shanghai', 'CN', null, []],
+    ['Beijing', 'CN', null, []],
+    ['Shenzhen', 'CN', null, []],
+    ['Taipei', 'TW', null, []],
+    ['Bangkok', 'TH', null, []],
+    ['Jakarta', 'ID', null, []],
+    ['Kuala Lumpur', 'MY', null, []],
+    ['Manila', 'PH', null, []],
+    ['Auckland', 'NZ', null, []],
+    ['Wellington', 'NZ', null, []],
+    ['Sao Paulo', 'BR', null, []],
+    ['Rio de Janeiro', 'BR', null, []],
+    ['Mexico City', 'MX', null, ['cdmx']],
+    ['Buenos Aires', 'AR', null, []],
+    ['Santiago', 'CL', null, []],
+    ['Bogota', 'CO', null, []],
+    ['Lima', 'PE', null, []],
+    ['Lagos', 'NG', null, []],
+    ['Nairobi', 'KE', null, []],
+    ['Cape Town', 'ZA', null, []],
+    ['Johannesburg', 'ZA', null, []],
+    ['Cairo', 'EG', null, []],
+];
@@ -0,0 +1,78 @@
+import { SPEAKER_FIELDS } from './speakerFields.js';
+
+// --- SPEAKER CHANGE HISTORY ---
+// Every create, update, delete and revert appends a row to `speaker_history` holding the actor,
+// the field-level changes ({ field: { from, to } }) and a snapshot of the record after the change
+// (before it, for deletes). The table is append-only; a trigger rejects updates and deletes.
+// Entries written by an import carry its batch id, which is what an import rollback undoes (see importBatches.js).
+// Both entries of a duplicate merge point at the other speaker in "relatedSpeakerId" (see duplicates.js).
+
+const TRACKED_FIELDS = ['createdBy', ...SPEAKER_FIELDS];
+
+// Empty strings and missing values are treated as the same "no value".
+const normalizeValue = (value) => (value === undefined || value === '' ? null : value);
+
+export const diffSpeakers = (before, after) => {
+    const changes = {};
+    TRACKED_FIELDS.forEach(field => {
+        const from = normalizeValue(before?.[field]);
+        const to = normalizeValue(after?.[field]);
+        if (from !== to) {
+            changes[field] = { from, to };
+        }
+    });
+    return changes;
+};
+
+const pickTracked = (row) => Object.fromEntries(TRACKED_FIELDS.map(field => [field, row[field] ?? null]));
+
+// `db` is the pool or, preferably, the transaction client that made the change.
+export const recordSpeakerChange = async (db, { speakerId, action, actor, before = null, after = null, importBatchId = null, relatedSpeakerId = null }) => {
+    const changes = diffSpeakers(before, after);
+    // Nothing changed on an update: don't clutter the history.
+    if (action === 'update' && Object.keys(changes).length === 0) return;
+    await db.query(
+        `INSERT INTO speaker_history ("speakerId", action, actor, changes, snapshot, "importBatchId", "relatedSpeakerId")
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [speakerId, action, actor, JSON.stringify(changes), JSON.stringify(pickTracked(after || before)), importBatchId, relatedSpeakerId]
+    );
+};
+
+// Records creation entries for many freshly inserted rows in one statement.
+export const recordSpeakerCreations = async (db, rows, actor, importBatchId = null) => {
+    if (rows.length === 0) return;
+    const valuesClause = [];
+    const params = [];
+    rows.forEach(row => {
+        const base = params.length;
+        valuesClause.push(`($${base + 1}, 'create', $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5})`);
+        params.push(row.id, actor, JSON.stringify(diffSpeakers(null, row)), JSON.stringify(pickTracked(row)), importBatchId);
+    });
+    await db.query(
+        `INSERT INTO speaker_history ("speakerId", action, actor, changes, snapshot, "importBatchId") VALUES ${valuesClause.join(', ')}`,
+        params
+    );
+};
+
+export const getSpeakerHistory = async (db, speakerId) => {
+    const result = await db.query(
+        'SELECT * FROM speaker_history WHERE "speakerId" = $1 ORDER BY "createdAt" DESC, id DESC',
+        [speakerId]
+    );
+    return result.rows;
+};
+
+// Computes the field values a revert should write: a single field goes back to the value it had
+// before the given change, the whole record goes back to the snapshot taken after it.
+export const buildRevertedSpeaker = (current, entry, field) => {
+    if (field) {
+        if (!entry.changes[field]) return null;
+        return { ...current, [field]: entry.changes[field].from };
+    }
+    if (!entry.snapshot || entry.action === 'delete') return null;
+    const reverted = { ...current };
+    SPEAKER_FIELDS.forEach(name => {
+        reverted[name] = entry.snapshot[name];
+    });
+    return reverted;
+};
@@ -0,0 +1,87 @@
+import { recordSpeakerChange } from './history.js';
+import { updateSpeakerRow } from './speakerRows.js';
+import { withComputedFields } from './computedFields.js';
+import { listTitleRules } from './titleClassification.js';
+
+// --- IMPORT BATCHES ---
+// Every import is recorded as an import session (see importSessions.js) holding the file name,
+// uploader, time and counts; its id is the batch id. Speakers the import inserted carry it in
+// "importBatchId", and so do the history entries of every speaker it created or updated.
+// Rolling a batch back undoes exactly those entries:
+//   - speakers it inserted are moved to the trash, where an admin can still restore them;
+//   - fields it updated go back to their previous values, unless they were changed again after
+//     the import. Later edits are kept, and the rollback reports how many speakers had them.
+
+const ROWS_PAGE_LIMIT = 500;
+
+// Newest first. Without `createdBy`, the batches of every user.
+export const listImportBatches = async (db, { createdBy = null, limit = 200 } = {}) => {
+    const result = await db.query(
+        `SELECT * FROM import_sessions WHERE ($1::text IS NULL OR "createdBy" = $1) ORDER BY "createdAt" DESC LIMIT $2`,
+        [createdBy, limit]
+    );
+    return result.rows;
+};
+
+// The speakers a batch created or updated, in import order, with what it changed and whether the
+// speaker has been deleted since. Returns { total, rows } for one page.
+export const getImportBatchRows = async (db, batchId, { offset = 0, limit = 100 } = {}) => {
+    const pageLimit = Math.min(Math.max(limit, 1), ROWS_PAGE_LIMIT);
+    const [count, page] = await Promise.all([
+        db.query(
+            `SELECT COUNT(*)::int AS total FROM speaker_history WHERE "importBatchId" = $1 AND action IN ('create', 'update')`,
+            [batchId]
+        ),
+        db.query(
+            `SELECT h.id, h."speakerId", h.action, h.changes, h.snapshot, h."createdAt", s."deletedAt"
+             FROM speaker_history h LEFT JOIN speakers s ON s.id = h."speakerId"
+             WHERE h."importBatchId" = $1 AND h.action IN ('create', 'update')
+             ORDER BY h.id LIMIT $2 OFFSET $3`,
+            [batchId, pageLimit, Math.max(offset, 0)]
+        ),
+    ]);
+    return { total: count.rows[0].total, rows: page.rows };
+};
+
+// Stored values and history values differ only in how "no value" is written.
+const sameValue = (a, b) => (a === '' || a === undefined ? null : a) === (b === '' || b === undefined ? null : b);
+
+// Undoes a batch. `db` must be a transaction client holding a lock on the batch's session row.
+// Returns { removedCount, revertedCount, keptEditsCount }.
+export const rollbackImportBatch = async (db, batchId, actor) => {
+    const removed = await db.query(
+        `UPDATE speakers SET "deletedAt" = NOW(), "deletedBy" = $2 WHERE "importBatchId" = $1 AND "deletedAt" IS NULL RETURNING *`,
+        [batchId, actor]
+    );
+    for (const row of removed.rows) {
+        await recordSpeakerChange(db, { speakerId: row.id, action: 'delete', actor, before: row });
+    }
+
+    // Latest first, in case the batch updated the same speaker more than once
+    const updates = await db.query(
+        `SELECT * FROM speaker_history WHERE "importBatchId" = $1 AND action = 'update' ORDER BY id DESC`,
+        [batchId]
+    );
+    const titleRules = await listTitleRules(db);
+    let revertedCount = 0;
+    let keptEditsCount = 0;
+    for (const entry of updates.rows) {
+        const current = await db.query('SELECT * FROM speakers WHERE id = $1 AND "deletedAt" IS NULL FOR UPDATE', [entry.speakerId]);
+        const before = current.rows[0];
+        if (!before) continue; // Deleted since the import; nothing left to revert
+        const changes = Object.entries(entry.changes);
+        const revertible = changes.filter(([field, { to }]) => sameValue(before[field], to));
+        if (revertible.length < changes.length) keptEditsCount += 1;
+        if (revertible.length === 0) continue;
+        const reverted = { ...before, ...Object.fromEntries(revertible.map(([field, { from }]) => [field, from])) };
+        const after = await updateSpeakerRow(db, before.id, withComputedFields(reverted, before, { titleRules }));
+        await recordSpeakerChange(db, { speakerId: before.id, action: 'revert', actor, before, after });
+        revertedCount += 1;
+    }
+
+    await db.query(
+        `UPDATE import_sessions SET status = 'rolledBack', "rolledBackAt" = NOW(), "rolledBackBy" = $2, "updatedAt" = NOW() WHERE id = $1`,
+        [batchId, actor]
+    );
+    return { removedCount: removed.rowCount, revertedCount, keptEditsCount };
+};
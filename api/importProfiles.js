@@ -0,0 +1,48 @@
+import { SPEAKER_FIELDS } from './speakerFields.js';
+
+// --- IMPORT MAPPING PROFILES ---
+// A named, team-wide mapping from a source's CSV headers to speaker fields, saved from the
+// import wizard so the next file from the same source maps automatically. A header mapped
+// to null is deliberately ignored.
+
+const MAPPABLE_FIELDS = new Set(['createdBy', ...SPEAKER_FIELDS]);
+const MAX_PROFILE_NAME_LENGTH = 100;
+
+// Returns an error message, or null if the profile can be saved.
+export const checkImportProfile = (name, mapping) => {
+    if (typeof name !== 'string' || !name.trim()) return 'Profile name is required.';
+    if (name.trim().length > MAX_PROFILE_NAME_LENGTH) return `Profile name must be at most ${MAX_PROFILE_NAME_LENGTH} characters.`;
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping) || Object.keys(mapping).length === 0) {
+        return 'The mapping must list at least one column.';
+    }
+    const unknown = Object.values(mapping).find(field => field !== null && !MAPPABLE_FIELDS.has(field));
+    if (unknown !== undefined) return `Unknown speaker field "${unknown}".`;
+    return null;
+};
+
+export const listImportProfiles = async (db) => {
+    const result = await db.query('SELECT * FROM import_profiles ORDER BY name');
+    return result.rows;
+};
+
+// Saving under an existing name replaces that profile's mapping, if it is the actor's own or `replaceAny` is set.
+// Returns the saved profile, or null when the name belongs to someone else's profile.
+export const saveImportProfile = async (db, { name, mapping, actor, replaceAny = false }) => {
+    const result = await db.query(
+        `INSERT INTO import_profiles (name, mapping, "createdBy") VALUES ($1, $2, $3)
+         ON CONFLICT (name) DO UPDATE SET mapping = EXCLUDED.mapping, "updatedAt" = NOW()
+         WHERE import_profiles."createdBy" = $3 OR $4
+         RETURNING *`,
+        [name.trim(), JSON.stringify(mapping), actor, replaceAny]
+    );
+    return result.rows[0] || null;
+};
+
+export const getImportProfile = async (db, id) => {
+    const result = await db.query('SELECT * FROM import_profiles WHERE id = $1', [id]);
+    return result.rows[0] || null;
+};
+
+export const deleteImportProfile = async (db, id) => {
+    await db.query('DELETE FROM import_profiles WHERE id = $1', [id]);
+};
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { importSpeakers } from './bulkImport.js';
+
+// --- IMPORT SESSIONS ---
+// Large files are parsed in the browser and uploaded in numbered chunks, each imported in its own
+// transaction (see bulkImport.js). The session keeps the running totals and the number of the next
+// chunk it expects, so an interrupted upload can resume where it stopped. A chunk that is sent twice
+// (e.g. after a lost response) is not imported again; its stored result is returned instead.
+// Emails seen in earlier chunks are kept per session, so duplicates within the file are still
+// recognized across chunks. They are dropped once the session ends.
+// Imports sent in one request are recorded as a single-chunk session too (importAsBatch), so every
+// import has a session. Its id is the import's batch id (see importBatches.js).
+
+// Open sessions untouched for this long can no longer be resumed.
+const SESSION_EXPIRY_HOURS = 24;
+
+const COUNT_COLUMNS = ['insertedCount', 'updatedCount', 'unchangedCount', 'skippedCount', 'invalidCount'];
+
+const generateImportSessionId = () => `import-${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+
+// Ends open sessions nobody has touched for a day and drops their duplicate-tracking rows.
+export const expireStaleImportSessions = async (db) => {
+    await db.query(
+        `UPDATE import_sessions SET status = 'expired', "updatedAt" = NOW()
+         WHERE status = 'open' AND "updatedAt" < NOW() - ($1 * INTERVAL '1 hour')`,
+        [SESSION_EXPIRY_HOURS]
+    );
+    await db.query(
+        `DELETE FROM import_session_emails e USING import_sessions s
+         WHERE e."sessionId" = s.id AND s.status <> 'open'`
+    );
+};
+
+// `source` is how the file arrived: 'chunked' (the import wizard), 'bulk' (a JSON request) or 'csv' (a raw CSV upload).
+export const createImportSession = async (db, { user, fileName, fileSize, mode, source = 'chunked' }) => {
+    const result = await db.query(
+        `INSERT INTO import_sessions (id, "createdBy", "fileName", "fileSize", mode, source) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [generateImportSessionId(), user.email, fileName ?? null, fileSize ?? null, mode, source]
+    );
+    return result.rows[0];
+};
+
+export const getImportSession = async (db, id, { lock = false } = {}) => {
+    const result = await db.query(`SELECT * FROM import_sessions WHERE id = $1${lock ? ' FOR UPDATE' : ''}`, [id]);
+    return result.rows[0] || null;
+};
+
+export const listOpenImportSessions = async (db, email) => {
+    const result = await db.query(
+        `SELECT * FROM import_sessions WHERE "createdBy" = $1 AND status = 'open' ORDER BY "updatedAt" DESC`,
+        [email]
+    );
+    return result.rows;
+};
+
+export const getImportChunkResult = async (db, sessionId, chunkIndex) => {
+    const result = await db.query(
+        'SELECT result FROM import_session_chunks WHERE "sessionId" = $1 AND "chunkIndex" = $2',
+        [sessionId, chunkIndex]
+    );
+    return result.rows[0]?.result || null;
+};
+
+// Imports the next chunk of a locked, open session and advances it. `db` must be the transaction
+// client holding the session lock. Returns the updated session and the chunk's own result.
+export const importSessionChunk = async (db, session, { firstRow, speakers }, user) => {
+    const emails = [...new Set(speakers.map(s => String(s.businessEmail || '').trim().toLowerCase()).filter(Boolean))];
+    const seen = emails.length === 0 ? { rows: [] } : await db.query(
+        'SELECT email, "row" FROM import_session_emails WHERE "sessionId" = $1 AND email = ANY($2)',
+        [session.id, emails]
+    );
+    const seenRows = new Map(seen.rows.map(({ email, row }) => [email, row]));
+
+    const result = await importSpeakers(db, speakers, { mode: session.mode, user, batchId: session.id, rowOffset: firstRow, seenRows });
+
+    const newlySeen = [...seenRows].filter(([, row]) => row >= firstRow);
+    if (newlySeen.length > 0) {
+        await db.query(
+            `INSERT INTO import_session_emails ("sessionId", email, "row")
+             SELECT $1, * FROM UNNEST($2::text[], $3::int[]) ON CONFLICT DO NOTHING`,
+            [session.id, newlySeen.map(([email]) => email), newlySeen.map(([, row]) => row)]
+        );
+    }
+    await db.query(
+        'INSERT INTO import_session_chunks ("sessionId", "chunkIndex", result) VALUES ($1, $2, $3)',
+        [session.id, session.nextChunk, JSON.stringify(result)]
+    );
+    const updated = await db.query(
+        `UPDATE import_sessions SET
+            "nextChunk" = "nextChunk" + 1,
+            "rowsReceived" = "rowsReceived" + $2,
+            ${COUNT_COLUMNS.map((column, i) => `"${column}" = "${column}" + $${i + 3}`).join(', ')},
+            "updatedAt" = NOW()
+         WHERE id = $1 RETURNING *`,
+        [session.id, speakers.length, ...COUNT_COLUMNS.map(column => result[column])]
+    );
+    return { session: updated.rows[0], result };
+};
+
+// Imports rows sent in one request as a completed, single-chunk session. `db` must be a transaction client.
+// Returns the import result with the batch id.
+export const importAsBatch = async (db, { user, fileName, mode, source, speakers }) => {
+    const session = await createImportSession(db, { user, fileName, mode, source });
+    const { result } = await importSessionChunk(db, session, { firstRow: 0, speakers }, user);
+    await finishImportSession(db, session.id, 'completed');
+    return { ...result, batchId: session.id };
+};
+
+// Ends a session as 'completed' or 'cancelled'. Rows imported so far stay imported.
+export const finishImportSession = async (db, id, status) => {
+    const result = await db.query(
+        `UPDATE import_sessions SET status = $2, "updatedAt" = NOW() WHERE id = $1 AND status = 'open' RETURNING *`,
+        [id, status]
+    );
+    await db.query('DELETE FROM import_session_emails WHERE "sessionId" = $1', [id]);
+    return result.rows[0] || null;
+};
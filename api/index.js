@@ -3,10 +3,74 @@ import cors from 'cors';
 import pkg from 'pg';
 const { Pool } = pkg;
 import crypto from 'crypto';
+import { ensureSchema } from './schema.js';
+import {
+    SESSION_TTL_MS,
+    SESSION_IDLE_TIMEOUT_MS,
+    generateSessionId,
+    verifySessionToken,
+    readSessionToken,
+    setSessionCookie,
+    clearSessionCookie,
+    hashPassword,
+    verifyPassword,
+    UNKNOWN_USER_PASSWORD_HASH,
+    isPasswordHash,
+    checkPasswordPolicy,
+} from './auth.js';
+import { ROLES, isValidRole, roleOf, hasPermission, canModifySpeaker, withPermissions } from './permissions.js';
+import { SPEAKER_FIELDS, COMPUTED_SPEAKER_FIELDS } from './speakerFields.js';
+import { recordSpeakerChange, getSpeakerHistory, buildRevertedSpeaker } from './history.js';
+import { IMPORT_MODES, classifyImportRows } from './bulkImport.js';
+import { updateSpeakerRow } from './speakerRows.js';
+import { parseSpeakerCsv } from './speakerIngestion.js';
+import {
+    expireStaleImportSessions,
+    createImportSession,
+    getImportSession,
+    listOpenImportSessions,
+    getImportChunkResult,
+    importSessionChunk,
+    importAsBatch,
+    finishImportSession,
+} from './importSessions.js';
+import { listImportBatches, getImportBatchRows, rollbackImportBatch } from './importBatches.js';
+import {
+    scanForDuplicates,
+    listDuplicateCandidates,
+    getDuplicateCandidate,
+    dismissDuplicateCandidate,
+    mergeDuplicatePair,
+} from './duplicates.js';
+import { findSpeakerMatches } from './speakerMatches.js';
+import { normalizeSpeaker, normalizeEmail, countryCodeOf } from './speakerNormalization.js';
+import { verifyEmail, checkSpeakerEmails, storeEmailChecks, MAX_SPEAKERS_PER_RUN } from './emailVerification.js';
+import { checkSpeakerUrls, storeUrlChecks, MAX_URL_CHECKS_PER_RUN } from './urlVerification.js';
+import { withComputedFields } from './computedFields.js';
+import { checkTitleRule, listTitleRules, createTitleRule, updateTitleRule, deleteTitleRule, classifyTitle, readTitleFlagOverrides, reclassifySpeakers } from './titleClassification.js';
+import { TRASH_RETENTION_DAYS, listTrashedSpeakers, purgeExpiredTrash } from './trash.js';
+import { getLoginBlock, recordLoginFailure, clearAccountFailures, listLockedAccounts } from './loginThrottle.js';
+import { checkImportProfile, listImportProfiles, saveImportProfile, getImportProfile, deleteImportProfile } from './importProfiles.js';
+import {
+    checkPageUrl,
+    checkScrapeRules,
+    scrapePage,
+    checkScrapeProfile,
+    listScrapeProfiles,
+    saveScrapeProfile,
+    getScrapeProfile,
+    deleteScrapeProfile,
+    createSpeakerDrafts,
+    listSpeakerDrafts,
+    getSpeakerDraft,
+    closeSpeakerDraft,
+} from './scraper.js';
 
 const app = express();
 const apiRouter = express.Router(); // Create a new router
 
+app.set('trust proxy', 1); // Behind Vercel's proxy: take the client IP from X-Forwarded-For
+
 app.use(cors()); // Enable Cross-Origin Resource Sharing
 app.use(express.json({ limit: '10mb' })); // Enable parsing of JSON bodies, increase limit for large CSVs
 
@@ -31,24 +95,124 @@ try {
 
 // --- DATABASE AVAILABILITY MIDDLEWARE ---
 // This middleware runs for every request to the API router.
-// It checks if the pool was successfully created.
-apiRouter.use((req, res, next) => {
+// It checks if the pool was successfully created and that the app's own tables exist.
+let schemaReady = null;
+apiRouter.use(async (req, res, next) => {
     if (!pool) {
         return res.status(503).json({ 
             message: "Database connection is not available. Please check server configuration." 
         });
     }
+    try {
+        schemaReady = schemaReady || ensureSchema(pool);
+        await schemaReady;
+    } catch (err) {
+        schemaReady = null; // Retry on the next request
+        console.error('Schema migration failed:', err);
+        return res.status(503).json({ message: 'Database schema is not ready. Please check server configuration.' });
+    }
     next();
 });
 
 
-// --- HELPER FUNCTION ---
+// --- AUTHENTICATION MIDDLEWARE ---
+// Resolves the caller from the session cookie and attaches the user row (without password) as `req.user`.
+const authenticate = async (req, res, next) => {
+    const sessionId = verifySessionToken(readSessionToken(req));
+    if (!sessionId) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+    try {
+        const result = await pool.query(
+            `SELECT u.* FROM sessions s JOIN users u ON u.email = s."userEmail"
+             WHERE s.id = $1 AND s."expiresAt" > NOW() AND s."lastSeenAt" > NOW() - ($2 * INTERVAL '1 millisecond')`,
+            [sessionId, SESSION_IDLE_TIMEOUT_MS]
+        );
+        if (result.rows.length === 0) {
+            clearSessionCookie(res);
+            return res.status(401).json({ message: 'Your session has expired. Please log in again.' });
+        }
+        await pool.query('UPDATE sessions SET "lastSeenAt" = NOW() WHERE id = $1', [sessionId]);
+        const { password: _, ...user } = result.rows[0];
+        req.user = withPermissions(user);
+        req.sessionId = sessionId;
+        next();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+};
+
+// Routes a user with a temporary password may still call.
+const PASSWORD_CHANGE_EXEMPT_PATHS = new Set(['/auth/me', '/users/change-password']);
+
+// Users holding a generated/admin-set password can do nothing until they choose their own.
+// Must run after `authenticate`.
+const requireOwnPassword = (req, res, next) => {
+    if (req.user.mustChangePassword && !PASSWORD_CHANGE_EXEMPT_PATHS.has(req.path)) {
+        return res.status(403).json({ message: 'You must change your temporary password before continuing.', code: 'PASSWORD_CHANGE_REQUIRED' });
+    }
+    next();
+};
+
+// Rejects callers whose role lacks the permission (see permissions.js).
+// Must run after `authenticate`.
+const requirePermission = (permission) => (req, res, next) => {
+    if (!hasPermission(req.user, permission)) {
+        return res.status(403).json({ message: 'Your role does not allow this action.' });
+    }
+    next();
+};
+
+// Whether the user may read speaker rows created by `createdBy`.
+const canReadSpeakersOf = (user, createdBy) => hasPermission(user, 'speakers:readAll') || createdBy === user.email;
+
+// Loads the speaker identified by `:id` into `req.speaker`, rejecting callers who may not `action` ('edit' or 'delete') it
+// (see canModifySpeaker). Must run after `authenticate`.
+const requireSpeakerAccess = (action) => async (req, res, next) => {
+    try {
+        const result = await pool.query('SELECT * FROM speakers WHERE id = $1 AND "deletedAt" IS NULL', [req.params.id]);
+        if (result.rows.length === 0) {
+            return res.status(404).json({ message: 'Speaker not found.' });
+        }
+        const isOwner = result.rows[0].createdBy === req.user.email;
+        if (!canModifySpeaker(req.user, result.rows[0], action)) {
+            return res.status(403).json({
+                message: isOwner ? `Your role does not allow you to ${action} speaker entries.` : `You can only ${action} speaker entries that you created.`,
+            });
+        }
+        req.speaker = result.rows[0];
+        next();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+};
+
+// Columns of the users table that are safe to send to clients.
+const PUBLIC_USER_COLUMNS = 'email, "isAdmin", role, "mustChangePassword"';
+
+
+// --- HELPER FUNCTIONS ---
 const generateRandomPassword = (length = 10) => {
     return crypto.randomBytes(Math.ceil(length / 2))
         .toString('hex')
         .slice(0, length);
 };
 
+// Runs `callback(client)` inside a transaction, committing if it resolves and rolling back if it throws.
+const withTransaction = async (callback) => {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const result = await callback(client);
+        await client.query('COMMIT');
+        return result;
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+};
 
 // --- HEALTH CHECK / ROOT ENDPOINT ---
 // This is now the root of the API router, accessible at /api/
@@ -60,66 +224,182 @@ apiRouter.get('/', (req, res) => {
 // --- API ENDPOINTS ---
 // All routes are now attached to apiRouter and can safely assume `pool` is available
 
-// User Login
+// User Login - issues a session cookie on success
+// Failed attempts are throttled per account and per IP; blocked callers get a 429 with `retryAfterSeconds`.
 apiRouter.post('/auth/login', async (req, res) => {
     const { email, password } = req.body;
     try {
-        const result = await pool.query('SELECT * FROM users WHERE email = $1 AND password = $2', [email, password]);
-        if (result.rows.length > 0) {
-            const { password: _, ...user } = result.rows[0];
-            res.json(user);
+        const block = await getLoginBlock(pool, email, req.ip);
+        if (block) {
+            res.setHeader('Retry-After', String(block.retryAfterSeconds));
+            return res.status(429).json({
+                message: block.scope === 'ip'
+                    ? 'Too many failed login attempts from this network. Please wait before trying again.'
+                    : 'Too many failed login attempts for this account. Please wait before trying again.',
+                retryAfterSeconds: block.retryAfterSeconds,
+            });
+        }
+
+        const result = await pool.query('SELECT * FROM users WHERE email = $1', [email]);
+        const storedUser = result.rows[0];
+        const isPasswordCorrect = await verifyPassword(password, storedUser ? storedUser.password : UNKNOWN_USER_PASSWORD_HASH);
+        if (storedUser && isPasswordCorrect) {
+            const { password: storedPassword, ...userRow } = storedUser;
+            const user = withPermissions(userRow);
+            await clearAccountFailures(pool, email);
+
+            // Legacy rows still hold the plaintext password: replace it with a hash now that we know it.
+            if (!isPasswordHash(storedPassword)) {
+                await pool.query('UPDATE users SET password = $1 WHERE email = $2', [await hashPassword(password), user.email]);
+            }
+
+            // Housekeeping: drop expired and idle sessions so the table doesn't grow unbounded.
+            await pool.query(
+                `DELETE FROM sessions WHERE "expiresAt" <= NOW() OR "lastSeenAt" <= NOW() - ($1 * INTERVAL '1 millisecond')`,
+                [SESSION_IDLE_TIMEOUT_MS]
+            );
+
+            const sessionId = generateSessionId();
+            await pool.query(
+                'INSERT INTO sessions (id, "userEmail", "expiresAt") VALUES ($1, $2, $3)',
+                [sessionId, user.email, new Date(Date.now() + SESSION_TTL_MS)]
+            );
+            setSessionCookie(res, sessionId);
+            res.json({ user, idleTimeoutSeconds: SESSION_IDLE_TIMEOUT_MS / 1000 });
         } else {
-            res.status(401).json({ message: 'Invalid credentials' });
+            const { retryAfterSeconds, attemptsRemaining } = await recordLoginFailure(pool, email, req.ip);
+            res.status(401).json({ message: 'Invalid credentials', retryAfterSeconds, attemptsRemaining });
         }
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
 });
 
+// Logout - invalidates the session server-side. Works with an already expired session too.
+apiRouter.post('/auth/logout', async (req, res) => {
+    const sessionId = verifySessionToken(readSessionToken(req));
+    try {
+        if (sessionId) {
+            await pool.query('DELETE FROM sessions WHERE id = $1', [sessionId]);
+        }
+        clearSessionCookie(res);
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Every route registered below this point requires a valid session.
+apiRouter.use(authenticate);
+apiRouter.use(requireOwnPassword);
+
+// Purge expired trash at most once an hour per instance, without holding up the request.
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+let lastTrashPurgeAt = 0;
+apiRouter.use((req, res, next) => {
+    if (Date.now() - lastTrashPurgeAt > TRASH_PURGE_INTERVAL_MS) {
+        lastTrashPurgeAt = Date.now();
+        withTransaction(client => purgeExpiredTrash(client))
+            .catch(err => console.error('Automatic trash purge failed:', err));
+    }
+    next();
+});
+
+// Current session - lets the client restore a login after a page reload. Also serves as a keep-alive.
+apiRouter.get('/auth/me', (req, res) => {
+    res.json({ user: req.user, idleTimeoutSeconds: SESSION_IDLE_TIMEOUT_MS / 1000 });
+});
+
 // Get all users
-apiRouter.get('/users', async (req, res) => {
+apiRouter.get('/users', requirePermission('users:manage'), async (req, res) => {
     try {
-        const result = await pool.query('SELECT email, "isAdmin" FROM users');
-        res.json(result.rows);
+        const result = await pool.query(`SELECT ${PUBLIC_USER_COLUMNS} FROM users ORDER BY email`);
+        res.json(result.rows.map(user => ({ ...user, role: roleOf(user) })));
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
 });
 
 // Add a new user (with automatic password generation)
-apiRouter.post('/users', async (req, res) => {
-    let { email, password, isAdmin } = req.body;
+apiRouter.post('/users', requirePermission('users:manage'), async (req, res) => {
+    let { email, password, isAdmin, role } = req.body;
+    role = role || (isAdmin ? 'admin' : 'intern');
+    if (!isValidRole(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${ROLES.join(', ')}.` });
+    }
     
-    if (!password) {
+    const isGeneratedPassword = !password;
+    if (isGeneratedPassword) {
         password = generateRandomPassword();
+    } else {
+        const policyError = checkPasswordPolicy(password, email);
+        if (policyError) return res.status(400).json({ message: policyError });
     }
 
     try {
-        const result = await pool.query('INSERT INTO users (email, password, "isAdmin") VALUES ($1, $2, $3) RETURNING *', [email, password, isAdmin]);
-        res.status(201).json(result.rows[0]);
+        const passwordHash = await hashPassword(password);
+        // Whoever created the account knows its password, so the new user must replace it on first login.
+        const result = await pool.query(
+            `INSERT INTO users (email, password, "isAdmin", role, "mustChangePassword") VALUES ($1, $2, $3, $4, TRUE) RETURNING ${PUBLIC_USER_COLUMNS}`,
+            [email, passwordHash, role === 'admin', role]
+        );
+        // The generated password is returned exactly once, so the admin can hand it to the new user.
+        res.status(201).json(isGeneratedPassword ? { ...result.rows[0], password } : result.rows[0]);
     } catch (err) {
         if (err.code === '23505') return res.status(409).json({ message: 'A user with this email already exists.' });
         res.status(500).json({ message: err.message });
     }
 });
 
+// List accounts currently locked out after too many failed logins
+// Registered before the parameterized '/users/:...' routes, like change-password below.
+apiRouter.get('/users/lockouts', requirePermission('users:manage'), async (req, res) => {
+    try {
+        res.json(await listLockedAccounts(pool));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Clear an account's failed-login counter, lifting any lockout
+apiRouter.delete('/users/lockouts/:email', requirePermission('users:manage'), async (req, res) => {
+    try {
+        await clearAccountFailures(pool, req.params.email);
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
 // Change own password (by user) - MOVED UP
 // This specific route must come BEFORE the parameterized route '/users/:originalEmail'
 apiRouter.put('/users/change-password', async (req, res) => {
-    const { email, currentPassword, newPassword } = req.body;
+    const { currentPassword, newPassword } = req.body;
+    const { email } = req.user; // Users can only ever change their own password
+
+    if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: 'Current password and new password are required.' });
+    }
 
-    if (!email || !currentPassword || !newPassword) {
-        return res.status(400).json({ message: 'Email, current password, and new password are required.' });
+    const policyError = checkPasswordPolicy(newPassword, email);
+    if (policyError) {
+        return res.status(400).json({ message: policyError });
     }
 
     try {
-        const verifyResult = await pool.query('SELECT id FROM users WHERE email = $1 AND password = $2', [email, currentPassword]);
+        const verifyResult = await pool.query('SELECT password FROM users WHERE email = $1', [email]);
         
-        if (verifyResult.rows.length === 0) {
-            return res.status(401).json({ message: 'Incorrect current password.' });
+        if (verifyResult.rows.length === 0 || !(await verifyPassword(currentPassword, verifyResult.rows[0].password))) {
+            return res.status(400).json({ message: 'Incorrect current password.' });
         }
 
-        await pool.query('UPDATE users SET password = $1 WHERE email = $2', [newPassword, email]);
+        if (await verifyPassword(newPassword, verifyResult.rows[0].password)) {
+            return res.status(400).json({ message: 'New password must be different from your current password.' });
+        }
+
+        await pool.query('UPDATE users SET password = $1, "mustChangePassword" = FALSE WHERE email = $2', [await hashPassword(newPassword), email]);
+        // Sign out any other sessions that may have been opened with the old password.
+        await pool.query('DELETE FROM sessions WHERE "userEmail" = $1 AND id <> $2', [email, req.sessionId]);
         
         res.status(200).json({ message: 'Password updated successfully.' });
     } catch (err) {
@@ -128,17 +408,69 @@ apiRouter.put('/users/change-password', async (req, res) => {
     }
 });
 
+// Reset a user's password to a fresh temporary one (by admin)
+// The generated password is returned once, and the user must change it at their next login.
+apiRouter.post('/users/:email/reset-password', requirePermission('users:manage'), async (req, res) => {
+    const { email } = req.params;
+    const password = generateRandomPassword();
+    try {
+        const result = await pool.query(
+            `UPDATE users SET password = $1, "mustChangePassword" = TRUE WHERE email = $2 RETURNING ${PUBLIC_USER_COLUMNS}`,
+            [await hashPassword(password), email]
+        );
+        if (result.rows.length === 0) {
+            return res.status(404).json({ message: 'User not found.' });
+        }
+        await pool.query('DELETE FROM sessions WHERE "userEmail" = $1', [email]);
+        await clearAccountFailures(pool, email);
+        res.json({ ...result.rows[0], password });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Change a user's role (by admin)
+apiRouter.put('/users/:email/role', requirePermission('users:manage'), async (req, res) => {
+    const { email } = req.params;
+    const { role } = req.body;
+    if (!isValidRole(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${ROLES.join(', ')}.` });
+    }
+    if (email === req.user.email && role !== 'admin') {
+        return res.status(400).json({ message: 'You cannot remove your own admin role.' });
+    }
+    try {
+        const result = await pool.query(
+            `UPDATE users SET role = $1, "isAdmin" = $2 WHERE email = $3 RETURNING ${PUBLIC_USER_COLUMNS}`,
+            [role, role === 'admin', email]
+        );
+        if (result.rows.length === 0) {
+            return res.status(404).json({ message: 'User not found.' });
+        }
+        res.json(result.rows[0]);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
 // Update a user (by admin)
-apiRouter.put('/users/:originalEmail', async (req, res) => {
+apiRouter.put('/users/:originalEmail', requirePermission('users:manage'), async (req, res) => {
     const { originalEmail } = req.params;
     const { email, password } = req.body;
+    if (password) {
+        const policyError = checkPasswordPolicy(password, email);
+        if (policyError) return res.status(400).json({ message: policyError });
+    }
     try {
         let result;
         if (password) {
-            result = await pool.query('UPDATE users SET email = $1, password = $2 WHERE email = $3 RETURNING email, "isAdmin"', [email, password, originalEmail]);
+            // An admin-chosen password is treated like a temporary one.
+            result = await pool.query(`UPDATE users SET email = $1, password = $2, "mustChangePassword" = TRUE WHERE email = $3 RETURNING ${PUBLIC_USER_COLUMNS}`, [email, await hashPassword(password), originalEmail]);
         } else {
-            result = await pool.query('UPDATE users SET email = $1 WHERE email = $2 RETURNING email, "isAdmin"', [email, originalEmail]);
+            result = await pool.query(`UPDATE users SET email = $1 WHERE email = $2 RETURNING ${PUBLIC_USER_COLUMNS}`, [email, originalEmail]);
         }
+        // Changed credentials: sign the user out everywhere.
+        await pool.query('DELETE FROM sessions WHERE "userEmail" = $1', [originalEmail]);
         res.json(result.rows[0]);
     } catch (err) {
         if (err.code === '23505') return res.status(409).json({ message: 'The new email address is already in use.' });
@@ -148,7 +480,7 @@ apiRouter.put('/users/:originalEmail', async (req, res) => {
 
 
 // Delete a user, ensuring their speaker data is preserved
-apiRouter.delete('/users/:email', async (req, res) => {
+apiRouter.delete('/users/:email', requirePermission('users:manage'), async (req, res) => {
     const { email } = req.params;
     const client = await pool.connect(); // Use a client for transaction
     try {
@@ -159,8 +491,9 @@ apiRouter.delete('/users/:email', async (req, res) => {
         // This is the key step to preserving the data.
         await client.query('UPDATE speakers SET "createdBy" = NULL WHERE "createdBy" = $1', [email]);
 
-        // Step 2: Now that speaker data is safe, delete the user.
+        // Step 2: Now that speaker data is safe, delete the user and end their sessions.
         await client.query('DELETE FROM users WHERE email = $1', [email]);
+        await client.query('DELETE FROM sessions WHERE "userEmail" = $1', [email]);
         
         await client.query('COMMIT'); // Finalize the transaction
         res.status(204).send();
@@ -174,9 +507,9 @@ apiRouter.delete('/users/:email', async (req, res) => {
 });
 
 // Get all speaker data
-apiRouter.get('/speakers', async (req, res) => {
+apiRouter.get('/speakers', requirePermission('speakers:readAll'), async (req, res) => {
     try {
-        const result = await pool.query('SELECT * FROM speakers');
+        const result = await pool.query('SELECT * FROM speakers WHERE "deletedAt" IS NULL');
         res.json(result.rows);
     } catch (err) {
         res.status(500).json({ message: err.message });
@@ -185,66 +518,91 @@ apiRouter.get('/speakers', async (req, res) => {
 
 // Get speaker data for a specific user
 apiRouter.get('/speakers/user/:email', async (req, res) => {
+    if (!canReadSpeakersOf(req.user, req.params.email)) {
+        return res.status(403).json({ message: 'You can only view speaker entries that you created.' });
+    }
     try {
-        const result = await pool.query('SELECT * FROM speakers WHERE "createdBy" = $1', [req.params.email]);
+        const result = await pool.query('SELECT * FROM speakers WHERE "createdBy" = $1 AND "deletedAt" IS NULL', [req.params.email]);
         res.json(result.rows);
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
 });
 
-// Add new speaker data
-apiRouter.post('/speakers', async (req, res) => {
-    const s = req.body;
+// A new speaker from what `user` entered: created under their name unless their role may assign it to someone
+// else, with its computed fields. The email is checked here, before the insert, so no row is locked during
+// the lookup (see emailVerification.js). `titleFlagOverrides` apply when the body sets none.
+const newSpeakerFrom = async (user, body, { titleFlagOverrides = null } = {}) => {
+    const entered = normalizeSpeaker(hasPermission(user, 'speakers:assignOwner') ? { createdBy: user.email, ...body } : { ...body, createdBy: user.email });
+    const emailCheck = { email: entered.businessEmail, ...await verifyEmail(entered.businessEmail) };
+    return withComputedFields(entered, null, {
+        titleRules: await listTitleRules(pool),
+        emailCheck,
+        titleFlagOverrides: readTitleFlagOverrides(body.titleFlagOverrides) ?? titleFlagOverrides,
+    });
+};
+
+// Inserts a speaker from newSpeakerFrom and records its creation. Returns the stored row.
+const insertSpeaker = async (client, s, actor) => {
     const newId = `speaker-${Date.now()}-${Math.random()}`;
     const query = `
-        INSERT INTO speakers (id, "createdBy", "firstName", "lastName", "title", "company", "businessEmail", "country", "website", "fullName", "isEmailValid", "isLinkedInValid", "isWebsiteValid", "extractedRole", "isCeo", "isSpeaker", "isAuthor", "industry", "personLinkedinUrl", "stage", "phoneNumber", "employees", "location", "city", "state", "companyAddress", "companyCity", "companyState", "companyCountry", "companyPhone", "secondaryEmail", "speakingTopic", "speakingLink")
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33)
+        INSERT INTO speakers (id, "createdBy", "firstName", "lastName", "title", "company", "businessEmail", "country", "website", "fullName", "isEmailValid", "isLinkedInValid", "isWebsiteValid", "extractedRole", "isCeo", "isSpeaker", "isAuthor", "industry", "personLinkedinUrl", "stage", "phoneNumber", "employees", "location", "city", "state", "companyAddress", "companyCity", "companyState", "companyCountry", "companyPhone", "secondaryEmail", "speakingTopic", "speakingLink", "countryCode", "companyCountryCode", "rawValues", "emailCheckReason", "emailCheckedAt", "linkedinCheckReason", "websiteCheckReason", "urlsCheckedAt", "seniority", "parsedFields", "titleFlagOverrides")
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35, $36, $37, $38, $39, $40, $41, $42, $43, $44)
         RETURNING *;
     `;
-    const values = [newId, s.createdBy, s.firstName, s.lastName, s.title, s.company, s.businessEmail, s.country, s.website, s.fullName, s.isEmailValid, s.isLinkedInValid, s.isWebsiteValid, s.extractedRole, s.isCeo, s.isSpeaker, s.isAuthor, s.industry, s.personLinkedinUrl, s.stage, s.phoneNumber, s.employees, s.location, s.city, s.state, s.companyAddress, s.companyCity, s.companyState, s.companyCountry, s.companyPhone, s.secondaryEmail, s.speakingTopic, s.speakingLink];
+    const values = [newId, s.createdBy, s.firstName, s.lastName, s.title, s.company, s.businessEmail, s.country, s.website, s.fullName, s.isEmailValid, s.isLinkedInValid, s.isWebsiteValid, s.extractedRole, s.isCeo, s.isSpeaker, s.isAuthor, s.industry, s.personLinkedinUrl, s.stage, s.phoneNumber, s.employees, s.location, s.city, s.state, s.companyAddress, s.companyCity, s.companyState, s.companyCountry, s.companyPhone, s.secondaryEmail, s.speakingTopic, s.speakingLink, countryCodeOf(s.country), countryCodeOf(s.companyCountry), s.rawValues, s.emailCheckReason, s.emailCheckedAt, s.linkedinCheckReason, s.websiteCheckReason, s.urlsCheckedAt, s.seniority, s.parsedFields, s.titleFlagOverrides];
+    const result = await client.query(query, values);
+    await recordSpeakerChange(client, { speakerId: newId, action: 'create', actor, after: result.rows[0] });
+    return result.rows[0];
+};
+
+// Add new speaker data
+apiRouter.post('/speakers', requirePermission('speakers:create'), async (req, res) => {
     try {
-        const result = await pool.query(query, values);
-        res.status(201).json(result.rows[0]);
+        const s = await newSpeakerFrom(req.user, req.body);
+        const created = await withTransaction(client => insertSpeaker(client, s, req.user.email));
+        res.status(201).json(created);
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
 });
 
 // Update speaker data - REWRITTEN FOR ROBUSTNESS
-apiRouter.put('/speakers/:id', async (req, res) => {
+// The client sends back the `version` it loaded; if the row has been saved since, nothing is
+// written and the current row is returned with a 409 so the user can resolve the conflict.
+apiRouter.put('/speakers/:id', requireSpeakerAccess('edit'), async (req, res) => {
     const { id } = req.params;
-    const s = req.body;
-    // This is a fully explicit query to prevent any dynamic logic errors.
-    // It updates all fields based on the request body.
-    const query = `
-        UPDATE speakers SET
-            "firstName"=$1, "lastName"=$2, "title"=$3, "company"=$4, "businessEmail"=$5,
-            "country"=$6, "website"=$7, "fullName"=$8, "isEmailValid"=$9, "isLinkedInValid"=$10,
-            "isWebsiteValid"=$11, "extractedRole"=$12, "isCeo"=$13, "isSpeaker"=$14,
-            "isAuthor"=$15, "industry"=$16, "personLinkedinUrl"=$17, "stage"=$18,
-            "phoneNumber"=$19, "employees"=$20, "location"=$21, "city"=$22, "state"=$23,
-            "companyAddress"=$24, "companyCity"=$25, "companyState"=$26, "companyCountry"=$27,
-            "companyPhone"=$28, "secondaryEmail"=$29, "speakingTopic"=$30, "speakingLink"=$31
-        WHERE id=$32
-        RETURNING *;
-    `;
-    const values = [
-        s.firstName, s.lastName, s.title, s.company, s.businessEmail,
-        s.country, s.website, s.fullName, s.isEmailValid, s.isLinkedInValid,
-        s.isWebsiteValid, s.extractedRole, s.isCeo, s.isSpeaker,
-        s.isAuthor, s.industry, s.personLinkedinUrl, s.stage,
-        s.phoneNumber, s.employees, s.location, s.city, s.state,
-        s.companyAddress, s.companyCity, s.companyState, s.companyCountry,
-        s.companyPhone, s.secondaryEmail, s.speakingTopic, s.speakingLink,
-        id
-    ];
-    try {
-        const result = await pool.query(query, values);
-        if (result.rows.length === 0) {
+    const { version } = req.body;
+    if (!Number.isInteger(version)) {
+        return res.status(400).json({ message: 'The record version is missing. Reload the page and try again.' });
+    }
+    try {
+        // A new email is checked before the transaction, so no row is locked during the lookup
+        const email = normalizeEmail(req.body.businessEmail);
+        const emailCheck = email !== req.speaker.businessEmail ? { email, ...await verifyEmail(email) } : null;
+        const reviewedParses = Array.isArray(req.body.reviewedParsedFields) ? req.body.reviewedParsedFields.filter(field => typeof field === 'string') : [];
+        const titleFlagOverrides = readTitleFlagOverrides(req.body.titleFlagOverrides);
+        let current = null;
+        const updated = await withTransaction(async (client) => {
+            // Re-read under a row lock so the recorded "before" values are exactly what we overwrite.
+            const before = (await client.query('SELECT * FROM speakers WHERE id = $1 FOR UPDATE', [id])).rows[0];
+            if (!before) return null;
+            if (before.version !== version) {
+                current = before;
+                return null;
+            }
+            const values = withComputedFields(normalizeSpeaker(req.body, before), before, { titleRules: await listTitleRules(client), emailCheck, reviewedParses, titleFlagOverrides });
+            const after = await updateSpeakerRow(client, id, values);
+            await recordSpeakerChange(client, { speakerId: id, action: 'update', actor: req.user.email, before, after });
+            return after;
+        });
+        if (current) {
+            return res.status(409).json({ message: 'This entry was changed by someone else while you were editing it.', current });
+        }
+        if (!updated) {
             return res.status(404).json({ message: 'Speaker not found.' });
         }
-        res.json(result.rows[0]);
+        res.json(updated);
     } catch (err) {
         console.error('Update speaker error:', err);
         res.status(500).json({ message: 'An error occurred while updating speaker data.' });
@@ -252,25 +610,132 @@ apiRouter.put('/speakers/:id', async (req, res) => {
 });
 
 
-// Delete speaker data
-apiRouter.delete('/speakers/:id', async (req, res) => {
+// Delete speaker data - moves it to the trash (see trash.js)
+apiRouter.delete('/speakers/:id', requireSpeakerAccess('delete'), async (req, res) => {
     try {
-        await pool.query('DELETE FROM speakers WHERE id = $1', [req.params.id]);
+        await withTransaction(async (client) => {
+            const result = await client.query(
+                'UPDATE speakers SET "deletedAt" = NOW(), "deletedBy" = $2 WHERE id = $1 AND "deletedAt" IS NULL RETURNING *',
+                [req.params.id, req.user.email]
+            );
+            if (result.rows.length > 0) {
+                await recordSpeakerChange(client, { speakerId: req.params.id, action: 'delete', actor: req.user.email, before: result.rows[0] });
+            }
+        });
         res.status(204).send();
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
 });
 
+// List trashed speakers, with the time each will be purged automatically
+apiRouter.get('/speakers/trash', requirePermission('speakers:manageTrash'), async (req, res) => {
+    try {
+        await withTransaction(client => purgeExpiredTrash(client));
+        res.json({ retentionDays: TRASH_RETENTION_DAYS, speakers: await listTrashedSpeakers(pool) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Restore a trashed speaker
+apiRouter.post('/speakers/:id/restore', requirePermission('speakers:manageTrash'), async (req, res) => {
+    try {
+        const restored = await withTransaction(async (client) => {
+            const result = await client.query(
+                'UPDATE speakers SET "deletedAt" = NULL, "deletedBy" = NULL WHERE id = $1 AND "deletedAt" IS NOT NULL RETURNING *',
+                [req.params.id]
+            );
+            if (result.rows.length === 0) return null;
+            await recordSpeakerChange(client, { speakerId: req.params.id, action: 'restore', actor: req.user.email, after: result.rows[0] });
+            return result.rows[0];
+        });
+        if (!restored) {
+            return res.status(404).json({ message: 'Speaker not found in the trash.' });
+        }
+        res.json(restored);
+    } catch (err) {
+        if (err.code === '23505') return res.status(409).json({ message: 'Another active speaker already uses this business email. Change or delete it before restoring.' });
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Permanently delete a trashed speaker. Its history is kept.
+apiRouter.delete('/speakers/:id/purge', requirePermission('speakers:manageTrash'), async (req, res) => {
+    try {
+        const purged = await withTransaction(async (client) => {
+            const result = await client.query('DELETE FROM speakers WHERE id = $1 AND "deletedAt" IS NOT NULL RETURNING *', [req.params.id]);
+            if (result.rows.length === 0) return false;
+            await recordSpeakerChange(client, { speakerId: req.params.id, action: 'purge', actor: req.user.email, before: result.rows[0] });
+            return true;
+        });
+        if (!purged) {
+            return res.status(404).json({ message: 'Speaker not found in the trash.' });
+        }
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Get the change history of a speaker, newest first. Still available after the speaker is deleted.
+apiRouter.get('/speakers/:id/history', async (req, res) => {
+    try {
+        const speaker = (await pool.query('SELECT "createdBy" FROM speakers WHERE id = $1', [req.params.id])).rows[0];
+        const allowed = speaker ? canReadSpeakersOf(req.user, speaker.createdBy) : hasPermission(req.user, 'speakers:readAll');
+        if (!allowed) {
+            return res.status(403).json({ message: 'You can only view the history of speaker entries that you created.' });
+        }
+        res.json(await getSpeakerHistory(pool, req.params.id));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Revert a speaker to an earlier version: either one field (to its value before the given change)
+// or the whole record (to its state right after the given change). The revert is itself recorded.
+apiRouter.post('/speakers/:id/revert', requireSpeakerAccess('edit'), async (req, res) => {
+    const { id } = req.params;
+    const { field } = req.body;
+    const historyId = Number(req.body.historyId);
+    if (!Number.isInteger(historyId) || historyId <= 0) {
+        return res.status(400).json({ message: 'No history entry selected.' });
+    }
+    if (field && (!SPEAKER_FIELDS.includes(field) || COMPUTED_SPEAKER_FIELDS.includes(field))) {
+        return res.status(400).json({ message: `The field "${field}" cannot be reverted.` });
+    }
+    try {
+        const entryResult = await pool.query('SELECT * FROM speaker_history WHERE id = $1 AND "speakerId" = $2', [historyId, id]);
+        if (entryResult.rows.length === 0) {
+            return res.status(404).json({ message: 'History entry not found.' });
+        }
+        const updated = await withTransaction(async (client) => {
+            const before = (await client.query('SELECT * FROM speakers WHERE id = $1 FOR UPDATE', [id])).rows[0];
+            const reverted = buildRevertedSpeaker(before, entryResult.rows[0], field);
+            if (!reverted) return null;
+            const after = await updateSpeakerRow(client, id, withComputedFields(reverted, before, { titleRules: await listTitleRules(client) }));
+            await recordSpeakerChange(client, { speakerId: id, action: 'revert', actor: req.user.email, before, after });
+            return after;
+        });
+        if (!updated) {
+            return res.status(400).json({ message: 'That change cannot be reverted.' });
+        }
+        res.json(updated);
+    } catch (err) {
+        console.error('Revert speaker error:', err);
+        res.status(500).json({ message: 'An error occurred while reverting speaker data.' });
+    }
+});
+
 // Check if business email is in use
 apiRouter.get('/speakers/email-check/:email', async (req, res) => {
     const { exclude } = req.query; // speakerIdToExclude
     try {
         let result;
         if (exclude) {
-            result = await pool.query('SELECT 1 FROM speakers WHERE "businessEmail" = $1 AND id != $2', [req.params.email, exclude]);
+            result = await pool.query('SELECT 1 FROM speakers WHERE LOWER("businessEmail") = $1 AND id != $2 AND "deletedAt" IS NULL AND "businessEmail" <> \'\'', [normalizeEmail(req.params.email), exclude]);
         } else {
-            result = await pool.query('SELECT 1 FROM speakers WHERE "businessEmail" = $1', [req.params.email]);
+            result = await pool.query('SELECT 1 FROM speakers WHERE LOWER("businessEmail") = $1 AND "deletedAt" IS NULL AND "businessEmail" <> \'\'', [normalizeEmail(req.params.email)]);
         }
         res.json({ inUse: result.rows.length > 0 });
     } catch (err) {
@@ -278,79 +743,649 @@ apiRouter.get('/speakers/email-check/:email', async (req, res) => {
     }
 });
 
-// Bulk add speakers - REFACTORED for performance and reliability
-apiRouter.post('/speakers/bulk', async (req, res) => {
-    const speakers = req.body;
-    if (!speakers || !Array.isArray(speakers) || speakers.length === 0) {
-        return res.status(400).json({ message: 'No speaker data provided.' });
+// Re-check the business emails of the given speakers (see emailVerification.js). At most MAX_SPEAKERS_PER_RUN
+// per request; the client sends larger selections in several requests. Returns the updated speakers.
+apiRouter.post('/speakers/verify-emails', requirePermission('speakers:verifyEmails'), async (req, res) => {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+        return res.status(400).json({ message: 'No speakers selected.' });
     }
+    if (ids.length > MAX_SPEAKERS_PER_RUN) {
+        return res.status(400).json({ message: `At most ${MAX_SPEAKERS_PER_RUN} speakers can be verified per request.` });
+    }
+    try {
+        const checks = await checkSpeakerEmails(pool, ids);
+        res.json(await withTransaction(client => storeEmailChecks(client, checks, req.user.email)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
 
-    // De-duplicate the incoming array based on businessEmail, keeping the first occurrence.
-    const seenEmails = new Set();
-    const uniqueSpeakers = speakers.filter(s => {
-        if (!s.businessEmail) return false;
-        const lowerCaseEmail = s.businessEmail.toLowerCase();
-        const duplicate = seenEmails.has(lowerCaseEmail);
-        seenEmails.add(lowerCaseEmail);
-        return !duplicate;
-    });
-
-    if (uniqueSpeakers.length === 0) {
-        return res.json({ importedCount: 0, skippedCount: speakers.length });
+// Re-check the LinkedIn URLs and websites of the given speakers (see urlVerification.js), requesting each
+// website when `probe` is set. At most MAX_URL_CHECKS_PER_RUN per request, since probing is slow.
+// Returns the updated speakers.
+apiRouter.post('/speakers/verify-urls', requirePermission('speakers:verifyUrls'), async (req, res) => {
+    const { ids, probe } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+        return res.status(400).json({ message: 'No speakers selected.' });
+    }
+    if (ids.length > MAX_URL_CHECKS_PER_RUN) {
+        return res.status(400).json({ message: `At most ${MAX_URL_CHECKS_PER_RUN} speakers can be verified per request.` });
     }
-    
-    const client = await pool.connect();
     try {
-        await client.query('BEGIN'); // Start transaction
-
-        let totalImportedCount = 0;
-        const batchSize = 200; // Process 200 records at a time to avoid parameter limit
-
-        for (let i = 0; i < uniqueSpeakers.length; i += batchSize) {
-            const batch = uniqueSpeakers.slice(i, i + batchSize);
-            
-            const valuesClause = [];
-            const queryParams = [];
-            let paramIndex = 1;
-
-            batch.forEach(s => {
-                const newId = `speaker-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-                const rowParams = [
-                    newId, s.createdBy, s.firstName, s.lastName, s.title, s.company, s.businessEmail, s.country, s.website, s.fullName, s.isEmailValid, s.isLinkedInValid, s.isWebsiteValid, s.extractedRole, s.isCeo, s.isSpeaker, s.isAuthor, s.industry, s.personLinkedinUrl, s.stage, s.phoneNumber, s.employees, s.location, s.city, s.state, s.companyAddress, s.companyCity, s.companyState, s.companyCountry, s.companyPhone, s.secondaryEmail, s.speakingTopic, s.speakingLink
-                ];
-                
-                const paramPlaceholders = rowParams.map(() => `$${paramIndex++}`);
-                valuesClause.push(`(${paramPlaceholders.join(', ')})`);
-                queryParams.push(...rowParams);
-            });
+        const checks = await checkSpeakerUrls(pool, ids, { probe: probe === true });
+        res.json(await withTransaction(client => storeUrlChecks(client, checks, req.user.email)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
 
-            const query = `
-                INSERT INTO speakers (id, "createdBy", "firstName", "lastName", "title", "company", "businessEmail", "country", "website", "fullName", "isEmailValid", "isLinkedInValid", "isWebsiteValid", "extractedRole", "isCeo", "isSpeaker", "isAuthor", "industry", "personLinkedinUrl", "stage", "phoneNumber", "employees", "location", "city", "state", "companyAddress", "companyCity", "companyState", "companyCountry", "companyPhone", "secondaryEmail", "speakingTopic", "speakingLink")
-                VALUES ${valuesClause.join(', ')}
-                ON CONFLICT ("businessEmail") DO NOTHING
-                RETURNING id;
-            `;
-            
-            const result = await client.query(query, queryParams);
-            totalImportedCount += result.rowCount;
-        }
-        
-        await client.query('COMMIT'); // Commit the transaction
-        
-        const skippedCount = speakers.length - totalImportedCount;
+// Existing speakers that look like the one being entered, for the add-speaker form (see speakerMatches.js).
+// Callers who may not read every speaker still see who entered someone else's match, but only its name and company.
+const MATCH_SUMMARY_FIELDS = ['id', 'fullName', 'firstName', 'lastName', 'title', 'company', 'businessEmail', 'personLinkedinUrl', 'website', 'createdBy'];
+const OTHERS_MATCH_SUMMARY_FIELDS = ['id', 'fullName', 'firstName', 'lastName', 'company', 'createdBy'];
+
+apiRouter.get('/speakers/matches', requirePermission('speakers:create'), async (req, res) => {
+    const { fullName, firstName, lastName, company, personLinkedinUrl, website, exclude } = req.query;
+    try {
+        const matches = await findSpeakerMatches(pool, { fullName, firstName, lastName, company, personLinkedinUrl, website }, { excludeId: exclude || null });
+        const canReadAll = hasPermission(req.user, 'speakers:readAll');
+        res.json(matches.map(({ speaker, score, reasons }) => ({
+            ...Object.fromEntries((canReadAll || speaker.createdBy === req.user.email ? MATCH_SUMMARY_FIELDS : OTHERS_MATCH_SUMMARY_FIELDS).map(field => [field, speaker[field]])),
+            score,
+            reasons,
+            canEdit: canModifySpeaker(req.user, speaker, 'edit'),
+        })));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
 
-        res.json({ importedCount: totalImportedCount, skippedCount });
+// Same rule as single creates: only roles that may assign owners can import rows on behalf of someone else.
+const withImportOwner = (req, speakers) => {
+    const canAssignOwner = hasPermission(req.user, 'speakers:assignOwner');
+    return speakers.map(s => canAssignOwner ? { ...s, createdBy: s.createdBy || req.user.email } : { ...s, createdBy: req.user.email });
+};
 
+// Reads `{ speakers, mode }` (or, from older clients, a bare array imported in `skip` mode) for the
+// bulk import and its preview. Returns { error } for a bad request.
+const readBulkImport = (req) => {
+    const { speakers, mode = 'skip', fileName = null } = Array.isArray(req.body) ? { speakers: req.body } : (req.body || {});
+    if (!Array.isArray(speakers) || speakers.length === 0) return { error: 'No speaker data provided.' };
+    if (!IMPORT_MODES.includes(mode)) return { error: `Unknown import mode "${mode}".` };
+    return { speakers: withImportOwner(req, speakers), options: { mode, user: req.user }, fileName: typeof fileName === 'string' ? fileName : null };
+};
+
+// Preview a bulk import: what would happen to each row, without writing anything
+apiRouter.post('/speakers/bulk/preview', requirePermission('speakers:create'), async (req, res) => {
+    const { speakers, options, error } = readBulkImport(req);
+    if (error) {
+        return res.status(400).json({ message: error });
+    }
+    try {
+        res.json({ rows: await classifyImportRows(pool, speakers, options) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Bulk add or merge speakers (see bulkImport.js), recorded as one import batch. The response carries
+// the batch id and lists every row that was not imported, and why.
+apiRouter.post('/speakers/bulk', requirePermission('speakers:create'), async (req, res) => {
+    const { speakers, options, fileName, error } = readBulkImport(req);
+    if (error) {
+        return res.status(400).json({ message: error });
+    }
+    try {
+        res.json(await withTransaction(client => importAsBatch(client, { ...options, fileName, source: 'bulk', speakers })));
     } catch (err) {
-        await client.query('ROLLBACK'); // Rollback on any error
         console.error('Bulk import transaction failed:', {
             message: err.message,
             code: err.code,
             detail: err.detail,
         });
         res.status(500).json({ message: 'An error occurred during the import. The operation was rolled back.' });
-    } finally {
-        client.release();
+    }
+});
+
+// Import a raw CSV file, parsed here with the standard ingestion rules (see speakerIngestion.js).
+// Accepts JSON `{ csvContent, createdBy, mode, fileName }`, or the file itself as a text/csv body with
+// the other values in the query string, so scripts can push files as they are. Recorded as one import batch.
+// `createdBy` owns rows without a "Created By" column; it defaults to the caller.
+apiRouter.post('/speakers/upload-csv', requirePermission('speakers:create'), express.text({ type: 'text/csv', limit: '10mb' }), async (req, res) => {
+    const isRawCsv = typeof req.body === 'string';
+    const { csvContent, createdBy, mode = 'skip', fileName } = isRawCsv ? { ...req.query, csvContent: req.body } : (req.body || {});
+    if (typeof csvContent !== 'string' || !csvContent.trim()) {
+        return res.status(400).json({ message: 'No CSV content provided.' });
+    }
+    if (!IMPORT_MODES.includes(mode)) {
+        return res.status(400).json({ message: `Unknown import mode "${mode}".` });
+    }
+    const { mapping, speakers } = parseSpeakerCsv(csvContent, typeof createdBy === 'string' && createdBy ? createdBy : req.user.email);
+    if (speakers.length === 0) {
+        return res.status(400).json({ message: 'The CSV file appears to be empty or has no data.' });
+    }
+    if (!Object.values(mapping).includes('businessEmail')) {
+        return res.status(400).json({ message: 'The CSV file has no "Business Email" column.' });
+    }
+    try {
+        res.json(await withTransaction(client => importAsBatch(client, {
+            user: req.user,
+            mode,
+            fileName: typeof fileName === 'string' && fileName ? fileName : null,
+            source: 'csv',
+            speakers: withImportOwner(req, speakers),
+        })));
+    } catch (err) {
+        console.error('CSV upload transaction failed:', {
+            message: err.message,
+            code: err.code,
+            detail: err.detail,
+        });
+        res.status(500).json({ message: 'An error occurred during the import. The operation was rolled back.' });
+    }
+});
+
+// --- IMPORT SESSION ENDPOINTS ---
+// Chunked, resumable imports of large files (see importSessions.js). Only the uploader can send data to a
+// session. Every finished import is also listed here as an import batch (see importBatches.js).
+
+const canSeeImport = (user, session) => !!session && (session.createdBy === user.email || hasPermission(user, 'imports:manage'));
+
+// Import batches, newest first: every user's with `imports:manage`, otherwise the caller's own
+apiRouter.get('/imports', requirePermission('speakers:create'), async (req, res) => {
+    try {
+        const createdBy = hasPermission(req.user, 'imports:manage') ? null : req.user.email;
+        res.json(await listImportBatches(pool, { createdBy }));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// The caller's unfinished imports, so the browser can offer to resume one
+apiRouter.get('/imports/open', requirePermission('speakers:create'), async (req, res) => {
+    try {
+        res.json(await listOpenImportSessions(pool, req.user.email));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+apiRouter.post('/imports', requirePermission('speakers:create'), async (req, res) => {
+    const { fileName, fileSize, mode = 'skip' } = req.body;
+    if (typeof fileName !== 'string' || !fileName.trim()) {
+        return res.status(400).json({ message: 'File name is required.' });
+    }
+    if (!IMPORT_MODES.includes(mode)) {
+        return res.status(400).json({ message: `Unknown import mode "${mode}".` });
+    }
+    try {
+        await expireStaleImportSessions(pool);
+        const session = await createImportSession(pool, { user: req.user, fileName: fileName.trim(), fileSize: Number.isInteger(fileSize) ? fileSize : null, mode });
+        res.status(201).json(session);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+apiRouter.get('/imports/:id', requirePermission('speakers:create'), async (req, res) => {
+    try {
+        const session = await getImportSession(pool, req.params.id);
+        if (!canSeeImport(req.user, session)) {
+            return res.status(404).json({ message: 'Import not found.' });
+        }
+        res.json(session);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// The speakers an import created or updated, a page at a time (`offset`, `limit`)
+apiRouter.get('/imports/:id/rows', requirePermission('speakers:create'), async (req, res) => {
+    const offset = Number.parseInt(req.query.offset, 10) || 0;
+    const limit = Number.parseInt(req.query.limit, 10) || 100;
+    try {
+        const session = await getImportSession(pool, req.params.id);
+        if (!canSeeImport(req.user, session)) {
+            return res.status(404).json({ message: 'Import not found.' });
+        }
+        res.json(await getImportBatchRows(pool, session.id, { offset, limit }));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Undo an import: its new speakers go to the trash and its updates are reverted (see importBatches.js)
+apiRouter.post('/imports/:id/rollback', requirePermission('imports:manage'), async (req, res) => {
+    try {
+        const outcome = await withTransaction(async (client) => {
+            const session = await getImportSession(client, req.params.id, { lock: true });
+            if (!session) {
+                return { status: 404, body: { message: 'Import not found.' } };
+            }
+            if (session.status === 'open') {
+                return { status: 409, body: { message: 'This import is still running. Stop it before rolling it back.' } };
+            }
+            if (session.status === 'rolledBack') {
+                return { status: 409, body: { message: 'This import was already rolled back.' } };
+            }
+            const result = await rollbackImportBatch(client, session.id, req.user.email);
+            return { status: 200, body: { ...result, session: await getImportSession(client, session.id) } };
+        });
+        res.status(outcome.status).json(outcome.body);
+    } catch (err) {
+        console.error('Import rollback failed:', { message: err.message, code: err.code, detail: err.detail });
+        res.status(500).json({ message: 'An error occurred during the rollback. Nothing was changed.' });
+    }
+});
+
+// Upload chunk number `chunkIndex`, holding the file's rows from `firstRow` on. Chunks must arrive in order;
+// re-sending one that was already imported returns its stored result.
+apiRouter.post('/imports/:id/chunks', requirePermission('speakers:create'), async (req, res) => {
+    const { chunkIndex, firstRow, speakers } = req.body;
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || !Number.isInteger(firstRow) || firstRow < 0 || !Array.isArray(speakers)) {
+        return res.status(400).json({ message: 'A chunk needs a chunkIndex, a firstRow and a list of speakers.' });
+    }
+    try {
+        const outcome = await withTransaction(async (client) => {
+            const session = await getImportSession(client, req.params.id, { lock: true });
+            if (!session || session.createdBy !== req.user.email) {
+                return { status: 404, body: { message: 'Import not found.' } };
+            }
+            if (chunkIndex < session.nextChunk) {
+                return { status: 200, body: { session, result: await getImportChunkResult(client, session.id, chunkIndex) } };
+            }
+            if (session.status !== 'open') {
+                return { status: 409, body: { message: `This import is ${session.status} and accepts no more data.`, session } };
+            }
+            if (chunkIndex !== session.nextChunk || firstRow !== session.rowsReceived) {
+                return { status: 409, body: { message: `Expected chunk ${session.nextChunk} starting at row ${session.rowsReceived + 1}.`, session } };
+            }
+            return { status: 200, body: await importSessionChunk(client, session, { firstRow, speakers: withImportOwner(req, speakers) }, req.user) };
+        });
+        res.status(outcome.status).json(outcome.body);
+    } catch (err) {
+        console.error('Import chunk failed:', { message: err.message, code: err.code, detail: err.detail });
+        res.status(500).json({ message: 'An error occurred while importing this part of the file. It was rolled back and can be sent again.' });
+    }
+});
+
+const finishOwnImport = (status) => async (req, res) => {
+    try {
+        const session = await getImportSession(pool, req.params.id);
+        if (!session || session.createdBy !== req.user.email) {
+            return res.status(404).json({ message: 'Import not found.' });
+        }
+        res.json(await finishImportSession(pool, session.id, status) || session);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+};
+
+apiRouter.post('/imports/:id/complete', requirePermission('speakers:create'), finishOwnImport('completed'));
+
+// Stops an import. Rows from chunks already uploaded stay imported.
+apiRouter.post('/imports/:id/cancel', requirePermission('speakers:create'), finishOwnImport('cancelled'));
+
+// --- DUPLICATE REVIEW ENDPOINTS ---
+// Suspected duplicates found by a scan (see duplicates.js), reviewed pair by pair.
+
+apiRouter.get('/duplicates', requirePermission('duplicates:manage'), async (req, res) => {
+    try {
+        res.json(await listDuplicateCandidates(pool));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Rescan every active speaker and refresh the queue
+apiRouter.post('/duplicates/scan', requirePermission('duplicates:manage'), async (req, res) => {
+    try {
+        res.json(await withTransaction(client => scanForDuplicates(client)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Mark a pair as not being the same person; it won't be suggested again
+apiRouter.post('/duplicates/:id/dismiss', requirePermission('duplicates:manage'), async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+        return res.status(404).json({ message: 'Duplicate suggestion not found.' });
+    }
+    try {
+        const dismissed = await dismissDuplicateCandidate(pool, id, req.user.email);
+        if (!dismissed) {
+            return res.status(404).json({ message: 'Duplicate suggestion not found or already reviewed.' });
+        }
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Merge a pair into `survivorId`, taking the field values in `values`. `versions` holds the version of each
+// speaker as the reviewer saw it; if either changed since, nothing is merged and the current records are returned.
+apiRouter.post('/duplicates/:id/merge', requirePermission('duplicates:manage'), async (req, res) => {
+    const { survivorId, values, versions } = req.body;
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+        return res.status(404).json({ message: 'Duplicate suggestion not found.' });
+    }
+    if (typeof survivorId !== 'string' || !values || typeof values !== 'object' || !versions || typeof versions !== 'object') {
+        return res.status(400).json({ message: 'A merge needs the surviving speaker, the chosen values and the versions reviewed.' });
+    }
+    if ('businessEmail' in values && !String(values.businessEmail || '').trim()) {
+        return res.status(400).json({ message: 'The merged speaker needs a business email.' });
+    }
+    try {
+        const outcome = await withTransaction(async (client) => {
+            const candidate = await getDuplicateCandidate(client, id, { lock: true });
+            if (!candidate || candidate.status !== 'pending') {
+                return { status: 404, body: { message: 'Duplicate suggestion not found or already reviewed.' } };
+            }
+            if (survivorId !== candidate.speakerA && survivorId !== candidate.speakerB) {
+                return { status: 400, body: { message: 'The surviving speaker must be one of the pair.' } };
+            }
+            const rows = await client.query(
+                'SELECT * FROM speakers WHERE id = ANY($1) AND "deletedAt" IS NULL ORDER BY id FOR UPDATE',
+                [[candidate.speakerA, candidate.speakerB]]
+            );
+            if (rows.rows.length !== 2) {
+                return { status: 409, body: { message: 'One of these speakers has been deleted in the meantime.' } };
+            }
+            if (rows.rows.some(row => versions[row.id] !== row.version)) {
+                return { status: 409, body: { message: 'One of these speakers was changed while you were reviewing it.', current: rows.rows } };
+            }
+            const survivor = rows.rows.find(row => row.id === survivorId);
+            const mergedAway = rows.rows.find(row => row.id !== survivorId);
+            const merged = await mergeDuplicatePair(client, { candidate, survivor, mergedAway, values, actor: req.user.email });
+            return { status: 200, body: merged };
+        });
+        res.status(outcome.status).json(outcome.body);
+    } catch (err) {
+        if (err.code === '23505') {
+            return res.status(409).json({ message: 'Another speaker already uses the chosen business email.' });
+        }
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// --- IMPORT MAPPING PROFILE ENDPOINTS ---
+
+apiRouter.get('/import-profiles', requirePermission('speakers:create'), async (req, res) => {
+    try {
+        res.json(await listImportProfiles(pool));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Create a profile, or replace the mapping of the profile with the same name. Like deleting, replacing someone
+// else's profile is left to its creator or a user manager.
+apiRouter.post('/import-profiles', requirePermission('speakers:create'), async (req, res) => {
+    const { name, mapping } = req.body;
+    const problem = checkImportProfile(name, mapping);
+    if (problem) {
+        return res.status(400).json({ message: problem });
+    }
+    try {
+        const saved = await saveImportProfile(pool, { name, mapping, actor: req.user.email, replaceAny: hasPermission(req.user, 'users:manage') });
+        if (!saved) {
+            return res.status(409).json({ message: 'Another user has a mapping profile with this name. Choose a different name.' });
+        }
+        res.json(saved);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Profiles are shared, but only their creator or a user manager may delete one
+apiRouter.delete('/import-profiles/:id', requirePermission('speakers:create'), async (req, res) => {
+    try {
+        const id = Number(req.params.id);
+        const profile = Number.isInteger(id) ? await getImportProfile(pool, id) : null;
+        if (!profile) {
+            return res.status(404).json({ message: 'Mapping profile not found.' });
+        }
+        if (profile.createdBy !== req.user.email && !hasPermission(req.user, 'users:manage')) {
+            return res.status(403).json({ message: 'Only the creator of this profile can delete it.' });
+        }
+        await deleteImportProfile(pool, profile.id);
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// --- TITLE RULE ENDPOINTS ---
+// The rules deriving speakers' roles and flags from their titles (see titleClassification.js).
+
+const titleRuleFrom = (body) => {
+    const { phrase, role, seniority, isCeo, isSpeaker, isAuthor, priority } = body || {};
+    return { phrase, role, seniority, isCeo: isCeo === true, isSpeaker: isSpeaker === true, isAuthor: isAuthor === true, priority };
+};
+
+apiRouter.get('/title-rules', requirePermission('titleRules:manage'), async (req, res) => {
+    try {
+        res.json(await listTitleRules(pool));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+apiRouter.post('/title-rules', requirePermission('titleRules:manage'), async (req, res) => {
+    const rule = titleRuleFrom(req.body);
+    const problem = checkTitleRule(rule);
+    if (problem) {
+        return res.status(400).json({ message: problem });
+    }
+    try {
+        res.status(201).json(await createTitleRule(pool, rule, req.user.email));
+    } catch (err) {
+        if (err.code === '23505') {
+            return res.status(409).json({ message: 'There already is a rule for this phrase.' });
+        }
+        res.status(500).json({ message: err.message });
+    }
+});
+
+apiRouter.put('/title-rules/:id', requirePermission('titleRules:manage'), async (req, res) => {
+    const id = Number(req.params.id);
+    const rule = titleRuleFrom(req.body);
+    const problem = checkTitleRule(rule);
+    if (problem) {
+        return res.status(400).json({ message: problem });
+    }
+    try {
+        const updated = Number.isInteger(id) ? await updateTitleRule(pool, id, rule, req.user.email) : null;
+        if (!updated) {
+            return res.status(404).json({ message: 'Title rule not found.' });
+        }
+        res.json(updated);
+    } catch (err) {
+        if (err.code === '23505') {
+            return res.status(409).json({ message: 'There already is a rule for this phrase.' });
+        }
+        res.status(500).json({ message: err.message });
+    }
+});
+
+apiRouter.delete('/title-rules/:id', requirePermission('titleRules:manage'), async (req, res) => {
+    try {
+        const id = Number(req.params.id);
+        if (!Number.isInteger(id) || !await deleteTitleRule(pool, id)) {
+            return res.status(404).json({ message: 'Title rule not found.' });
+        }
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// How the current rules classify a title, to try rules out before reclassifying everyone
+apiRouter.post('/title-rules/preview', requirePermission('titleRules:manage'), async (req, res) => {
+    const { title } = req.body || {};
+    if (typeof title !== 'string') {
+        return res.status(400).json({ message: 'A title is required.' });
+    }
+    try {
+        res.json(classifyTitle(title, await listTitleRules(pool)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Reclassify the existing speakers with the current rules, one page per request: the client sends back
+// `nextAfterId` until it is null.
+apiRouter.post('/title-rules/reclassify', requirePermission('titleRules:manage'), async (req, res) => {
+    const { afterId } = req.body || {};
+    if (afterId !== undefined && afterId !== null && typeof afterId !== 'string') {
+        return res.status(400).json({ message: 'Invalid page.' });
+    }
+    try {
+        res.json(await withTransaction(client => reclassifySpeakers(client, afterId, req.user.email)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// --- SCRAPER ENDPOINTS ---
+// Extracting speakers from event pages into drafts, and reviewing those drafts (see scraper.js).
+
+apiRouter.get('/scrape-profiles', requirePermission('speakers:scrape'), async (req, res) => {
+    try {
+        res.json(await listScrapeProfiles(pool));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Create a profile, or replace the site and rules of the profile with the same name. Like deleting, replacing
+// someone else's profile is left to its creator or a user manager.
+apiRouter.post('/scrape-profiles', requirePermission('speakers:scrape'), async (req, res) => {
+    const { name, host, rules } = req.body || {};
+    const problem = checkScrapeProfile({ name, host, rules });
+    if (problem) {
+        return res.status(400).json({ message: problem });
+    }
+    try {
+        const saved = await saveScrapeProfile(pool, { name, host, rules, actor: req.user.email, replaceAny: hasPermission(req.user, 'users:manage') });
+        if (!saved) {
+            return res.status(409).json({ message: 'Another user has a scrape profile with this name. Choose a different name.' });
+        }
+        res.json(saved);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Profiles are shared, but only their creator or a user manager may delete one
+apiRouter.delete('/scrape-profiles/:id', requirePermission('speakers:scrape'), async (req, res) => {
+    try {
+        const id = Number(req.params.id);
+        const profile = Number.isInteger(id) ? await getScrapeProfile(pool, id) : null;
+        if (!profile) {
+            return res.status(404).json({ message: 'Scrape profile not found.' });
+        }
+        if (profile.createdBy !== req.user.email && !hasPermission(req.user, 'users:manage')) {
+            return res.status(403).json({ message: 'Only the creator of this profile can delete it.' });
+        }
+        await deleteScrapeProfile(pool, profile.id);
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Scrape the page at `url` with the rules of `profileId`, or with `rules`. The speakers found are stored as the
+// caller's drafts, unless `preview` is set, which only returns them so the rules can be tried out.
+apiRouter.post('/scrapes', requirePermission('speakers:scrape'), async (req, res) => {
+    const { url, profileId, preview = false } = req.body || {};
+    const urlProblem = checkPageUrl(url);
+    if (urlProblem) {
+        return res.status(400).json({ message: urlProblem });
+    }
+    try {
+        let rules = req.body.rules;
+        if (profileId !== undefined && profileId !== null) {
+            const profile = Number.isInteger(profileId) ? await getScrapeProfile(pool, profileId) : null;
+            if (!profile) {
+                return res.status(404).json({ message: 'Scrape profile not found.' });
+            }
+            rules = profile.rules;
+        }
+        const rulesProblem = checkScrapeRules(rules);
+        if (rulesProblem) {
+            return res.status(400).json({ message: rulesProblem });
+        }
+        const scraped = await scrapePage(url, rules);
+        if (scraped.error) {
+            return res.status(502).json({ message: scraped.error });
+        }
+        if (preview) {
+            return res.json({ sourceUrl: scraped.pageUrl, speakers: scraped.speakers, drafts: [] });
+        }
+        const drafts = await createSpeakerDrafts(pool, { sourceUrl: scraped.pageUrl, profileId: profileId ?? null, speakers: scraped.speakers, actor: req.user.email });
+        res.status(201).json({ sourceUrl: scraped.pageUrl, speakers: scraped.speakers, drafts });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// The caller's drafts waiting for review
+apiRouter.get('/speaker-drafts', requirePermission('speakers:scrape'), async (req, res) => {
+    try {
+        res.json(await listSpeakerDrafts(pool, req.user.email));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Save a draft as a speaker, with the values reviewed in the speaker form
+apiRouter.post('/speaker-drafts/:id/save', requirePermission('speakers:scrape'), async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+        return res.status(404).json({ message: 'Draft not found.' });
+    }
+    try {
+        // Found on an event page, so a speaker unless the reviewer says otherwise
+        const s = await newSpeakerFrom(req.user, req.body, { titleFlagOverrides: { isSpeaker: true } });
+        const outcome = await withTransaction(async (client) => {
+            const draft = await getSpeakerDraft(client, id, { lock: true });
+            if (!draft || draft.createdBy !== req.user.email) {
+                return { status: 404, body: { message: 'Draft not found.' } };
+            }
+            if (draft.status !== 'pending') {
+                return { status: 409, body: { message: 'This draft was already reviewed.' } };
+            }
+            const created = await insertSpeaker(client, s, req.user.email);
+            await closeSpeakerDraft(client, id, { status: 'saved', speakerId: created.id });
+            return { status: 201, body: created };
+        });
+        res.status(outcome.status).json(outcome.body);
+    } catch (err) {
+        if (err.code === '23505') {
+            return res.status(409).json({ message: 'Another speaker already uses this business email.' });
+        }
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Discard a draft without saving it
+apiRouter.delete('/speaker-drafts/:id', requirePermission('speakers:scrape'), async (req, res) => {
+    const id = Number(req.params.id);
+    try {
+        const draft = Number.isInteger(id) ? await getSpeakerDraft(pool, id) : null;
+        if (!draft || draft.createdBy !== req.user.email) {
+            return res.status(404).json({ message: 'Draft not found.' });
+        }
+        if (!await closeSpeakerDraft(pool, id, { status: 'discarded' })) {
+            return res.status(409).json({ message: 'This draft was already reviewed.' });
+        }
+        res.status(204).send();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
     }
 });
 
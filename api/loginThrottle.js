@@ -0,0 +1,94 @@
+// --- LOGIN BRUTE-FORCE PROTECTION ---
+// Failed logins are counted per account and per client IP in the `login_attempts` table
+// (serverless instances share nothing else). Each failure adds an exponentially growing
+// delay before the next attempt is accepted; reaching the limit locks the key for a while.
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000; // Failures older than this are forgotten
+const BASE_BACKOFF_MS = 1000;
+
+const ACCOUNT_POLICY = { maxFailures: 5, lockoutMs: 15 * 60 * 1000 };
+const IP_POLICY = { maxFailures: 20, lockoutMs: 15 * 60 * 1000 };
+
+const ACCOUNT_KEY_PREFIX = 'account:';
+const IP_KEY_PREFIX = 'ip:';
+
+const accountKey = (email) => `${ACCOUNT_KEY_PREFIX}${String(email || '').trim().toLowerCase()}`;
+const ipKey = (ip) => `${IP_KEY_PREFIX}${ip || 'unknown'}`;
+
+// Delay imposed after the given number of consecutive failures: none for the first,
+// then 1s, 2s, 4s, ... until the policy's limit triggers the full lockout.
+const delayAfterFailures = (failures, policy) => {
+    if (failures >= policy.maxFailures) return policy.lockoutMs;
+    if (failures < 2) return 0;
+    return BASE_BACKOFF_MS * 2 ** (failures - 2);
+};
+
+const toRetryAfterSeconds = (lockedUntil) => Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000));
+
+// Returns { retryAfterSeconds, scope } if either the account or the IP is currently blocked, otherwise null.
+export const getLoginBlock = async (db, email, ip) => {
+    const result = await db.query(
+        `SELECT key, "lockedUntil" FROM login_attempts
+         WHERE key = ANY($1) AND "lockedUntil" > NOW()
+         ORDER BY "lockedUntil" DESC LIMIT 1`,
+        [[accountKey(email), ipKey(ip)]]
+    );
+    if (result.rows.length === 0) return null;
+    const { key, lockedUntil } = result.rows[0];
+    return {
+        retryAfterSeconds: toRetryAfterSeconds(lockedUntil),
+        scope: key.startsWith(IP_KEY_PREFIX) ? 'ip' : 'account',
+    };
+};
+
+const recordFailureForKey = async (db, key, policy) => {
+    const result = await db.query(
+        `INSERT INTO login_attempts (key, failures, "lastFailureAt") VALUES ($1, 1, NOW())
+         ON CONFLICT (key) DO UPDATE SET
+            failures = CASE
+                WHEN login_attempts."lastFailureAt" < NOW() - ($2 * INTERVAL '1 millisecond') THEN 1
+                ELSE login_attempts.failures + 1
+            END,
+            "lastFailureAt" = NOW()
+         RETURNING failures`,
+        [key, FAILURE_WINDOW_MS]
+    );
+    const { failures } = result.rows[0];
+    const delayMs = delayAfterFailures(failures, policy);
+    if (delayMs > 0) {
+        await db.query(
+            `UPDATE login_attempts SET "lockedUntil" = NOW() + ($2 * INTERVAL '1 millisecond') WHERE key = $1`,
+            [key, delayMs]
+        );
+    }
+    return { failures, delayMs };
+};
+
+// Records a failed login for both the account and the IP.
+// Returns how long the caller must now wait, and how many attempts the account has left before lockout.
+export const recordLoginFailure = async (db, email, ip) => {
+    const account = await recordFailureForKey(db, accountKey(email), ACCOUNT_POLICY);
+    const client = await recordFailureForKey(db, ipKey(ip), IP_POLICY);
+    const delayMs = Math.max(account.delayMs, client.delayMs);
+    return {
+        retryAfterSeconds: delayMs > 0 ? Math.ceil(delayMs / 1000) : 0,
+        attemptsRemaining: Math.max(0, ACCOUNT_POLICY.maxFailures - account.failures),
+    };
+};
+
+// Called after a successful login. The IP counter is deliberately left alone, so a valid
+// account can't be used to reset the counter of an IP that is guessing other passwords.
+export const clearAccountFailures = async (db, email) => {
+    await db.query('DELETE FROM login_attempts WHERE key = $1', [accountKey(email)]);
+};
+
+// Accounts that have hit the failure limit and are still inside their lockout period.
+export const listLockedAccounts = async (db) => {
+    const result = await db.query(
+        `SELECT substring(key FROM $1::int) AS email, failures, "lockedUntil" FROM login_attempts
+         WHERE key LIKE $2 AND failures >= $3 AND "lockedUntil" > NOW()
+         ORDER BY "lockedUntil" DESC`,
+        [ACCOUNT_KEY_PREFIX.length + 1, `${ACCOUNT_KEY_PREFIX}%`, ACCOUNT_POLICY.maxFailures]
+    );
+    return result.rows;
+};
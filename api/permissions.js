@@ -0,0 +1,44 @@
+// --- ROLES & PERMISSIONS ---
+// Every route checks a permission, never a role name, so the matrix below is the single
+// place that decides what each role may do. The client receives the caller's permission
+// list and uses it only to decide what to render; the server enforces it.
+
+export const ROLES = ['admin', 'lead', 'intern', 'viewer'];
+
+const PERMISSION_MATRIX = {
+    admin: [
+        'users:manage',
+        'speakers:readAll',
+        'speakers:create',
+        'speakers:editOwn',
+        'speakers:editAll',
+        'speakers:deleteOwn',
+        'speakers:deleteAll',
+        'speakers:assignOwner',
+        'speakers:manageTrash',
+        'imports:manage',
+        'duplicates:manage',
+        'speakers:verifyEmails',
+        'speakers:verifyUrls',
+        'titleRules:manage',
+        'speakers:scrape',
+    ],
+    // Team leads review and correct everyone's records, including rolling back bad imports, but don't manage accounts.
+    lead: ['speakers:readAll', 'speakers:create', 'speakers:editOwn', 'speakers:editAll', 'speakers:deleteOwn', 'imports:manage', 'speakers:scrape'],
+    intern: ['speakers:create', 'speakers:editOwn', 'speakers:deleteOwn', 'speakers:scrape'],
+    viewer: ['speakers:readAll'],
+};
+
+export const isValidRole = (role) => ROLES.includes(role);
+
+// Rows created before roles existed only carry the isAdmin flag.
+export const roleOf = (user) => (isValidRole(user.role) ? user.role : (user.isAdmin ? 'admin' : 'intern'));
+
+export const hasPermission = (user, permission) => PERMISSION_MATRIX[roleOf(user)].includes(permission);
+
+// `speakers:<action>All` covers every row, `speakers:<action>Own` only rows the user created.
+export const canModifySpeaker = (user, speaker, action) =>
+    hasPermission(user, `speakers:${action}All`) || (speaker.createdBy === user.email && hasPermission(user, `speakers:${action}Own`));
+
+// The user payload sent to the client: normalized role plus the permissions that come with it.
+export const withPermissions = (user) => ({ ...user, role: roleOf(user), permissions: PERMISSION_MATRIX[roleOf(user)] });
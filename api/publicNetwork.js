@@ -0,0 +1,67 @@
+import dns from 'dns';
+import net from 'net';
+import { Agent, fetch } from 'undici';
+
+// --- PUBLIC NETWORK FETCHES ---
+// The server fetches pages on its users' behalf (scraped event pages, probed speaker websites), and must not be
+// made to fetch from its own network: loopback, private and link-local addresses (cloud metadata included) are
+// refused. The address is checked by the DNS lookup of the connection that is actually made, so a host can't
+// pass the check and then resolve somewhere else for the request. Redirects are followed one at a time, and
+// every address on the way goes through the same check.
+
+const NOT_PUBLIC_MESSAGE = 'its address is not on the public internet';
+
+const notPublicError = () => Object.assign(new Error(NOT_PUBLIC_MESSAGE), { code: 'ENOTPUBLIC' });
+
+// Loopback, private, link-local and other addresses a page on the internet never has.
+export const isPrivateAddress = (address) => {
+    if (net.isIPv4(address)) {
+        const [a, b] = address.split('.').map(Number);
+        return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b <= 127) || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || a >= 224;
+    }
+    const lower = address.toLowerCase();
+    if (lower.startsWith('::ffff:')) return isPrivateAddress(lower.slice(7));
+    return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || lower.startsWith('fe80');
+};
+
+// A `dns.lookup` for sockets that fails when the host has any address that isn't public.
+const publicLookup = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) return callback(notPublicError());
+        if (options.all) return callback(null, addresses);
+        return callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Hosts written as an IP address are connected to without a lookup, so they are checked here.
+const assertPublicUrl = (url) => {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isPrivateAddress(host)) throw notPublicError();
+};
+
+// Fetches a URL on the public internet, following up to `maxRedirects` redirects to other web addresses.
+// Resolves to { response, url }, where `url` is the address after redirects; throws if nothing answered,
+// with the reason as the message when the address wasn't public or a redirect went wrong.
+export const fetchPublic = async (url, { maxRedirects = 5, ...init } = {}) => {
+    let current = new URL(url);
+    for (let redirects = 0; ; redirects += 1) {
+        assertPublicUrl(current);
+        let response;
+        try {
+            response = await fetch(current, { ...init, redirect: 'manual', dispatcher: publicAgent });
+        } catch (err) {
+            throw err.cause?.code === 'ENOTPUBLIC' ? err.cause : err;
+        }
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) return { response, url: current };
+
+        await response.body?.cancel();
+        if (redirects === maxRedirects) throw new Error('it redirects too many times');
+        current = new URL(location, current);
+        if (current.protocol !== 'http:' && current.protocol !== 'https:') throw new Error('it redirects to a non-web address');
+    }
+};
@@ -0,0 +1,359 @@
+import { recordSpeakerChange } from './history.js';
+import { listTitleRules, classifyTitle } from './titleClassification.js';
+
+// --- SCHEMA MIGRATIONS ---
+// The base `users` and `speakers` tables are provisioned outside this app.
+// Everything added on top of them lives here as idempotent statements. `schema_version` records how many of
+// them a database has applied, so a cold start only runs the ones added since; the list is append-only.
+// An entry is a SQL string, or a function of the transaction client for a step SQL alone can't express.
+const migrations = [
+    // Login sessions. The id is the random token carried (signed) in the session cookie.
+    `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        "userEmail" TEXT NOT NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "expiresAt" TIMESTAMPTZ NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS sessions_user_email_idx ON sessions ("userEmail")`,
+
+    // Failed login counters, keyed by `account:<email>` or `ip:<address>` (see loginThrottle.js).
+    `CREATE TABLE IF NOT EXISTS login_attempts (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL DEFAULT 0,
+        "lastFailureAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "lockedUntil" TIMESTAMPTZ
+    )`,
+
+    // Set for generated/admin-set passwords; the user must choose their own before doing anything else.
+    `ALTER TABLE users ADD COLUMN IF NOT EXISTS "mustChangePassword" BOOLEAN NOT NULL DEFAULT FALSE`,
+
+    // Time of the session's latest request, for the idle timeout.
+    `ALTER TABLE sessions ADD COLUMN IF NOT EXISTS "lastSeenAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+
+    // Roles (see permissions.js). "isAdmin" is kept in sync for anything still reading it.
+    `ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT`,
+    `UPDATE users SET role = CASE WHEN "isAdmin" THEN 'admin' ELSE 'intern' END WHERE role IS NULL`,
+
+    // Append-only change log for speakers (see history.js).
+    `CREATE TABLE IF NOT EXISTS speaker_history (
+        id BIGSERIAL PRIMARY KEY,
+        "speakerId" TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor TEXT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+        snapshot JSONB
+    )`,
+    `CREATE INDEX IF NOT EXISTS speaker_history_speaker_idx ON speaker_history ("speakerId", "createdAt")`,
+    `CREATE OR REPLACE FUNCTION speaker_history_append_only() RETURNS trigger AS $$
+     BEGIN
+         RAISE EXCEPTION 'speaker_history is append-only';
+     END;
+     $$ LANGUAGE plpgsql`,
+    `DO $$
+     BEGIN
+         IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'speaker_history_append_only' AND tgrelid = 'speaker_history'::regclass) THEN
+             CREATE TRIGGER speaker_history_append_only BEFORE UPDATE OR DELETE ON speaker_history
+             FOR EACH ROW EXECUTE FUNCTION speaker_history_append_only();
+         END IF;
+     END $$`,
+
+    // Soft delete (see trash.js). Trashed rows must not block their email from being used again,
+    // so the plain unique constraint on "businessEmail" becomes a unique index over active rows only.
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "deletedBy" TEXT`,
+    `DO $$
+     DECLARE c record;
+     BEGIN
+         FOR c IN
+             SELECT con.conname FROM pg_constraint con
+             JOIN pg_class rel ON rel.oid = con.conrelid
+             JOIN pg_attribute att ON att.attrelid = rel.oid AND att.attnum = con.conkey[1]
+             WHERE rel.relname = 'speakers' AND con.contype = 'u'
+               AND array_length(con.conkey, 1) = 1 AND att.attname = 'businessEmail'
+         LOOP
+             EXECUTE format('ALTER TABLE speakers DROP CONSTRAINT %I', c.conname);
+         END LOOP;
+     END $$`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS speakers_active_business_email_idx ON speakers ("businessEmail") WHERE "deletedAt" IS NULL`,
+    // Bumped on every update so concurrent edits can be detected (optimistic locking).
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+
+    // Saved CSV column mappings for the import wizard (see importProfiles.js).
+    `CREATE TABLE IF NOT EXISTS import_profiles (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        mapping JSONB NOT NULL,
+        "createdBy" TEXT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+
+    // Chunked, resumable imports of large files (see importSessions.js).
+    `CREATE TABLE IF NOT EXISTS import_sessions (
+        id TEXT PRIMARY KEY,
+        "createdBy" TEXT NOT NULL,
+        "fileName" TEXT NOT NULL,
+        "fileSize" BIGINT,
+        mode TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        "nextChunk" INTEGER NOT NULL DEFAULT 0,
+        "rowsReceived" INTEGER NOT NULL DEFAULT 0,
+        "insertedCount" INTEGER NOT NULL DEFAULT 0,
+        "updatedCount" INTEGER NOT NULL DEFAULT 0,
+        "unchangedCount" INTEGER NOT NULL DEFAULT 0,
+        "skippedCount" INTEGER NOT NULL DEFAULT 0,
+        "invalidCount" INTEGER NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS import_sessions_created_by_idx ON import_sessions ("createdBy", status)`,
+    `CREATE TABLE IF NOT EXISTS import_session_chunks (
+        "sessionId" TEXT NOT NULL REFERENCES import_sessions(id) ON DELETE CASCADE,
+        "chunkIndex" INTEGER NOT NULL,
+        result JSONB NOT NULL,
+        PRIMARY KEY ("sessionId", "chunkIndex")
+    )`,
+    `CREATE TABLE IF NOT EXISTS import_session_emails (
+        "sessionId" TEXT NOT NULL REFERENCES import_sessions(id) ON DELETE CASCADE,
+        email TEXT NOT NULL,
+        "row" INTEGER NOT NULL,
+        PRIMARY KEY ("sessionId", email)
+    )`,
+
+    // Every import, chunked or not, is recorded as an import session: its batch id is the session id
+    // (see importBatches.js). Inserted speakers and the history entries an import writes carry it.
+    `ALTER TABLE import_sessions ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'chunked'`,
+    `ALTER TABLE import_sessions ALTER COLUMN "fileName" DROP NOT NULL`,
+    `ALTER TABLE import_sessions ADD COLUMN IF NOT EXISTS "rolledBackAt" TIMESTAMPTZ`,
+    `ALTER TABLE import_sessions ADD COLUMN IF NOT EXISTS "rolledBackBy" TEXT`,
+    `CREATE INDEX IF NOT EXISTS import_sessions_created_at_idx ON import_sessions ("createdAt")`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "importBatchId" TEXT`,
+    `CREATE INDEX IF NOT EXISTS speakers_import_batch_idx ON speakers ("importBatchId") WHERE "importBatchId" IS NOT NULL`,
+    `ALTER TABLE speaker_history ADD COLUMN IF NOT EXISTS "importBatchId" TEXT`,
+    `CREATE INDEX IF NOT EXISTS speaker_history_import_batch_idx ON speaker_history ("importBatchId", id) WHERE "importBatchId" IS NOT NULL`,
+
+    // Likely duplicates found by a scan, waiting for review (see duplicates.js). "speakerA" < "speakerB".
+    `CREATE TABLE IF NOT EXISTS duplicate_candidates (
+        id SERIAL PRIMARY KEY,
+        "speakerA" TEXT NOT NULL,
+        "speakerB" TEXT NOT NULL,
+        score REAL NOT NULL,
+        reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+        status TEXT NOT NULL DEFAULT 'pending',
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "lastSeenAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "reviewedBy" TEXT,
+        "reviewedAt" TIMESTAMPTZ,
+        UNIQUE ("speakerA", "speakerB")
+    )`,
+    `CREATE INDEX IF NOT EXISTS duplicate_candidates_status_idx ON duplicate_candidates (status, score DESC)`,
+    `ALTER TABLE speaker_history ADD COLUMN IF NOT EXISTS "relatedSpeakerId" TEXT`,
+
+    // Canonical values (see speakerNormalization.js): ISO codes of the countries, and what was entered
+    // for each field whose stored value differs from it.
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "countryCode" TEXT`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "companyCountryCode" TEXT`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "rawValues" JSONB NOT NULL DEFAULT '{}'::jsonb`,
+
+    // Outcome of the latest business email check (see emailVerification.js); NULL until first checked.
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "emailCheckReason" TEXT`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "emailCheckedAt" TIMESTAMPTZ`,
+
+    // Outcome of the latest LinkedIn URL and website checks (see urlVerification.js); NULL until first checked.
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "linkedinCheckReason" TEXT`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "websiteCheckReason" TEXT`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "urlsCheckedAt" TIMESTAMPTZ`,
+
+    // Rules that derive the role and flags of a speaker from their title (see titleClassification.js).
+    // The defaults are only inserted into an empty table, so rules the admins change stay changed.
+    `CREATE TABLE IF NOT EXISTS title_rules (
+        id SERIAL PRIMARY KEY,
+        phrase TEXT NOT NULL UNIQUE,
+        role TEXT,
+        seniority TEXT,
+        "isCeo" BOOLEAN NOT NULL DEFAULT FALSE,
+        "isSpeaker" BOOLEAN NOT NULL DEFAULT FALSE,
+        "isAuthor" BOOLEAN NOT NULL DEFAULT FALSE,
+        priority INTEGER NOT NULL DEFAULT 100,
+        "updatedBy" TEXT,
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `INSERT INTO title_rules (phrase, role, seniority, "isCeo", "isSpeaker", "isAuthor", priority)
+     SELECT * FROM (VALUES
+        ('assistant to', 'Assistant', 'individual', FALSE, FALSE, FALSE, 1),
+        ('ceo', 'CEO', 'executive', TRUE, FALSE, FALSE, 10),
+        ('chief executive', 'CEO', 'executive', TRUE, FALSE, FALSE, 10),
+        ('cto', 'CTO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('chief technology officer', 'CTO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('cfo', 'CFO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('chief financial officer', 'CFO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('coo', 'COO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('chief operating officer', 'COO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('cmo', 'CMO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('chief marketing officer', 'CMO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('cio', 'CIO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('chief information officer', 'CIO', 'executive', FALSE, FALSE, FALSE, 20),
+        ('chief', 'C-Level Executive', 'executive', FALSE, FALSE, FALSE, 30),
+        ('vice president', 'Vice President', 'vicePresident', FALSE, FALSE, FALSE, 30),
+        ('vp', 'Vice President', 'vicePresident', FALSE, FALSE, FALSE, 30),
+        ('svp', 'Vice President', 'vicePresident', FALSE, FALSE, FALSE, 30),
+        ('evp', 'Vice President', 'vicePresident', FALSE, FALSE, FALSE, 30),
+        ('president', 'President', 'executive', FALSE, FALSE, FALSE, 35),
+        ('chair', 'Chair', 'executive', FALSE, FALSE, FALSE, 35),
+        ('chairman', 'Chair', 'executive', FALSE, FALSE, FALSE, 35),
+        ('chairwoman', 'Chair', 'executive', FALSE, FALSE, FALSE, 35),
+        ('chairperson', 'Chair', 'executive', FALSE, FALSE, FALSE, 35),
+        ('founder', 'Founder', 'executive', FALSE, FALSE, FALSE, 40),
+        ('co founder', 'Founder', 'executive', FALSE, FALSE, FALSE, 40),
+        ('cofounder', 'Founder', 'executive', FALSE, FALSE, FALSE, 40),
+        ('managing director', 'Managing Director', 'executive', FALSE, FALSE, FALSE, 40),
+        ('owner', 'Owner', 'executive', FALSE, FALSE, FALSE, 45),
+        ('managing partner', 'Partner', 'executive', FALSE, FALSE, FALSE, 45),
+        ('partner', 'Partner', 'executive', FALSE, FALSE, FALSE, 50),
+        ('director', 'Director', 'director', FALSE, FALSE, FALSE, 60),
+        ('head of', 'Head of Department', 'director', FALSE, FALSE, FALSE, 60),
+        ('manager', 'Manager', 'manager', FALSE, FALSE, FALSE, 70),
+        ('professor', 'Professor', 'individual', FALSE, FALSE, FALSE, 80),
+        ('consultant', 'Consultant', 'individual', FALSE, FALSE, FALSE, 90),
+        ('engineer', 'Engineer', 'individual', FALSE, FALSE, FALSE, 90),
+        ('speaker', NULL, NULL, FALSE, TRUE, FALSE, 100),
+        ('keynote', NULL, NULL, FALSE, TRUE, FALSE, 100),
+        ('author', 'Author', 'individual', FALSE, FALSE, TRUE, 100),
+        ('writer', 'Author', 'individual', FALSE, FALSE, TRUE, 100)
+     ) AS defaults (phrase, role, seniority, "isCeo", "isSpeaker", "isAuthor", priority)
+     WHERE NOT EXISTS (SELECT 1 FROM title_rules)`,
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS seniority TEXT`,
+
+    // Name and location fields filled in by the parser (see speakerParsing.js): field -> { source, confidence }.
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "parsedFields" JSONB NOT NULL DEFAULT '{}'::jsonb`,
+
+    // Scraping event pages (see scraper.js): team-wide extraction rules per site, and the speakers extracted
+    // from a page, kept as drafts until their scraper saves or discards them.
+    `CREATE TABLE IF NOT EXISTS scrape_profiles (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        host TEXT,
+        rules JSONB NOT NULL,
+        "createdBy" TEXT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS speaker_drafts (
+        id SERIAL PRIMARY KEY,
+        "sourceUrl" TEXT NOT NULL,
+        "profileId" INTEGER REFERENCES scrape_profiles(id) ON DELETE SET NULL,
+        "values" JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        "createdBy" TEXT NOT NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        "reviewedAt" TIMESTAMPTZ,
+        "speakerId" TEXT
+    )`,
+    `CREATE INDEX IF NOT EXISTS speaker_drafts_owner_idx ON speaker_drafts ("createdBy", status)`,
+
+    // Business emails are compared in lowercase (see speakerNormalization.js): existing ones are lowercased, and
+    // the unique index over active speakers moves to the lowercase address, which also serves the lookups.
+    // Blank emails are left out of it.
+    (db) => lowercaseBusinessEmails(db),
+    `CREATE UNIQUE INDEX IF NOT EXISTS speakers_active_business_email_lower_idx ON speakers (LOWER("businessEmail"))
+     WHERE "deletedAt" IS NULL AND "businessEmail" <> ''`,
+    `DROP INDEX IF EXISTS speakers_active_business_email_idx`,
+
+    // Speaker and author flags set by hand, which the title classification keeps (see titleClassification.js).
+    `ALTER TABLE speakers ADD COLUMN IF NOT EXISTS "titleFlagOverrides" JSONB NOT NULL DEFAULT '{}'::jsonb`,
+    (db) => keepHandSetTitleFlags(db),
+];
+
+// Flags ticked by hand before they were derived from titles survive until the next reclassification; they
+// become overrides, so it keeps them: every speaker or author flag that is set but the current rules don't derive.
+const keepHandSetTitleFlags = async (db) => {
+    const rules = await listTitleRules(db);
+    const flagged = await db.query('SELECT id, title, "isSpeaker", "isAuthor" FROM speakers WHERE "isSpeaker" OR "isAuthor"');
+    for (const speaker of flagged.rows) {
+        const derived = classifyTitle(speaker.title, rules);
+        const overrides = Object.fromEntries(['isSpeaker', 'isAuthor'].filter(flag => speaker[flag] && !derived[flag]).map(flag => [flag, true]));
+        if (Object.keys(overrides).length > 0) {
+            await db.query('UPDATE speakers SET "titleFlagOverrides" = $2 WHERE id = $1', [speaker.id, overrides]);
+        }
+    }
+};
+
+// Active speakers whose emails differ only in case can't all keep them under the lowercase index. The oldest
+// keeps the address; on the others it is cleared (and kept as their secondary email, if that is free, and in
+// "rawValues"), with a history entry, and each pair is queued for duplicate review. Every collision is logged.
+const lowercaseBusinessEmails = async (db) => {
+    const collisions = await db.query(
+        `SELECT LOWER(TRIM("businessEmail")) AS email, array_agg(id ORDER BY id) AS ids
+         FROM speakers WHERE "deletedAt" IS NULL AND TRIM("businessEmail") <> ''
+         GROUP BY LOWER(TRIM("businessEmail")) HAVING COUNT(*) > 1`
+    );
+    for (const { email, ids } of collisions.rows) {
+        const [keptId, ...clearedIds] = ids;
+        for (const id of clearedIds) {
+            const before = (await db.query('SELECT * FROM speakers WHERE id = $1 FOR UPDATE', [id])).rows[0];
+            const after = (await db.query(
+                `UPDATE speakers SET "businessEmail" = '',
+                    "secondaryEmail" = CASE WHEN TRIM(COALESCE("secondaryEmail", '')) = '' THEN $2 ELSE "secondaryEmail" END,
+                    "rawValues" = "rawValues" || jsonb_build_object('businessEmail', "businessEmail"),
+                    version = version + 1
+                 WHERE id = $1 RETURNING *`,
+                [id, email]
+            )).rows[0];
+            await recordSpeakerChange(db, { speakerId: id, action: 'update', actor: 'system', before, after, relatedSpeakerId: keptId });
+            const [speakerA, speakerB] = keptId < id ? [keptId, id] : [id, keptId];
+            await db.query(
+                `INSERT INTO duplicate_candidates ("speakerA", "speakerB", score, reasons) VALUES ($1, $2, 0.85, $3)
+                 ON CONFLICT ("speakerA", "speakerB") DO NOTHING`,
+                [speakerA, speakerB, JSON.stringify(['Shares an email address'])]
+            );
+        }
+        console.warn(`Business email ${email} was used by ${ids.length} active speakers: kept on ${keptId}, cleared on ${clearedIds.join(', ')} and queued for duplicate review.`);
+    }
+    await db.query(
+        `UPDATE speakers SET "businessEmail" = LOWER(TRIM("businessEmail")),
+            "rawValues" = jsonb_build_object('businessEmail', "businessEmail") || "rawValues"
+         WHERE "businessEmail" <> LOWER(TRIM("businessEmail"))`
+    );
+};
+
+// Serializes migrations across function instances starting at the same time.
+const MIGRATION_LOCK_KEY = 482913;
+
+const appliedCount = async (db) => {
+    try {
+        const result = await db.query('SELECT applied FROM schema_version');
+        return result.rows[0]?.applied ?? 0;
+    } catch (err) {
+        if (err.code === '42P01') return 0; // No migration has run yet
+        throw err;
+    }
+};
+
+export const ensureSchema = async (pool) => {
+    if (await appliedCount(pool) >= migrations.length) return;
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+        await client.query(`CREATE TABLE IF NOT EXISTS schema_version (
+            id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+            applied INTEGER NOT NULL
+        )`);
+        // Re-read under the lock: another instance may have applied them while this one waited
+        for (const migration of migrations.slice(await appliedCount(client))) {
+            if (typeof migration === 'function') await migration(client);
+            else await client.query(migration);
+        }
+        await client.query(
+            `INSERT INTO schema_version (id, applied) VALUES (TRUE, $1) ON CONFLICT (id) DO UPDATE SET applied = EXCLUDED.applied`,
+            [migrations.length]
+        );
+        await client.query('COMMIT');
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+};
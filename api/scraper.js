@@ -0,0 +1,255 @@
+import { load } from 'cheerio';
+import { parseFullName } from './speakerParsing.js';
+import { fetchPublic } from './publicNetwork.js';
+
+// --- EVENT PAGE SCRAPING ---
+// Speakers can be extracted from an event or agenda page instead of typed in. The rules say where they are on
+// the page, as CSS selectors:
+//   item   - matches each speaker's block, e.g. ".speaker-card"
+//   fields - per speaker field, a selector inside that block, e.g. { fullName: "h3", company: ".org" }.
+//            "a.talk@href" reads an attribute instead of the text; a selector of just "@data-name" reads it
+//            from the block itself. The talk link is read from the href of the matched link (or the first link
+//            inside it) and made absolute.
+// Rules can be saved per site as a team-wide profile. What a page yields is stored as drafts, which their
+// scraper reviews in the speaker form and saves as speakers or discards; nothing scraped becomes a speaker
+// without that review.
+// Pages are fetched through a replaceable fetcher (see setPageFetcher), so tests can serve saved HTML fixtures.
+
+export const SCRAPE_FIELDS = ['fullName', 'title', 'company', 'speakingTopic', 'speakingLink'];
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_SPEAKERS_PER_PAGE = 200;
+const MAX_SELECTOR_LENGTH = 300;
+const MAX_VALUE_LENGTH = 500;
+const MAX_PROFILE_NAME_LENGTH = 100;
+
+const readBody = async (response) => {
+    const reader = response.body.getReader();
+    const chunks = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > MAX_PAGE_BYTES) {
+            await reader.cancel();
+            throw new Error('it is too large');
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+// Resolves a page URL to { status, url, contentType, body }, where `url` is the address after redirects, or
+// throws if nothing answered. Only pages on the public internet are fetched (see publicNetwork.js).
+const httpPageFetcher = async (pageUrl) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const { response, url } = await fetchPublic(pageUrl, {
+            maxRedirects: MAX_REDIRECTS,
+            signal: controller.signal,
+            headers: { accept: 'text/html,application/xhtml+xml' },
+        });
+        return {
+            status: response.status,
+            url: url.href,
+            contentType: response.headers.get('content-type') || '',
+            body: response.ok ? await readBody(response) : '',
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+let pageFetcher = httpPageFetcher;
+
+// Replaces the page fetcher, e.g. with one serving saved HTML fixtures; without an argument, restores the default.
+export const setPageFetcher = (fetcher) => {
+    pageFetcher = fetcher || httpPageFetcher;
+};
+
+// Returns an error message, or null if `url` is a web address that can be scraped.
+export const checkPageUrl = (url) => {
+    try {
+        const parsed = new URL(String(url || '').trim());
+        if ((parsed.protocol === 'http:' || parsed.protocol === 'https:') && parsed.hostname.includes('.')) return null;
+    } catch {
+        // Reported below
+    }
+    return 'Enter the full address of the page, starting with http:// or https://.';
+};
+
+// "a.talk@href" -> { css: "a.talk", attribute: "href" }
+const splitSelector = (selector) => {
+    const match = /^(.*?)@([\w:-]+)$/.exec(selector.trim());
+    return match ? { css: match[1].trim(), attribute: match[2] } : { css: selector.trim(), attribute: null };
+};
+
+// Returns an error message, or null if the rules can be used.
+export const checkScrapeRules = (rules) => {
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) return 'The extraction rules are missing.';
+    const { item, fields } = rules;
+    if (typeof item !== 'string' || !item.trim()) return 'A selector for each speaker is required.';
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) return 'The rules must list the fields to extract.';
+    const unknown = Object.keys(fields).find(field => !SCRAPE_FIELDS.includes(field));
+    if (unknown) return `Unknown speaker field "${unknown}".`;
+    if (typeof fields.fullName !== 'string' || !fields.fullName.trim()) return 'A selector for the full name is required.';
+    const $ = load('');
+    for (const [field, selector] of [['item', item], ...Object.entries(fields)]) {
+        if (typeof selector !== 'string') return `The selector for ${field} must be text.`;
+        if (selector.length > MAX_SELECTOR_LENGTH) return `The selector for ${field} must be at most ${MAX_SELECTOR_LENGTH} characters.`;
+        const { css, attribute } = field === 'item' ? { css: selector.trim(), attribute: null } : splitSelector(selector);
+        if (!css && !attribute) continue; // An empty field selector leaves the field out
+        try {
+            if (css) $(css);
+        } catch (err) {
+            return `The selector for ${field} is not valid CSS: ${err.message}`;
+        }
+    }
+    return null;
+};
+
+const readField = ($, block, selector, isLink, pageUrl) => {
+    const { css, attribute } = splitSelector(selector);
+    if (!css && !attribute) return '';
+    const target = css ? block.find(css).first() : block;
+    if (target.length === 0) return '';
+    let value;
+    if (attribute) value = target.attr(attribute);
+    else if (isLink) value = target.is('a[href]') ? target.attr('href') : target.find('a[href]').first().attr('href');
+    else value = target.text();
+    value = String(value ?? '').replace(/\s+/g, ' ').trim().slice(0, MAX_VALUE_LENGTH);
+    if (!isLink || !value) return value;
+    try {
+        const link = new URL(value, pageUrl);
+        return link.protocol === 'http:' || link.protocol === 'https:' ? link.href : '';
+    } catch {
+        return '';
+    }
+};
+
+// The speakers `rules` find in `html`: one values object per block with a name, in page order, without repeats.
+// First and last name are split from the full name, ready for the speaker form.
+export const extractSpeakers = (html, rules, pageUrl) => {
+    const $ = load(html);
+    const speakers = [];
+    const seen = new Set();
+    $(rules.item).each((index, element) => {
+        if (speakers.length === MAX_SPEAKERS_PER_PAGE) return false;
+        const block = $(element);
+        const values = {};
+        Object.entries(rules.fields).forEach(([field, selector]) => {
+            const value = readField($, block, selector, field === 'speakingLink', pageUrl);
+            if (value) values[field] = value;
+        });
+        if (!values.fullName) return undefined;
+        const key = `${values.fullName}|${values.company || ''}`.toLowerCase();
+        if (seen.has(key)) return undefined;
+        seen.add(key);
+        const name = parseFullName(values.fullName);
+        speakers.push(name ? { firstName: name.firstName, lastName: name.lastName, ...values } : values);
+        return undefined;
+    });
+    return speakers;
+};
+
+// Fetches the page at `url` and extracts its speakers with `rules` (both checked already). Returns
+// { pageUrl, speakers }, or { error } with the reason the page could not be read.
+export const scrapePage = async (url, rules) => {
+    let page;
+    try {
+        page = await pageFetcher(new URL(url.trim()).href);
+    } catch (err) {
+        return { error: `The page could not be loaded: ${err.name === 'AbortError' ? 'it did not answer in time' : err.message}.` };
+    }
+    if (page.status < 200 || page.status >= 300) return { error: `The page could not be loaded: it answered with HTTP ${page.status}.` };
+    if (page.contentType && !/html|xml/i.test(page.contentType)) return { error: 'The address is not a web page.' };
+    const pageUrl = page.url || url.trim();
+    return { pageUrl, speakers: extractSpeakers(page.body, rules, pageUrl) };
+};
+
+// --- SCRAPE PROFILES ---
+
+// "https://www.Example.com/agenda" or "www.example.com" -> "example.com"
+export const siteHost = (value) => {
+    const text = String(value || '').trim().toLowerCase();
+    try {
+        return new URL(/^[a-z][a-z0-9+.-]*:\/\//.test(text) ? text : `https://${text}`).hostname.replace(/^www\./, '');
+    } catch {
+        return '';
+    }
+};
+
+// Returns an error message, or null if the profile can be saved.
+export const checkScrapeProfile = ({ name, host, rules }) => {
+    if (typeof name !== 'string' || !name.trim()) return 'Profile name is required.';
+    if (name.trim().length > MAX_PROFILE_NAME_LENGTH) return `Profile name must be at most ${MAX_PROFILE_NAME_LENGTH} characters.`;
+    if (host !== null && host !== undefined && host !== '' && !siteHost(host)) return 'The site is not a valid address.';
+    return checkScrapeRules(rules);
+};
+
+export const listScrapeProfiles = async (db) => {
+    const result = await db.query('SELECT * FROM scrape_profiles ORDER BY name');
+    return result.rows;
+};
+
+// Saving under an existing name replaces that profile's site and rules, if it is the actor's own or `replaceAny`
+// is set. Returns the saved profile, or null when the name belongs to someone else's profile.
+export const saveScrapeProfile = async (db, { name, host, rules, actor, replaceAny = false }) => {
+    const result = await db.query(
+        `INSERT INTO scrape_profiles (name, host, rules, "createdBy") VALUES ($1, $2, $3, $4)
+         ON CONFLICT (name) DO UPDATE SET host = EXCLUDED.host, rules = EXCLUDED.rules, "updatedAt" = NOW()
+         WHERE scrape_profiles."createdBy" = $4 OR $5
+         RETURNING *`,
+        [name.trim(), siteHost(host) || null, JSON.stringify(rules), actor, replaceAny]
+    );
+    return result.rows[0] || null;
+};
+
+export const getScrapeProfile = async (db, id) => {
+    const result = await db.query('SELECT * FROM scrape_profiles WHERE id = $1', [id]);
+    return result.rows[0] || null;
+};
+
+export const deleteScrapeProfile = async (db, id) => {
+    await db.query('DELETE FROM scrape_profiles WHERE id = $1', [id]);
+};
+
+// --- SPEAKER DRAFTS ---
+// status: 'pending' until reviewed, then 'saved' (with the id of the speaker it became) or 'discarded'.
+
+// Stores the speakers scraped from `sourceUrl` as pending drafts of `actor`; returns the drafts.
+export const createSpeakerDrafts = async (db, { sourceUrl, profileId, speakers, actor }) => {
+    if (speakers.length === 0) return [];
+    const result = await db.query(
+        `INSERT INTO speaker_drafts ("sourceUrl", "profileId", "values", "createdBy")
+         SELECT $1, $2, entry.value, $4 FROM jsonb_array_elements($3::jsonb) WITH ORDINALITY AS entry (value, position)
+         ORDER BY entry.position
+         RETURNING *`,
+        [sourceUrl, profileId, JSON.stringify(speakers), actor]
+    );
+    return result.rows;
+};
+
+// The drafts `createdBy` has yet to review, oldest first.
+export const listSpeakerDrafts = async (db, createdBy) => {
+    const result = await db.query(`SELECT * FROM speaker_drafts WHERE "createdBy" = $1 AND status = 'pending' ORDER BY id`, [createdBy]);
+    return result.rows;
+};
+
+export const getSpeakerDraft = async (db, id, { lock = false } = {}) => {
+    const result = await db.query(`SELECT * FROM speaker_drafts WHERE id = $1${lock ? ' FOR UPDATE' : ''}`, [id]);
+    return result.rows[0] || null;
+};
+
+// Marks a pending draft as reviewed. Returns whether it was still pending.
+export const closeSpeakerDraft = async (db, id, { status, speakerId = null }) => {
+    const result = await db.query(
+        `UPDATE speaker_drafts SET status = $2, "speakerId" = $3, "reviewedAt" = NOW() WHERE id = $1 AND status = 'pending'`,
+        [id, status, speakerId]
+    );
+    return result.rowCount > 0;
+};
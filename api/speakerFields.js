@@ -0,0 +1,30 @@
+// --- SPEAKER FIELDS ---
+// The editable columns of the `speakers` table, i.e. everything except `id` and `createdBy`.
+
+export const SPEAKER_FIELDS = [
+    'firstName', 'lastName', 'title', 'company', 'businessEmail',
+    'country', 'website', 'fullName', 'isEmailValid', 'isLinkedInValid',
+    'isWebsiteValid', 'extractedRole', 'isCeo', 'isSpeaker',
+    'isAuthor', 'industry', 'personLinkedinUrl', 'stage',
+    'phoneNumber', 'employees', 'location', 'city', 'state',
+    'companyAddress', 'companyCity', 'companyState', 'companyCountry',
+    'companyPhone', 'secondaryEmail', 'speakingTopic', 'speakingLink',
+];
+
+export const BOOLEAN_SPEAKER_FIELDS = ['isEmailValid', 'isLinkedInValid', 'isWebsiteValid', 'isCeo', 'isSpeaker', 'isAuthor'];
+
+// Columns the server computes (see emailVerification.js, urlVerification.js, titleClassification.js and
+// speakerParsing.js), with their value before the first computation. Whatever a client sends for them is ignored.
+const COMPUTED_FIELD_DEFAULTS = {
+    isEmailValid: false, emailCheckReason: null, emailCheckedAt: null,
+    isLinkedInValid: false, linkedinCheckReason: null, isWebsiteValid: false, websiteCheckReason: null, urlsCheckedAt: null,
+    extractedRole: '', seniority: null, isCeo: false, isSpeaker: false, isAuthor: false,
+    parsedFields: {},
+};
+export const COMPUTED_SPEAKER_FIELDS = Object.keys(COMPUTED_FIELD_DEFAULTS);
+
+// `input` with the computed columns taken from the stored speaker `before` (or their defaults, for new speakers).
+export const withStoredComputedFields = (input, before = null) => ({
+    ...input,
+    ...Object.fromEntries(COMPUTED_SPEAKER_FIELDS.map(field => [field, before ? before[field] ?? COMPUTED_FIELD_DEFAULTS[field] : COMPUTED_FIELD_DEFAULTS[field]])),
+});
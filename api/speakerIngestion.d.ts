@@ -0,0 +1,19 @@
+// Types for speakerIngestion.js, which the browser imports as well (see csvImport.ts).
+import type { SpeakerData, ImportField, ColumnMapping } from '../types';
+
+type SpeakerRecord = Omit<SpeakerData, 'id'>;
+
+export declare const IMPORT_FIELD_LABELS: Record<ImportField, string>;
+export declare const cleanHeader: (header: string) => string;
+export declare const normalizeHeader: (header: string) => string;
+export declare const suggestMapping: (headers: string[]) => ColumnMapping;
+export declare const escapeFormula: (value: string) => string;
+export declare const unescapeFormula: (value: string) => string;
+export declare const parseImportBoolean: (value: unknown) => boolean;
+export declare const toSpeakerRecord: (values: Partial<Record<ImportField, unknown>>, defaultOwner: string) => SpeakerRecord;
+export declare const mapCsvRow: (row: { [header: string]: any }, mapping: ColumnMapping, defaultOwner: string) => SpeakerRecord;
+export declare const parseSpeakerCsv: (csvContent: string, defaultOwner: string) => {
+  headers: string[];
+  mapping: ColumnMapping;
+  speakers: SpeakerRecord[];
+};
@@ -0,0 +1,107 @@
+import Papa from 'papaparse';
+import { SPEAKER_FIELDS, BOOLEAN_SPEAKER_FIELDS } from './speakerFields.js';
+
+// --- SPEAKER INGESTION RULES ---
+// How raw imported values become speaker records: which field a CSV header maps to, how flags are
+// read and how a missing full name is filled in. This module is the single source of truth for
+// these rules. The server applies them to raw CSV uploads, and the browser's import wizard imports
+// this same file (typed by speakerIngestion.d.ts), so it must not use anything Node-specific.
+
+// Labels shown in the mapping wizard; they are also the headers of the downloadable template.
+export const IMPORT_FIELD_LABELS = {
+    firstName: 'First Name', lastName: 'Last Name', title: 'Title', company: 'Company',
+    businessEmail: 'Business Email', country: 'Country', website: 'Website', fullName: 'Full Name',
+    isEmailValid: 'Is Email Valid', isLinkedInValid: 'Is LinkedIn Valid', isWebsiteValid: 'Is Website Valid',
+    extractedRole: 'Extracted Role', isCeo: 'Is CEO', isSpeaker: 'Is Speaker', isAuthor: 'Is Author',
+    industry: 'Industry', personLinkedinUrl: 'Person Linkedin Url', stage: 'Stage', phoneNumber: 'Phone Number',
+    employees: 'Employees', location: 'Location', city: 'City', state: 'State',
+    companyAddress: 'Company Address', companyCity: 'Company City', companyState: 'Company State',
+    companyCountry: 'Company Country', companyPhone: 'Company Phone', secondaryEmail: 'Secondary Email',
+    speakingTopic: 'Speaking Topic', speakingLink: 'Speaking Link', createdBy: 'Created By',
+};
+
+const IMPORT_FIELDS = [...SPEAKER_FIELDS, 'createdBy'];
+
+// Values read as true in flag columns (case-insensitive); anything else is false.
+const TRUE_VALUES = ['true', '1', 'yes'];
+
+// Strips a byte order mark and surrounding whitespace, which some spreadsheet exports add to headers.
+export const cleanHeader = (header) => (header.charCodeAt(0) === 0xFEFF ? header.slice(1) : header).trim();
+
+// A simple, predictable normalizer: lowercase and remove all whitespace.
+export const normalizeHeader = (header) => (header || '').toLowerCase().replace(/\s+/g, '');
+
+// Header spellings seen in source files, on top of the field labels and field names themselves.
+const HEADER_ALIASES = {
+    'email': 'businessEmail', 'emailaddress': 'businessEmail', 'workemail': 'businessEmail',
+    'emailvalid': 'isEmailValid', 'linkedvalid': 'isLinkedInValid', 'websitevalid': 'isWebsiteValid',
+    'linkedin': 'personLinkedinUrl', 'linkedinurl': 'personLinkedinUrl',
+    'phone': 'phoneNumber', 'jobtitle': 'title', 'organisation': 'company', 'organization': 'company',
+    'speakinginfotopic': 'speakingTopic', 'speakinginfolink': 'speakingLink',
+};
+
+const DEFAULT_HEADER_MAP = {
+    ...Object.fromEntries(IMPORT_FIELDS.map(field => [normalizeHeader(IMPORT_FIELD_LABELS[field]), field])),
+    ...Object.fromEntries(IMPORT_FIELDS.map(field => [normalizeHeader(field), field])),
+    ...HEADER_ALIASES,
+};
+
+// The mapping used when nobody picked one: header -> field, or null for ignored columns.
+// Only the first column that maps to a field is used; later ones are ignored.
+export const suggestMapping = (headers) => {
+    const used = new Set();
+    const mapping = {};
+    headers.forEach(header => {
+        const field = DEFAULT_HEADER_MAP[normalizeHeader(header)] ?? null;
+        mapping[header] = field && !used.has(field) ? field : null;
+        if (field) used.add(field);
+    });
+    return mapping;
+};
+
+// Spreadsheet programs run a cell starting with one of these as a formula.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// A text value for an exported cell: one that would start a formula gets a leading apostrophe, so scraped or
+// imported data can't run anything in the spreadsheet that opens the export.
+export const escapeFormula = (value) => (FORMULA_START.test(value) ? `'${value}` : value);
+
+// The value escapeFormula was given, so an export can be imported again as it is.
+export const unescapeFormula = (value) => (value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value);
+
+export const parseImportBoolean = (value) => value === true || TRUE_VALUES.includes(String(value ?? '').trim().toLowerCase());
+
+// A complete speaker record from imported values keyed by field. Missing text fields become '',
+// flags are read with parseImportBoolean, the full name falls back to "first last" and the owner
+// to `defaultOwner`; values escaped by an export are unescaped. Records are validated when they are imported
+// (see bulkImport.js).
+export const toSpeakerRecord = (values, defaultOwner) => {
+    const speaker = Object.fromEntries(IMPORT_FIELDS.map(field => [field, values[field] == null ? '' : unescapeFormula(String(values[field]))]));
+    BOOLEAN_SPEAKER_FIELDS.forEach(field => {
+        speaker[field] = parseImportBoolean(values[field]);
+    });
+    speaker.fullName = speaker.fullName || `${speaker.firstName} ${speaker.lastName}`.trim();
+    speaker.createdBy = speaker.createdBy || defaultOwner;
+    return speaker;
+};
+
+// A speaker record from one parsed CSV row, using `mapping` (header -> field or null).
+export const mapCsvRow = (row, mapping, defaultOwner) => {
+    const values = {};
+    Object.entries(mapping).forEach(([header, field]) => {
+        if (field && row[header] !== undefined) values[field] = row[header];
+    });
+    return toSpeakerRecord(values, defaultOwner);
+};
+
+// Parses a whole CSV file with the default mapping. Returns the file's headers and one record per data row.
+export const parseSpeakerCsv = (csvContent, defaultOwner) => {
+    const results = Papa.parse(csvContent, { header: true, skipEmptyLines: true, transformHeader: cleanHeader });
+    const headers = (results.meta.fields || []).filter(header => header !== '');
+    const mapping = suggestMapping(headers);
+    return {
+        headers,
+        mapping,
+        speakers: results.data.map(row => mapCsvRow(row, mapping, defaultOwner)),
+    };
+};
@@ -0,0 +1,95 @@
+import { normalizeName, normalizeCompany, normalizeLinkedin, levenshtein } from './duplicates.js';
+
+// --- EXISTING SPEAKER SUGGESTIONS ---
+// While someone fills in the add-speaker form, the values typed so far are compared with the active
+// speakers, so a person already entered under another email is noticed before the form is complete.
+// Unlike the duplicate scan (duplicates.js), the input is partial: a name word may still be being
+// typed, so the start of a stored word counts as a similar name.
+
+// How strongly each signal suggests the same person; combined as in duplicates.js.
+const SIGNALS = {
+    linkedin: { weight: 0.9, reason: 'Same LinkedIn profile' },
+    name: { weight: 0.5, reason: 'Same name' },
+    similarName: { weight: 0.3, reason: 'Similar name' },
+    company: { weight: 0.4, reason: 'Same company' },
+    website: { weight: 0.3, reason: 'Same website' },
+};
+
+const MIN_NAME_TOKEN_LENGTH = 3; // Shorter name words match too many rows to search on
+const CANDIDATE_LIMIT = 200;
+const DEFAULT_LIMIT = 5;
+
+// The host of a URL without "www.", e.g. "https://www.example.com/about" -> "example.com".
+const normalizeWebsite = (value) =>
+    String(value || '').trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split(/[/?#:]/)[0];
+
+const escapeLike = (value) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const typedName = (values) => normalizeName(values.fullName || `${values.firstName || ''} ${values.lastName || ''}`);
+
+// Whether a typed word matches a stored one: equal, the start of it, or off by a typo in a longer word.
+const tokenMatches = (typed, stored) =>
+    typed === stored
+    || (typed.length >= 2 && stored.startsWith(typed))
+    || (Math.min(typed.length, stored.length) >= 5 && levenshtein(typed, stored) <= 1);
+
+// 'name' when the names are the same, 'similarName' when every typed word matches a stored one, otherwise null.
+const compareNames = (typedTokens, storedName) => {
+    if (typedTokens.length === 0 || !storedName) return null;
+    if (typedTokens.join(' ') === storedName) return 'name';
+    const storedTokens = storedName.split(' ');
+    return typedTokens.every(token => storedTokens.some(stored => tokenMatches(token, stored)))
+        ? 'similarName'
+        : null;
+};
+
+// The signals that `row` matches the typed values on. A shared company or website only counts next to a name match.
+const matchSignals = (typed, row) => {
+    const signals = [];
+    if (typed.linkedin && normalizeLinkedin(row.personLinkedinUrl) === typed.linkedin) signals.push('linkedin');
+    const nameSignal = compareNames(typed.nameTokens, normalizeName(row.fullName || `${row.firstName || ''} ${row.lastName || ''}`));
+    if (nameSignal) {
+        signals.push(nameSignal);
+        if (typed.company && normalizeCompany(row.company) === typed.company) signals.push('company');
+        if (typed.website && normalizeWebsite(row.website) === typed.website) signals.push('website');
+    }
+    // A lone word of a name is too weak on its own
+    if (nameSignal === 'similarName' && typed.nameTokens.length < 2 && signals.length === 1) return [];
+    return signals;
+};
+
+// Active speakers that look like the person described by `values` (any of fullName, firstName,
+// lastName, company, personLinkedinUrl, website), best first. Returns [{ speaker, score, reasons }].
+export const findSpeakerMatches = async (db, values, { excludeId = null, limit = DEFAULT_LIMIT } = {}) => {
+    const nameTokens = typedName(values).split(' ').filter(Boolean);
+    const typed = {
+        linkedin: normalizeLinkedin(values.personLinkedinUrl),
+        nameTokens,
+        company: normalizeCompany(values.company),
+        website: normalizeWebsite(values.website),
+    };
+    // Narrow down in SQL on the LinkedIn profile or the longest name word; the scoring happens below.
+    const searchToken = [...nameTokens].sort((a, b) => b.length - a.length)[0] || '';
+    const linkedinPattern = typed.linkedin ? `%linkedin.com/in/${escapeLike(typed.linkedin)}%` : null;
+    const namePattern = searchToken.length >= MIN_NAME_TOKEN_LENGTH ? `%${escapeLike(searchToken)}%` : null;
+    if (!linkedinPattern && !namePattern) return [];
+
+    const result = await db.query(
+        `SELECT * FROM speakers
+         WHERE "deletedAt" IS NULL AND ($1::text IS NULL OR id <> $1)
+           AND (lower("personLinkedinUrl") LIKE $2
+                OR lower(COALESCE("fullName", '') || ' ' || COALESCE("firstName", '') || ' ' || COALESCE("lastName", '')) LIKE $3)
+         LIMIT $4`,
+        [excludeId, linkedinPattern, namePattern, CANDIDATE_LIMIT]
+    );
+
+    return result.rows
+        .map(row => {
+            const signals = matchSignals(typed, row);
+            const score = 1 - signals.reduce((rest, signal) => rest * (1 - SIGNALS[signal].weight), 1);
+            return { speaker: row, score: Math.round(score * 1000) / 1000, reasons: signals.map(signal => SIGNALS[signal].reason) };
+        })
+        .filter(match => match.reasons.length > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
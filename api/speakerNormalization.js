@@ -0,0 +1,119 @@
+import { parsePhoneNumberFromString, getCountries } from 'libphonenumber-js';
+
+// --- SPEAKER NORMALIZATION ---
+// Values are stored in one canonical shape, whichever form or file they came from:
+//   emails       - trimmed and lowercased
+//   website      - an absolute URL with a lowercase host and no trailing slash or fragment
+//   LinkedIn URL - https://www.linkedin.com/in/<profile>
+//   phones       - E.164 ("+14155550132"), read in the speaker's (company) country when there is no prefix
+//   countries    - the English ISO 3166 name ("USA" -> "United States"), with the two-letter code
+//                  stored next to it in "countryCode" / "companyCountryCode"
+// Values that can't be read (an unknown country, a number that is too short) are only trimmed.
+// Whenever the stored value differs from what was entered, the entered value is kept in the
+// speaker's "rawValues", so the original input can still be audited.
+
+const EMAIL_FIELDS = ['businessEmail', 'secondaryEmail'];
+
+// Spellings that aren't the ISO name or code. Keys are in the form produced by `countryKey`.
+const COUNTRY_ALIASES = {
+    usa: 'US', america: 'US', unitedstatesofamerica: 'US',
+    uk: 'GB', greatbritain: 'GB', britain: 'GB', england: 'GB', scotland: 'GB', wales: 'GB', northernireland: 'GB',
+    uae: 'AE', emirates: 'AE', korea: 'KR', republicofkorea: 'KR', northkorea: 'KP', russianfederation: 'RU',
+    turkey: 'TR', holland: 'NL', thenetherlands: 'NL', czechrepublic: 'CZ', burma: 'MM', ivorycoast: 'CI',
+    deutschland: 'DE', espana: 'ES', prc: 'CN', mainlandchina: 'CN', swaziland: 'SZ', macedonia: 'MK',
+};
+
+// Lowercase letters only, without accents, so "U.S.", "us" and "US" are the same key.
+const countryKey = (value) => String(value || '').normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+let countryIndex = null; // key -> ISO code, built on first use
+
+const getCountryIndex = () => {
+    if (countryIndex) return countryIndex;
+    const names = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+    countryIndex = new Map(Object.entries(COUNTRY_ALIASES));
+    getCountries().forEach(code => {
+        const name = names.of(code);
+        if (name) countryIndex.set(countryKey(name), code);
+        countryIndex.set(code.toLowerCase(), code);
+    });
+    return countryIndex;
+};
+
+// { code, name } for a country written as its name, code or a common alias; null if unknown.
+export const resolveCountry = (value) => {
+    const code = getCountryIndex().get(countryKey(value));
+    if (!code) return null;
+    return { code, name: new Intl.DisplayNames(['en'], { type: 'region' }).of(code) };
+};
+
+export const normalizeEmail = (value) => String(value ?? '').trim().toLowerCase();
+
+// An absolute URL with a lowercase host, without fragment or trailing slash; "https://" when no scheme is given.
+export const canonicalizeUrl = (value) => {
+    const trimmed = String(value ?? '').trim();
+    if (!trimmed) return '';
+    try {
+        const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+        if (!url.hostname.includes('.')) return trimmed;
+        url.hash = '';
+        return url.search ? url.toString() : url.toString().replace(/\/+$/, '');
+    } catch {
+        return trimmed;
+    }
+};
+
+export const canonicalizeLinkedinUrl = (value) => {
+    const match = String(value ?? '').trim().match(/linkedin\.com\/in\/([^/?#\s]+)/i);
+    return match ? `https://www.linkedin.com/in/${match[1].toLowerCase()}` : canonicalizeUrl(value);
+};
+
+// E.164 when the number can be read, in `countryCode` unless it starts with an international prefix.
+export const formatPhoneE164 = (value, countryCode) => {
+    const trimmed = String(value ?? '').trim();
+    if (!trimmed) return '';
+    const phone = parsePhoneNumberFromString(trimmed.replace(/^00/, '+'), countryCode || undefined);
+    return phone && phone.isPossible() ? phone.number : trimmed;
+};
+
+const canonicalCountry = (value) => {
+    const trimmed = String(value ?? '').trim();
+    return resolveCountry(trimmed)?.name ?? trimmed;
+};
+
+// The two-letter code of a stored country value, for the "countryCode" columns.
+export const countryCodeOf = (value) => resolveCountry(value)?.code ?? null;
+
+// Stored values and entered values differ only in how "no value" is written.
+const sameValue = (a, b) => (a ?? '') === (b ?? '');
+
+// Returns a copy of `input` with its fields in canonical form and "rawValues" updated. `before` is the
+// stored speaker for updates: its raw values are carried over for fields that keep their value.
+export const normalizeSpeaker = (input, before = null) => {
+    const countryCode = countryCodeOf(input.country);
+    const companyCountryCode = countryCodeOf(input.companyCountry) || countryCode;
+    const normalizers = {
+        ...Object.fromEntries(EMAIL_FIELDS.map(field => [field, normalizeEmail])),
+        website: canonicalizeUrl,
+        personLinkedinUrl: canonicalizeLinkedinUrl,
+        phoneNumber: value => formatPhoneE164(value, countryCode),
+        companyPhone: value => formatPhoneE164(value, companyCountryCode),
+        country: canonicalCountry,
+        companyCountry: canonicalCountry,
+    };
+
+    const normalized = { ...input };
+    const rawValues = { ...(before?.rawValues || {}) };
+    Object.entries(normalizers).forEach(([field, normalize]) => {
+        if (!(field in input)) return;
+        const entered = input[field];
+        normalized[field] = entered === null || entered === undefined ? entered : normalize(entered);
+        if (typeof entered === 'string' && entered !== normalized[field]) {
+            rawValues[field] = entered;
+        } else if (before && !sameValue(before[field], normalized[field])) {
+            delete rawValues[field]; // Replaced by a value that was entered in canonical form
+        }
+    });
+    normalized.rawValues = rawValues;
+    return normalized;
+};
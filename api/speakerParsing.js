@@ -0,0 +1,179 @@
+import { resolveCountry } from './speakerNormalization.js';
+import { REGIONS, CITIES } from './gazetteer.js';
+
+// --- NAME AND LOCATION PARSING ---
+// Structured fields a speaker is missing are filled in from the free-text ones:
+//   fullName  -> firstName, lastName   (honorifics and suffixes dropped, "van der Berg" kept as one surname)
+//   firstName + lastName -> fullName   (when there is no full name)
+//   location  -> city, state, country  (read with the offline gazetteer, see gazetteer.js)
+// A value is only ever written into a field that is empty or that the parser filled itself; a value a person
+// entered is never overwritten. Every filled field is recorded in the speaker's "parsedFields"
+// (field -> { source, confidence }). A person changing the value, or confirming it as reviewed, turns it into
+// an entered value. Parses that had to guess (a middle name, a city looked up without its country, ...) are
+// `low` confidence, which the speaker lists flag for review.
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'professor', 'sir', 'dame', 'lord', 'lady', 'rev', 'fr', 'hon', 'capt', 'col', 'gen', 'sen', 'rep']);
+const SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v', 'phd', 'md', 'mba', 'esq', 'cpa', 'cfa', 'pe', 'jd', 'dds', 'rn', 'obe', 'mbe', 'cbe', 'kbe', 'frs', 'msc', 'bsc', 'ma', 'ba']);
+// Words that start a multi-part surname: "Ludwig van Beethoven", "Maria de la Cruz"
+const SURNAME_PARTICLES = new Set(['van', 'von', 'de', 'der', 'den', 'del', 'della', 'di', 'da', 'du', 'la', 'le', 'dos', 'das', 'do', 'ter', 'ten', 'bin', 'binti', 'al', 'el', 'st', 'mac']);
+
+const tokenKey = (token) => token.toLowerCase().replace(/\./g, '');
+
+// { firstName, lastName, confidence } for a full name, or null if it has no name in it.
+export const parseFullName = (value) => {
+    let text = String(value ?? '').replace(/\([^)]*\)|"[^"]*"/g, ' ').trim(); // Nicknames
+    let confidence = 'high';
+    // "Doe, Jane" - unless what follows the comma is a suffix ("Jane Doe, PhD")
+    const commaParts = text.split(',').map(part => part.trim()).filter(Boolean);
+    if (commaParts.length === 2 && !commaParts[1].split(/\s+/).every(token => SUFFIXES.has(tokenKey(token)))) {
+        text = `${commaParts[1]} ${commaParts[0]}`;
+    } else {
+        text = commaParts.join(' ');
+    }
+    const tokens = text.split(/\s+/).filter(Boolean);
+    while (tokens.length > 1 && HONORIFICS.has(tokenKey(tokens[0]))) tokens.shift();
+    while (tokens.length > 1 && SUFFIXES.has(tokenKey(tokens[tokens.length - 1]))) tokens.pop();
+    if (tokens.length === 0) return null;
+    if (tokens.length === 1) return { firstName: tokens[0], lastName: '', confidence: 'low' };
+
+    const particleAt = tokens.findIndex((token, index) => index > 0 && index < tokens.length - 1 && SURNAME_PARTICLES.has(tokenKey(token)));
+    const surnameStart = particleAt > 0 ? particleAt : tokens.length - 1;
+    if (surnameStart > 1) confidence = 'low'; // Middle names, or a second surname?
+    if (tokens.some(token => /^[a-z]\.?$/i.test(token))) confidence = 'low'; // Initials
+    return { firstName: tokens.slice(0, surnameStart).join(' '), lastName: tokens.slice(surnameStart).join(' '), confidence };
+};
+
+const placeKey = (value) => String(value ?? '').normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+let placeIndex = null; // built on first use
+
+const getPlaceIndex = () => {
+    if (placeIndex) return placeIndex;
+    const regionsByName = new Map(); // key -> [{ country, code, name }]
+    const regionsByCode = new Map();
+    Object.entries(REGIONS).forEach(([country, regions]) => {
+        Object.entries(regions).forEach(([code, name]) => {
+            const region = { country, code, name };
+            [[regionsByName, placeKey(name)], [regionsByCode, placeKey(code)]].forEach(([index, key]) => {
+                index.set(key, [...(index.get(key) || []), region]);
+            });
+        });
+    });
+    const cities = new Map(); // key -> [{ name, country, region }]
+    CITIES.forEach(([name, country, region, aliases]) => {
+        [name, ...aliases].forEach(spelling => {
+            const key = placeKey(spelling);
+            cities.set(key, [...(cities.get(key) || []), { name, country, region }]);
+        });
+    });
+    placeIndex = { regionsByName, regionsByCode, cities };
+    return placeIndex;
+};
+
+const countryName = (code) => resolveCountry(code)?.name ?? '';
+
+// { city, state, country, confidence } for a location like "Austin, TX, USA", or null if nothing in it is recognized.
+export const parseLocation = (value) => {
+    let text = String(value ?? '').trim();
+    let confidence = 'high';
+    // LinkedIn-style areas: "Greater Boston Area", "San Francisco Bay Area"
+    const area = text.replace(/^greater\s+/i, '').replace(/\s+(metropolitan|metro|bay)?\s*area$/i, '');
+    if (area !== text) {
+        text = area;
+        confidence = 'low';
+    }
+    const parts = text.split(/\s*[,;|/]\s*/).filter(Boolean);
+    if (parts.length === 0) return null;
+    const { regionsByName, regionsByCode, cities } = getPlaceIndex();
+
+    let country = null;
+    const lastPart = parts[parts.length - 1];
+    const lastCountry = resolveCountry(lastPart);
+    if (lastCountry) {
+        const lastKey = placeKey(lastPart);
+        const cityKey = parts.length > 1 ? placeKey(parts[parts.length - 2]) : null;
+        // "Springfield, IL" is in Illinois, "Tel Aviv, IL" in Israel: a code that is also a region code is read
+        // as the country only when the city before it is known to be there.
+        const isRegionCode = cityKey !== null && regionsByCode.has(lastKey)
+            && !(cities.get(cityKey) || []).some(city => city.country === lastCountry.code);
+        const isRegionName = cityKey === null && regionsByName.has(lastKey); // "Georgia"
+        if (isRegionCode || isRegionName) {
+            confidence = 'low';
+        } else {
+            country = lastCountry.code;
+            if (lastKey.length <= 3 && cityKey === null) confidence = 'low'; // A code on its own: "LA"
+            parts.pop();
+        }
+    }
+
+    // Region codes only count after a city ("Austin, TX"): on their own they are too ambiguous ("LA")
+    let region = null;
+    if (parts.length > 0) {
+        const key = placeKey(parts[parts.length - 1]);
+        const candidates = [...(regionsByName.get(key) || []), ...(parts.length > 1 ? regionsByCode.get(key) || [] : [])]
+            .filter(candidate => !country || candidate.country === country);
+        if (candidates.length > 0) {
+            const cityKey = parts.length > 1 ? placeKey(parts[parts.length - 2]) : null;
+            const inCity = candidates.find(candidate => (cities.get(cityKey) || []).some(city => city.country === candidate.country && city.region === candidate.code));
+            region = inCity || candidates[0];
+            if (!inCity && new Set(candidates.map(candidate => candidate.country)).size > 1) confidence = 'low';
+            country = country || region.country;
+            parts.pop();
+        }
+    }
+
+    let city = null;
+    if (parts.length > 0) {
+        if (parts.length > 1) confidence = 'low'; // "Manhattan, New York, NY": the part next to the state is the city
+        const cityPart = parts[parts.length - 1];
+        const known = (cities.get(placeKey(cityPart)) || []).filter(candidate => (!country || candidate.country === country) && (!region || !candidate.region || candidate.region === region.code));
+        if (known.length > 0) {
+            city = known[0].name;
+            if (!country) {
+                country = known[0].country; // Looked up: "London" may be the one in Ontario
+                confidence = 'low';
+            }
+            if (!region && known[0].region) region = { country, code: known[0].region, name: REGIONS[country][known[0].region] };
+        } else if (country || region) {
+            city = cityPart;
+        } else {
+            return null;
+        }
+    }
+
+    if (!country && !region && !city) return null;
+    return { city: city || '', state: region ? region.name : '', country: country ? countryName(country) : '', confidence };
+};
+
+const isBlank = (value) => value === null || value === undefined || String(value).trim() === '';
+const sameValue = (a, b) => (a ?? '') === (b ?? '');
+
+// `speaker` with its missing name and location fields filled in, and "parsedFields" updated. `before` is the
+// stored speaker for updates; `reviewed` lists parsed fields a person confirmed.
+export const withParsedFields = (speaker, before = null, reviewed = []) => {
+    const markers = { ...(before?.parsedFields || {}) };
+    Object.keys(markers).forEach(field => {
+        if (!before || !sameValue(before[field], speaker[field]) || reviewed.includes(field)) delete markers[field];
+    });
+    const parsed = { ...speaker };
+    const fill = (values, source, confidence) => {
+        Object.entries(values).forEach(([field, value]) => {
+            if (isBlank(value) || !(isBlank(parsed[field]) || field in markers)) return;
+            parsed[field] = value;
+            markers[field] = { source, confidence };
+        });
+    };
+
+    const hasParts = !isBlank(parsed.firstName) || !isBlank(parsed.lastName);
+    if (hasParts && (isBlank(parsed.fullName) || 'fullName' in markers)) {
+        fill({ fullName: `${parsed.firstName || ''} ${parsed.lastName || ''}`.trim() }, 'name', 'high');
+    } else if (!isBlank(parsed.fullName)) {
+        const name = parseFullName(parsed.fullName);
+        if (name) fill({ firstName: name.firstName, lastName: name.lastName }, 'fullName', name.confidence);
+    }
+    if (!isBlank(parsed.location)) {
+        const place = parseLocation(parsed.location);
+        if (place) fill({ city: place.city, state: place.state, country: place.country }, 'location', place.confidence);
+    }
+    return { ...parsed, parsedFields: markers };
+};
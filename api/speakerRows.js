@@ -0,0 +1,72 @@
+import { countryCodeOf } from './speakerNormalization.js';
+
+// --- SPEAKER ROW WRITES ---
+// The INSERT and UPDATE statements shared by the single-speaker routes and the bulk import.
+// Callers record the matching history entries (see history.js) and normalize new input first
+// (see speakerNormalization.js); the country codes are always derived from the stored countries.
+
+// Writes every editable field of a speaker. This is a fully explicit query to prevent any dynamic logic errors.
+export const updateSpeakerRow = async (db, id, s) => {
+    const query = `
+        UPDATE speakers SET
+            "firstName"=$1, "lastName"=$2, "title"=$3, "company"=$4, "businessEmail"=$5,
+            "country"=$6, "website"=$7, "fullName"=$8, "isEmailValid"=$9, "isLinkedInValid"=$10,
+            "isWebsiteValid"=$11, "extractedRole"=$12, "isCeo"=$13, "isSpeaker"=$14,
+            "isAuthor"=$15, "industry"=$16, "personLinkedinUrl"=$17, "stage"=$18,
+            "phoneNumber"=$19, "employees"=$20, "location"=$21, "city"=$22, "state"=$23,
+            "companyAddress"=$24, "companyCity"=$25, "companyState"=$26, "companyCountry"=$27,
+            "companyPhone"=$28, "secondaryEmail"=$29, "speakingTopic"=$30, "speakingLink"=$31,
+            "countryCode"=$32, "companyCountryCode"=$33, "rawValues"=$34,
+            "emailCheckReason"=$35, "emailCheckedAt"=$36,
+            "linkedinCheckReason"=$37, "websiteCheckReason"=$38, "urlsCheckedAt"=$39, "seniority"=$40,
+            "parsedFields"=$41, "titleFlagOverrides"=$42,
+            version = version + 1
+        WHERE id=$43
+        RETURNING *;
+    `;
+    const values = [
+        s.firstName, s.lastName, s.title, s.company, s.businessEmail,
+        s.country, s.website, s.fullName, s.isEmailValid, s.isLinkedInValid,
+        s.isWebsiteValid, s.extractedRole, s.isCeo, s.isSpeaker,
+        s.isAuthor, s.industry, s.personLinkedinUrl, s.stage,
+        s.phoneNumber, s.employees, s.location, s.city, s.state,
+        s.companyAddress, s.companyCity, s.companyState, s.companyCountry,
+        s.companyPhone, s.secondaryEmail, s.speakingTopic, s.speakingLink,
+        countryCodeOf(s.country), countryCodeOf(s.companyCountry), s.rawValues || {},
+        s.emailCheckReason ?? null, s.emailCheckedAt ?? null,
+        s.linkedinCheckReason ?? null, s.websiteCheckReason ?? null, s.urlsCheckedAt ?? null, s.seniority ?? null,
+        s.parsedFields || {}, s.titleFlagOverrides || {},
+        id
+    ];
+    const result = await db.query(query, values);
+    return result.rows[0] || null;
+};
+
+// Inserts many speakers in one statement, skipping any whose business email is already taken.
+// Returns the inserted rows. Keep batches small enough to stay under the query parameter limit.
+// `importBatchId` stamps the rows with the import they came from.
+export const insertSpeakerRows = async (db, batch, importBatchId = null) => {
+    const valuesClause = [];
+    const queryParams = [];
+    let paramIndex = 1;
+
+    batch.forEach(s => {
+        const newId = `speaker-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+        const rowParams = [
+            newId, s.createdBy, s.firstName, s.lastName, s.title, s.company, s.businessEmail, s.country, s.website, s.fullName, s.isEmailValid, s.isLinkedInValid, s.isWebsiteValid, s.extractedRole, s.isCeo, s.isSpeaker, s.isAuthor, s.industry, s.personLinkedinUrl, s.stage, s.phoneNumber, s.employees, s.location, s.city, s.state, s.companyAddress, s.companyCity, s.companyState, s.companyCountry, s.companyPhone, s.secondaryEmail, s.speakingTopic, s.speakingLink,
+            countryCodeOf(s.country), countryCodeOf(s.companyCountry), s.rawValues || {},
+            s.linkedinCheckReason ?? null, s.websiteCheckReason ?? null, s.urlsCheckedAt ?? null, s.seniority ?? null, s.parsedFields || {}, s.titleFlagOverrides || {}, importBatchId
+        ];
+        const paramPlaceholders = rowParams.map(() => `$${paramIndex++}`);
+        valuesClause.push(`(${paramPlaceholders.join(', ')})`);
+        queryParams.push(...rowParams);
+    });
+
+    const result = await db.query(`
+        INSERT INTO speakers (id, "createdBy", "firstName", "lastName", "title", "company", "businessEmail", "country", "website", "fullName", "isEmailValid", "isLinkedInValid", "isWebsiteValid", "extractedRole", "isCeo", "isSpeaker", "isAuthor", "industry", "personLinkedinUrl", "stage", "phoneNumber", "employees", "location", "city", "state", "companyAddress", "companyCity", "companyState", "companyCountry", "companyPhone", "secondaryEmail", "speakingTopic", "speakingLink", "countryCode", "companyCountryCode", "rawValues", "linkedinCheckReason", "websiteCheckReason", "urlsCheckedAt", "seniority", "parsedFields", "titleFlagOverrides", "importBatchId")
+        VALUES ${valuesClause.join(', ')}
+        ON CONFLICT (LOWER("businessEmail")) WHERE "deletedAt" IS NULL AND "businessEmail" <> '' DO NOTHING
+        RETURNING *;
+    `, queryParams);
+    return result.rows;
+};
@@ -0,0 +1,151 @@
+import { recordSpeakerChange } from './history.js';
+
+// --- TITLE CLASSIFICATION ---
+// "extractedRole", "seniority", "isCeo", "isSpeaker" and "isAuthor" are derived from the speaker's free-text
+// title by the rules in the `title_rules` table, which admins edit. A rule is a phrase looked for in the title
+// as whole words, after both are normalized ("Co-Founder & Chief Executive" reads "co founder and chief executive",
+// "C.E.O." reads "ceo"), and what a title containing it means:
+//   role, seniority - the normalized role and seniority band; of the matching rules with a role, the one with the
+//                     lowest priority decides, e.g. "CEO/Founder" is a CEO because "ceo" comes before "founder"
+//   isCeo           - whether that role is the chief executive
+//   isSpeaker, isAuthor - set by any matching rule, with or without a role ("Keynote Speaker", "Bestselling Author")
+// A title matching no rule leaves the role empty and every flag unset.
+// The speaker and author flags can also be set by hand, as "titleFlagOverrides" ({ isSpeaker: true }, ...): an
+// overridden flag keeps its value whatever the title and the rules say. A flag missing there follows the title.
+// Titles are classified on every write that changes them (see computedFields.js); after the rules change,
+// existing speakers are reclassified with `reclassifySpeakers`.
+
+export const SENIORITY_BANDS = ['executive', 'vicePresident', 'director', 'manager', 'individual'];
+
+const OVERRIDABLE_FLAGS = ['isSpeaker', 'isAuthor'];
+
+const MAX_PHRASE_LENGTH = 100;
+const MAX_ROLE_LENGTH = 60;
+const MAX_PRIORITY = 1000;
+
+// Lowercase words separated by single spaces; dots inside abbreviations are dropped and "&" reads "and".
+export const normalizeTitle = (value) => String(value ?? '')
+    .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Returns an error message, or null if the rule can be saved.
+export const checkTitleRule = ({ phrase, role, seniority, isCeo, isSpeaker, isAuthor, priority }) => {
+    if (typeof phrase !== 'string' || !normalizeTitle(phrase)) return 'The phrase is required.';
+    if (phrase.trim().length > MAX_PHRASE_LENGTH) return `The phrase must be at most ${MAX_PHRASE_LENGTH} characters.`;
+    if (role !== null && role !== undefined && typeof role !== 'string') return 'The role must be text.';
+    const hasRole = typeof role === 'string' && role.trim() !== '';
+    if (hasRole && role.trim().length > MAX_ROLE_LENGTH) return `The role must be at most ${MAX_ROLE_LENGTH} characters.`;
+    if (seniority !== null && seniority !== undefined && !SENIORITY_BANDS.includes(seniority)) return `Unknown seniority "${seniority}".`;
+    if (!hasRole && (seniority || isCeo)) return 'A seniority or the CEO flag needs a role.';
+    if (!hasRole && !isSpeaker && !isAuthor) return 'The rule must set a role or a flag.';
+    if (!Number.isInteger(priority) || priority < 0 || priority > MAX_PRIORITY) return `The priority must be a whole number from 0 to ${MAX_PRIORITY}.`;
+    return null;
+};
+
+// Rules in the order they are applied.
+export const listTitleRules = async (db) => {
+    const result = await db.query('SELECT * FROM title_rules ORDER BY priority, id');
+    return result.rows;
+};
+
+const ruleValues = ({ phrase, role, seniority, isCeo, isSpeaker, isAuthor, priority }) => [
+    normalizeTitle(phrase), typeof role === 'string' && role.trim() ? role.trim() : null, seniority || null,
+    Boolean(isCeo), Boolean(isSpeaker), Boolean(isAuthor), priority,
+];
+
+export const createTitleRule = async (db, rule, actor) => {
+    const result = await db.query(
+        `INSERT INTO title_rules (phrase, role, seniority, "isCeo", "isSpeaker", "isAuthor", priority, "updatedBy")
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+        [...ruleValues(rule), actor]
+    );
+    return result.rows[0];
+};
+
+// Returns the updated rule, or null if there is none with this id.
+export const updateTitleRule = async (db, id, rule, actor) => {
+    const result = await db.query(
+        `UPDATE title_rules SET phrase = $2, role = $3, seniority = $4, "isCeo" = $5, "isSpeaker" = $6, "isAuthor" = $7,
+            priority = $8, "updatedBy" = $9, "updatedAt" = NOW()
+         WHERE id = $1 RETURNING *`,
+        [id, ...ruleValues(rule), actor]
+    );
+    return result.rows[0] || null;
+};
+
+// Returns whether a rule was deleted.
+export const deleteTitleRule = async (db, id) => {
+    const result = await db.query('DELETE FROM title_rules WHERE id = $1', [id]);
+    return result.rowCount > 0;
+};
+
+// The flag overrides sent in a request, keeping only true or false for the flags that can be overridden;
+// null when none were sent.
+export const readTitleFlagOverrides = (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    return Object.fromEntries(OVERRIDABLE_FLAGS.filter(flag => typeof value[flag] === 'boolean').map(flag => [flag, value[flag]]));
+};
+
+const sameOverrides = (a, b) => OVERRIDABLE_FLAGS.every(flag => (a || {})[flag] === (b || {})[flag]);
+
+// The fields derived from `title` by `rules` (as returned by listTitleRules), with the flags in `overrides`.
+export const classifyTitle = (title, rules, overrides = {}) => {
+    const padded = ` ${normalizeTitle(title)} `;
+    const matching = padded.trim() ? rules.filter(rule => padded.includes(` ${rule.phrase} `)) : [];
+    const roleRule = matching.find(rule => rule.role);
+    return {
+        extractedRole: roleRule ? roleRule.role : '',
+        seniority: roleRule ? roleRule.seniority : null,
+        isCeo: Boolean(roleRule && roleRule.isCeo),
+        isSpeaker: overrides.isSpeaker ?? matching.some(rule => rule.isSpeaker),
+        isAuthor: overrides.isAuthor ?? matching.some(rule => rule.isAuthor),
+    };
+};
+
+// `speaker` with the fields derived from its title: kept from `before` while the title and the flag overrides are
+// the same, otherwise classified with `rules`. `overrides` (see readTitleFlagOverrides) replace the stored ones;
+// without them, the stored ones are kept.
+export const withTitleClassification = (speaker, before, rules, overrides = null) => {
+    const titleFlagOverrides = overrides ?? before?.titleFlagOverrides ?? {};
+    if (before && (before.title ?? '') === (speaker.title ?? '') && sameOverrides(before.titleFlagOverrides, titleFlagOverrides)) {
+        return { ...speaker, titleFlagOverrides };
+    }
+    return { ...speaker, titleFlagOverrides, ...classifyTitle(speaker.title, rules, titleFlagOverrides) };
+};
+
+export const RECLASSIFY_PAGE_SIZE = 500;
+
+const CLASSIFIED_FIELDS = ['extractedRole', 'seniority', 'isCeo', 'isSpeaker', 'isAuthor'];
+
+// Reclassifies the titles of the next page of active speakers, in id order after `afterId`, with the current
+// rules. Speakers whose derived fields change are updated, with a new version and a history entry. `db` must be
+// a transaction client. Returns { scannedCount, updatedCount, nextAfterId }; nextAfterId is null after the last page.
+export const reclassifySpeakers = async (db, afterId, actor) => {
+    const rules = await listTitleRules(db);
+    const page = await db.query(
+        `SELECT * FROM speakers WHERE "deletedAt" IS NULL AND ($1::text IS NULL OR id > $1) ORDER BY id LIMIT ${RECLASSIFY_PAGE_SIZE} FOR UPDATE`,
+        [afterId || null]
+    );
+    let updatedCount = 0;
+    for (const before of page.rows) {
+        const derived = classifyTitle(before.title, rules, before.titleFlagOverrides);
+        if (CLASSIFIED_FIELDS.every(field => (before[field] ?? '') === (derived[field] ?? ''))) continue;
+        const written = await db.query(
+            `UPDATE speakers SET "extractedRole" = $2, seniority = $3, "isCeo" = $4, "isSpeaker" = $5, "isAuthor" = $6, version = version + 1
+             WHERE id = $1 RETURNING *`,
+            [before.id, derived.extractedRole, derived.seniority, derived.isCeo, derived.isSpeaker, derived.isAuthor]
+        );
+        await recordSpeakerChange(db, { speakerId: before.id, action: 'update', actor, before, after: written.rows[0] });
+        updatedCount += 1;
+    }
+    const lastRow = page.rows[page.rows.length - 1];
+    return {
+        scannedCount: page.rows.length,
+        updatedCount,
+        nextAfterId: page.rows.length === RECLASSIFY_PAGE_SIZE ? lastRow.id : null,
+    };
+};
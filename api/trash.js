@@ -0,0 +1,30 @@
+import { recordSpeakerChange } from './history.js';
+
+// --- TRASH ---
+// Deleting a speaker only sets "deletedAt"; the row stays in the trash, out of every list,
+// export and duplicate check, until an admin restores or purges it. Rows that stay in the
+// trash longer than the retention period are purged automatically.
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+export const listTrashedSpeakers = async (db) => {
+    const result = await db.query(
+        `SELECT *, "deletedAt" + ($1 * INTERVAL '1 day') AS "purgeAt" FROM speakers
+         WHERE "deletedAt" IS NOT NULL ORDER BY "deletedAt" DESC`,
+        [TRASH_RETENTION_DAYS]
+    );
+    return result.rows;
+};
+
+// Permanently removes trashed rows past the retention period. Returns how many were purged.
+// `db` should be a transaction client, so the rows and their history entries go together.
+export const purgeExpiredTrash = async (db) => {
+    const result = await db.query(
+        `DELETE FROM speakers WHERE "deletedAt" IS NOT NULL AND "deletedAt" < NOW() - ($1 * INTERVAL '1 day') RETURNING *`,
+        [TRASH_RETENTION_DAYS]
+    );
+    for (const row of result.rows) {
+        await recordSpeakerChange(db, { speakerId: row.id, action: 'purge', actor: null, before: row });
+    }
+    return result.rowCount;
+};
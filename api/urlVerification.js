@@ -0,0 +1,169 @@
+import { recordSpeakerChange } from './history.js';
+import { isFreeMailDomain } from './emailVerification.js';
+import { fetchPublic } from './publicNetwork.js';
+
+// --- URL VERIFICATION ---
+// "isLinkedInValid" and "isWebsiteValid" are computed here rather than ticked by hand:
+//   LinkedIn URL - must be a person's profile (linkedin.com/in/<profile>), not a company page, a search or a post
+//   website      - must be a web address on the same domain as the business email (unless that is a
+//                  free-mail address), and, when probed, must answer
+// The format checks are cheap and run on every write (see computedFields.js). Probing a website over HTTP is
+// slow, so it only happens when an admin re-verifies speakers. Probes go through a replaceable fetcher (see
+// setUrlFetcher), so tests can point them at a local fixture server or a stub.
+// Each outcome is stored with a reason: "linkedinCheckReason" and "websiteCheckReason", with "urlsCheckedAt".
+
+const PROBE_TIMEOUT_MS = 4000;
+const PROBE_CONCURRENCY = 8;
+
+// Second-level labels under which organisations register their domains, e.g. "example.co.uk".
+const SECOND_LEVEL_LABELS = new Set(['ac', 'co', 'com', 'edu', 'gov', 'net', 'org', 'ne', 'or']);
+
+// "mail.example.co.uk" -> "example.co.uk"
+const registrableDomain = (host) => {
+    const labels = host.toLowerCase().replace(/^www\./, '').split('.');
+    const size = labels.length >= 3 && labels[labels.length - 1].length === 2 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]) ? 3 : 2;
+    return labels.slice(-size).join('.');
+};
+
+const parseUrl = (value) => {
+    const trimmed = String(value || '').trim();
+    if (!trimmed) return null;
+    try {
+        const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+        return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.') ? url : null;
+    } catch {
+        return null;
+    }
+};
+
+// Resolves a URL to { status } (the HTTP status of the response after redirects), or throws if nothing answered.
+// Only sites on the public internet are probed (see publicNetwork.js).
+const httpFetcher = async (url) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    try {
+        let { response } = await fetchPublic(url, { method: 'HEAD', signal: controller.signal });
+        if (response.status === 405 || response.status === 501) {
+            ({ response } = await fetchPublic(url, { method: 'GET', signal: controller.signal }));
+        }
+        await response.body?.cancel();
+        return { status: response.status };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+let urlFetcher = httpFetcher;
+
+// Replaces the HTTP probe, e.g. with a stub or a fetcher for a fixture server; without an argument, restores the default.
+export const setUrlFetcher = (fetcher) => {
+    urlFetcher = fetcher || httpFetcher;
+};
+
+// Returns { isValid, reason } with reason 'ok', 'missing', 'malformed' or 'notProfile'.
+export const checkLinkedinUrl = (value) => {
+    if (!String(value || '').trim()) return { isValid: false, reason: 'missing' };
+    const url = parseUrl(value);
+    if (!url || registrableDomain(url.hostname) !== 'linkedin.com') return { isValid: false, reason: 'malformed' };
+    return /^\/in\/[^/]+\/?$/.test(url.pathname) ? { isValid: true, reason: 'ok' } : { isValid: false, reason: 'notProfile' };
+};
+
+// Returns { isValid, reason } with reason 'ok', 'missing', 'malformed' or 'domainMismatch'.
+export const checkWebsite = (website, businessEmail) => {
+    if (!String(website || '').trim()) return { isValid: false, reason: 'missing' };
+    const url = parseUrl(website);
+    if (!url) return { isValid: false, reason: 'malformed' };
+    const emailDomain = String(businessEmail || '').trim().toLowerCase().split('@')[1];
+    if (emailDomain && !isFreeMailDomain(emailDomain) && registrableDomain(emailDomain) !== registrableDomain(url.hostname)) {
+        return { isValid: false, reason: 'domainMismatch' };
+    }
+    return { isValid: true, reason: 'ok' };
+};
+
+// `checkWebsite`, then an HTTP request to the site; 'unreachable' when it fails or answers with an error.
+export const probeWebsite = async (website, businessEmail) => {
+    const result = checkWebsite(website, businessEmail);
+    if (!result.isValid) return result;
+    try {
+        const { status } = await urlFetcher(parseUrl(website).toString());
+        return status < 400 ? result : { isValid: false, reason: 'unreachable' };
+    } catch {
+        return { isValid: false, reason: 'unreachable' };
+    }
+};
+
+const URL_CHECK_INPUTS = ['website', 'businessEmail', 'personLinkedinUrl'];
+
+// `speaker` with its URL checks: kept from `before` while the checked values are the same, otherwise recomputed
+// from the format (a previous probe result no longer applies).
+export const withUrlChecks = (speaker, before = null) => {
+    if (before && URL_CHECK_INPUTS.every(field => (before[field] ?? '') === (speaker[field] ?? ''))) {
+        return speaker;
+    }
+    const linkedin = checkLinkedinUrl(speaker.personLinkedinUrl);
+    const website = checkWebsite(speaker.website, speaker.businessEmail);
+    return {
+        ...speaker,
+        isLinkedInValid: linkedin.isValid,
+        linkedinCheckReason: linkedin.reason,
+        isWebsiteValid: website.isValid,
+        websiteCheckReason: website.reason,
+        urlsCheckedAt: new Date(),
+    };
+};
+
+export const MAX_URL_CHECKS_PER_RUN = 25;
+
+// Runs `task` over `items`, at most `limit` at a time.
+const mapWithConcurrency = async (items, limit, task) => {
+    const results = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
+
+// Checks the URLs of the given active speakers, probing the websites when `probe` is set, without writing
+// anything. Returns [{ id, inputs, linkedin, website }], where `inputs` are the values checked.
+export const checkSpeakerUrls = async (db, speakerIds, { probe = false } = {}) => {
+    const result = await db.query(
+        'SELECT id, website, "businessEmail", "personLinkedinUrl" FROM speakers WHERE id = ANY($1) AND "deletedAt" IS NULL',
+        [speakerIds.slice(0, MAX_URL_CHECKS_PER_RUN)]
+    );
+    return mapWithConcurrency(result.rows, PROBE_CONCURRENCY, async (row) => ({
+        id: row.id,
+        inputs: row,
+        linkedin: checkLinkedinUrl(row.personLinkedinUrl),
+        website: probe ? await probeWebsite(row.website, row.businessEmail) : checkWebsite(row.website, row.businessEmail),
+    }));
+};
+
+// Stores the results of checkSpeakerUrls, skipping speakers whose checked values changed in the meantime.
+// Changed flags bump the version and are recorded in the history. `db` must be a transaction client.
+// Returns the updated speakers.
+export const storeUrlChecks = async (db, checks, actor) => {
+    const updated = [];
+    for (const { id, inputs, linkedin, website } of checks) {
+        const current = await db.query('SELECT * FROM speakers WHERE id = $1 AND "deletedAt" IS NULL FOR UPDATE', [id]);
+        const before = current.rows[0];
+        if (!before || !URL_CHECK_INPUTS.every(field => before[field] === inputs[field])) continue;
+        const written = await db.query(
+            `UPDATE speakers SET "isLinkedInValid" = $2, "linkedinCheckReason" = $3, "isWebsiteValid" = $4, "websiteCheckReason" = $5,
+                "urlsCheckedAt" = NOW(),
+                version = version + CASE WHEN "isLinkedInValid" IS DISTINCT FROM $2 OR "isWebsiteValid" IS DISTINCT FROM $4 THEN 1 ELSE 0 END
+             WHERE id = $1 RETURNING *`,
+            [id, linkedin.isValid, linkedin.reason, website.isValid, website.reason]
+        );
+        const after = written.rows[0];
+        if (after.version !== before.version) {
+            await recordSpeakerChange(db, { speakerId: id, action: 'update', actor, before, after });
+        }
+        updated.push(after);
+    }
+    return updated;
+};
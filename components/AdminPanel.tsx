@@ -1,84 +1,31 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import type { SpeakerData, User } from '../types';
+import type { SpeakerData, User, LockedAccount, Role, TrashedSpeaker, BulkImportResult, ImportRollbackResult } from '../types';
 import * as api from '../mockApi';
 import Modal from './Modal';
 import Toast from './Toast';
+import SpeakerHistory from './SpeakerHistory';
+import ImportWizard from './ImportWizard';
+import ImportBatches from './ImportBatches';
+import DuplicateQueue from './DuplicateQueue';
+import EmailCheckStatus from './EmailCheckStatus';
+import UrlCheckStatus from './UrlCheckStatus';
+import ParsedFieldsStatus from './ParsedFieldsStatus';
+import TitleRules from './TitleRules';
+import { EXPORT_FIELDS, buildSpeakerCsv } from '../csvImport';
+import { buildSpeakerWorkbook, downloadBlob } from '../spreadsheet';
 import Papa from 'papaparse';
+import { ROLE_LABELS, can } from '../permissions';
 
-// A simple, predictable normalizer: lowercase and remove all whitespace.
-const normalizeKey = (key: string): string => {
-    if (!key) return '';
-    return key.toLowerCase().replace(/\s+/g, '');
-};
-
-// Creates an exhaustive mapping from various normalized header names to the correct SpeakerData keys.
-// This is more robust and explicit than a generic "remove all special chars" approach.
-const getFieldMap = (): { [key: string]: keyof SpeakerData } => {
-    const map: { [key: string]: keyof SpeakerData } = {};
-
-    const aliases: { [alias: string]: keyof SpeakerData } = {
-        // Main Aliases
-        'firstname': 'firstName',
-        'lastname': 'lastName',
-        'title': 'title',
-        'company': 'company',
-        'businessemail': 'businessEmail',
-        'email': 'businessEmail',
-        'emailaddress': 'businessEmail',
-        'workemail': 'businessEmail',
-        'country': 'country',
-        'website': 'website',
-        'fullname': 'fullName',
-        'emailvalid': 'isEmailValid',
-        'isemailvalid': 'isEmailValid',
-        'linkedvalid': 'isLinkedInValid',
-        'islinkedinvalid': 'isLinkedInValid',
-        'websitevalid': 'isWebsiteValid',
-        'iswebsitevalid': 'isWebsiteValid',
-        'extractedrole': 'extractedRole',
-        'isceo': 'isCeo',
-        'isspeaker': 'isSpeaker',
-        'isauthor': 'isAuthor',
-        'industry': 'industry',
-        'personlinkedinurl': 'personLinkedinUrl',
-        'linkedin': 'personLinkedinUrl',
-        'linkedinurl': 'personLinkedinUrl',
-        'stage': 'stage',
-        'phonenumber': 'phoneNumber',
-        'phone': 'phoneNumber',
-        'employees': 'employees',
-        'location': 'location',
-        'city': 'city',
-        'state': 'state',
-        'companyaddress': 'companyAddress',
-        'companycity': 'companyCity',
-        'companystate': 'companyState',
-        'companycountry': 'companyCountry',
-        'companyphone': 'companyPhone',
-        'secondaryemail': 'secondaryEmail',
-        'speakingtopic': 'speakingTopic',
-        'speakinginfotopic': 'speakingTopic',
-        'speakinglink': 'speakingLink',
-        'speakinginfolink': 'speakingLink',
-        'createdby': 'createdBy',
-        'id': 'id'
-    };
-    
-    // Normalize all alias keys before adding them to the map
-    for (const alias in aliases) {
-        map[normalizeKey(alias)] = aliases[alias];
-    }
-    
-    return map;
-};
-
-// Generate the map once for efficiency
-const fieldMap = getFieldMap();
+type EmailStatusFilter = '' | 'unchecked' | 'valid' | 'invalid';
 
+// The server's limits per request
+const EMAIL_VERIFY_BATCH_SIZE = 200;
+const URL_VERIFY_BATCH_SIZE = 25;
 
 const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
   const [speakerData, setSpeakerData] = useState<SpeakerData[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [lockedAccounts, setLockedAccounts] = useState<LockedAccount[]>([]);
   
   const [isLoadingSpeakers, setIsLoadingSpeakers] = useState(true);
   const [isLoadingUsers, setIsLoadingUsers] = useState(true);
@@ -90,20 +37,26 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
   
   const [isUserModalOpen, setIsUserModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [userFormData, setUserFormData] = useState({ email: '', password: ''});
+  const [userFormData, setUserFormData] = useState<{ email: string; password: string; role: Role }>({ email: '', password: '', role: 'intern' });
 
   const [isDeleteUserModalOpen, setIsDeleteUserModalOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
 
-  const [newInternCredentials, setNewInternCredentials] = useState<{email: string, password: string} | null>(null);
+  const [newInternCredentials, setNewInternCredentials] = useState<{email: string, password: string, isReset?: boolean} | null>(null);
 
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
-  const [activeTab, setActiveTab] = useState<'speakers' | 'users'>('speakers');
+  const [activeTab, setActiveTab] = useState<'speakers' | 'users' | 'trash' | 'imports' | 'duplicates' | 'titles'>('speakers');
+  const [trashedSpeakers, setTrashedSpeakers] = useState<TrashedSpeaker[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
+  const [isLoadingTrash, setIsLoadingTrash] = useState(false);
   
   const importFileRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
 
   const [speakerSearchTerm, setSpeakerSearchTerm] = useState('');
-  const [speakerFilters, setSpeakerFilters] = useState({ country: '', industry: '', company: '' });
+  const [speakerFilters, setSpeakerFilters] = useState({ country: '', industry: '', company: '', emailStatus: '' as EmailStatusFilter, parsesToReview: false });
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [probeWebsites, setProbeWebsites] = useState(false);
 
   const fetchSpeakers = useCallback(async () => {
     setIsLoadingSpeakers(true);
@@ -130,11 +83,37 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
     }
   }, []);
 
+  const fetchLockedAccounts = useCallback(async () => {
+    try {
+      setLockedAccounts(await api.getLockedAccounts());
+    } catch (e) {
+      setError('Failed to fetch locked accounts.');
+    }
+  }, []);
+
+  const fetchTrash = useCallback(async () => {
+    setIsLoadingTrash(true);
+    try {
+      const { retentionDays, speakers } = await api.getTrashedSpeakers();
+      setTrashedSpeakers(speakers);
+      setTrashRetentionDays(retentionDays);
+    } catch (e) {
+      setError('Failed to fetch the trash.');
+    } finally {
+      setIsLoadingTrash(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'trash') fetchTrash();
+  }, [activeTab, fetchTrash]);
+
   useEffect(() => {
     // Fetch both sets of data on mount, as speaker data is needed for user counts.
     fetchSpeakers();
     fetchUsers();
-  }, [fetchSpeakers, fetchUsers]);
+    fetchLockedAccounts();
+  }, [fetchSpeakers, fetchUsers, fetchLockedAccounts]);
 
   const speakerCountsByUser = useMemo(() => {
     const counts = new Map<string, number>();
@@ -150,15 +129,41 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
     setIsSpeakerModalOpen(true);
   };
   
+  const handleSpeakerReverted = (speaker: SpeakerData) => {
+    setSelectedSpeaker(speaker);
+    setSpeakerData(prev => prev.map(s => s.id === speaker.id ? speaker : s));
+    setToast({ message: 'Speaker reverted.', type: 'success' });
+  };
+
+  const showErrorToast = useCallback((message: string) => {
+    setToast({ message, type: 'error' });
+  }, []);
+
+  const handleImportRolledBack = (result: ImportRollbackResult) => {
+    const keptEdits = result.keptEditsCount > 0 ? ` ${result.keptEditsCount} speakers kept fields edited after the import.` : '';
+    setToast({ message: `Import rolled back. Moved ${result.removedCount} speakers to the trash and reverted ${result.revertedCount}.${keptEdits}`, type: 'success' });
+    fetchSpeakers();
+  };
+
+  const handleDuplicateMerged = (speaker: SpeakerData) => {
+    setToast({ message: `Merged into ${speaker.fullName || speaker.businessEmail}.`, type: 'success' });
+    fetchSpeakers();
+  };
+
+  const handleReclassified = (updatedCount: number) => {
+    setToast({ message: `Reclassified the speakers' titles: ${updatedCount} updated.`, type: 'success' });
+    if (updatedCount > 0) fetchSpeakers();
+  };
+
   const handleOpenAddUserModal = () => {
     setEditingUser(null);
-    setUserFormData({ email: '', password: '' });
+    setUserFormData({ email: '', password: '', role: 'intern' });
     setIsUserModalOpen(true);
   };
 
   const handleOpenEditUserModal = (user: User) => {
     setEditingUser(user);
-    setUserFormData({ email: user.email, password: '' }); // Don't show password
+    setUserFormData({ email: user.email, password: '', role: user.role }); // Don't show password
     setIsUserModalOpen(true);
   };
 
@@ -170,8 +175,8 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
         setToast({ message: 'User updated successfully!', type: 'success' });
       } else { // Add
         // Password is now generated by the backend. We pass an empty string.
-        const newUserWithPassword = await api.addUser(userFormData.email, '', false);
-        setToast({ message: 'Intern added successfully!', type: 'success' });
+        const newUserWithPassword = await api.addUser(userFormData.email, '', userFormData.role);
+        setToast({ message: `${ROLE_LABELS[userFormData.role]} added successfully!`, type: 'success' });
         setNewInternCredentials(newUserWithPassword); // Show credentials in new modal
       }
       fetchUsers();
@@ -211,7 +216,7 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
         return;
     }
 
-    const csv = Papa.unparse(allSpeakers);
+    const csv = buildSpeakerCsv(allSpeakers);
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
@@ -225,110 +230,130 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
     setToast({ message: `Exported ${allSpeakers.length} records.`, type: 'success' });
   };
   
+  // One sheet with every speaker, then one per intern with the speakers they created.
+  const handleExportExcel = async () => {
+    setToast({ message: 'Preparing export...', type: 'success' });
+    try {
+      const allSpeakers = await api.getAllSpeakerData();
+      if (allSpeakers.length === 0) {
+        setToast({ message: 'No speaker data to export.', type: 'error' });
+        return;
+      }
+      const internSheets = users
+        .filter(u => u.role === 'intern')
+        .map(u => ({ name: u.email.split('@')[0], speakers: allSpeakers.filter(s => s.createdBy === u.email) }));
+      const blob = await buildSpeakerWorkbook([{ name: 'All Speakers', speakers: allSpeakers }, ...internSheets], EXPORT_FIELDS);
+      downloadBlob(blob, 'speaker_data_export.xlsx');
+      setToast({ message: `Exported ${allSpeakers.length} records.`, type: 'success' });
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    }
+  };
+
+  // Re-checks the business emails, then the LinkedIn URLs and websites, of the speakers currently listed, a batch
+  // at a time; each website is only requested when "Request websites" is ticked. Checks the user may not run are skipped.
+  const handleVerifySpeakers = async () => {
+    const ids = filteredSpeakers.map(s => s.id);
+    const checkEmails = can(currentUser, 'speakers:verifyEmails');
+    const checkUrls = can(currentUser, 'speakers:verifyUrls');
+    const checks = [checkEmails && 'emails', checkUrls && (probeWebsites ? 'LinkedIn URLs and websites (requesting each site)' : 'LinkedIn URLs and websites')].filter(Boolean).join(' and the ');
+    if (ids.length === 0 || !window.confirm(`Check the ${checks} of the ${ids.length} speakers listed?`)) return;
+    setIsVerifying(true);
+    const storeChecked = (checked: SpeakerData[]) => {
+      const byId = new Map(checked.map(s => [s.id, s]));
+      setSpeakerData(prev => prev.map(s => byId.get(s.id) ?? s));
+    };
+    let validEmailCount = 0;
+    let validUrlsCount = 0;
+    try {
+      for (let i = 0; checkEmails && i < ids.length; i += EMAIL_VERIFY_BATCH_SIZE) {
+        setToast({ message: `Checking emails... ${i} of ${ids.length}`, type: 'success' });
+        const checked = await api.verifySpeakerEmails(ids.slice(i, i + EMAIL_VERIFY_BATCH_SIZE));
+        storeChecked(checked);
+        validEmailCount += checked.filter(s => s.isEmailValid).length;
+      }
+      for (let i = 0; checkUrls && i < ids.length; i += URL_VERIFY_BATCH_SIZE) {
+        setToast({ message: `Checking LinkedIn URLs and websites... ${i} of ${ids.length}`, type: 'success' });
+        const checked = await api.verifySpeakerUrls(ids.slice(i, i + URL_VERIFY_BATCH_SIZE), probeWebsites);
+        storeChecked(checked);
+        validUrlsCount += checked.filter(s => s.isLinkedInValid && s.isWebsiteValid).length;
+      }
+      const results = [checkEmails && `${validEmailCount} with a valid email`, checkUrls && `${validUrlsCount} with a valid LinkedIn URL and website`].filter(Boolean).join(', ');
+      setToast({ message: `Checked ${ids.length} speakers: ${results}.`, type: 'success' });
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
   const handleImportClick = () => {
     importFileRef.current?.click();
   };
   
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file) return;
-
-    Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: async (results: { data: { [key: string]: any }[] }) => {
-            if (!results.data || results.data.length === 0) {
-                setToast({ message: 'Import failed. The CSV file appears to be empty or has no data.', type: 'error' });
-                if (event.target) event.target.value = '';
-                return;
-            }
-
-            // Remap the data from the CSV to our SpeakerData format using the robust fieldMap
-            const remappedData = results.data.map(originalRow => {
-                const newRow: { [key: string]: any } = {};
-                for (const originalHeader in originalRow) {
-                    const normalizedHeader = normalizeKey(originalHeader);
-                    const finalKey = fieldMap[normalizedHeader]; // Look up the correct camelCase key
-                    if (finalKey) {
-                        newRow[finalKey] = originalRow[originalHeader];
-                    }
-                }
-                return newRow as Partial<SpeakerData>;
-            });
-
-            const dataToImport: Omit<SpeakerData, 'id'>[] = [];
-            
-            for (const row of remappedData) {
-                const businessEmail = row.businessEmail;
-                
-                if (businessEmail && String(businessEmail).trim()) {
-                    const getBool = (key: keyof SpeakerData) => {
-                        const val = String(row[key] ?? '').toLowerCase();
-                        return ['true', '1', 'yes'].includes(val);
-                    };
-
-                    dataToImport.push({
-                      createdBy: (row.createdBy || currentUser.email) as string,
-                      firstName: row.firstName || '',
-                      lastName: row.lastName || '',
-                      title: row.title || '',
-                      company: row.company || '',
-                      businessEmail: businessEmail,
-                      country: row.country || '',
-                      website: row.website || '',
-                      fullName: row.fullName || `${row.firstName || ''} ${row.lastName || ''}`.trim(),
-                      extractedRole: row.extractedRole || '',
-                      industry: row.industry || '',
-                      personLinkedinUrl: row.personLinkedinUrl || '',
-                      stage: row.stage || '',
-                      phoneNumber: row.phoneNumber || '',
-                      employees: row.employees || '',
-                      location: row.location || '',
-                      city: row.city || '',
-                      state: row.state || '',
-                      companyAddress: row.companyAddress || '',
-                      companyCity: row.companyCity || '',
-                      companyState: row.companyState || '',
-                      companyCountry: row.companyCountry || '',
-                      companyPhone: row.companyPhone || '',
-                      secondaryEmail: row.secondaryEmail || '',
-                      speakingTopic: row.speakingTopic || '',
-                      speakingLink: row.speakingLink || '',
-                      isEmailValid: getBool('isEmailValid'),
-                      isLinkedInValid: getBool('isLinkedInValid'),
-                      isWebsiteValid: getBool('isWebsiteValid'),
-                      isCeo: getBool('isCeo'),
-                      isSpeaker: getBool('isSpeaker'),
-                      isAuthor: getBool('isAuthor'),
-                    });
-                }
-            }
-            
-            if (dataToImport.length > 0) {
-                setToast({ message: `Importing ${dataToImport.length} valid records...`, type: 'success' });
-                try {
-                    const result = await api.bulkAddSpeakerData(dataToImport);
-                    setToast({ message: `Import complete. Added ${result.importedCount} new speakers, skipped ${result.skippedCount} duplicates.`, type: 'success' });
-                    fetchSpeakers();
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred during import.';
-                    setToast({ message: `Import failed: ${errorMessage}`, type: 'error' });
-                }
-            } else {
-                const foundHeaders = results.data.length > 0 ? Object.keys(results.data[0]) : [];
-                setToast({ 
-                    message: `Import failed. No rows with a valid "Business Email" could be found. Please check your CSV file to ensure the email column is present, correctly named (e.g., "Business Email", "Email"), and contains data. Headers found: ${foundHeaders.slice(0, 5).join(', ')}`,
-                    type: 'error' 
-                });
-            }
-
-            if (event.target) event.target.value = '';
-        },
-        error: (error: Error) => {
-            setToast({ message: `Error parsing CSV: ${error.message}`, type: 'error' });
-            if (event.target) event.target.value = '';
-        },
-    });
+    if (file) setImportFile(file);
+    event.target.value = '';
+  };
+
+  const handleImported = (result: BulkImportResult) => {
+    setToast({ message: `Import complete. Added ${result.insertedCount} new speakers, updated ${result.updatedCount}, skipped ${result.skippedCount} duplicates and ${result.invalidCount} invalid rows.`, type: 'success' });
+    fetchSpeakers();
+  };
+
+  const handleRoleChange = async (user: User, role: Role) => {
+    try {
+      await api.updateUserRole(user.email, role);
+      setToast({ message: `${user.email} is now a ${ROLE_LABELS[role]}.`, type: 'success' });
+      fetchUsers();
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    if (!window.confirm(`Reset the password for ${user.email}? Their current password will stop working immediately.`)) return;
+    try {
+      const { password } = await api.resetUserPassword(user.email);
+      setNewInternCredentials({ email: user.email, password, isReset: true });
+      fetchUsers();
+      fetchLockedAccounts();
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    }
+  };
+
+  const handleUnlockAccount = async (email: string) => {
+    try {
+      await api.unlockAccount(email);
+      setToast({ message: `Unlocked ${email}.`, type: 'success' });
+      fetchLockedAccounts();
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    }
+  };
+
+  const handleRestoreSpeaker = async (speaker: TrashedSpeaker) => {
+    try {
+      const restored = await api.restoreSpeaker(speaker.id);
+      setTrashedSpeakers(prev => prev.filter(s => s.id !== speaker.id));
+      setSpeakerData(prev => [...prev, restored]);
+      setToast({ message: `${speaker.fullName || speaker.businessEmail} restored.`, type: 'success' });
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    }
+  };
+
+  const handlePurgeSpeaker = async (speaker: TrashedSpeaker) => {
+    if (!window.confirm(`Permanently delete ${speaker.fullName || speaker.businessEmail}? This cannot be undone.`)) return;
+    try {
+      await api.purgeSpeaker(speaker.id);
+      setTrashedSpeakers(prev => prev.filter(s => s.id !== speaker.id));
+      setToast({ message: 'Speaker permanently deleted.', type: 'success' });
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    }
   };
 
   const handleExportUsers = () => {
@@ -338,8 +363,8 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
     }
 
     const interns = users
-      .filter(u => !u.isAdmin)
-      .map(u => ({ email: u.email, role: 'Intern' }));
+      .filter(u => u.role === 'intern')
+      .map(u => ({ email: u.email, role: ROLE_LABELS[u.role] }));
 
     if (interns.length === 0) {
       setToast({ message: 'No interns to export.', type: 'error' });
@@ -373,14 +398,22 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
         const matchesIndustry = speakerFilters.industry === '' || (s.industry && s.industry.toLowerCase().includes(speakerFilters.industry.toLowerCase()));
         const matchesCompany = speakerFilters.company === '' || (s.company && s.company.toLowerCase().includes(speakerFilters.company.toLowerCase()));
         
-        return matchesSearch && matchesCountry && matchesIndustry && matchesCompany;
+        const matchesEmailStatus = speakerFilters.emailStatus === ''
+            || (speakerFilters.emailStatus === 'unchecked' && !s.emailCheckReason)
+            || (speakerFilters.emailStatus === 'valid' && !!s.emailCheckReason && s.isEmailValid)
+            || (speakerFilters.emailStatus === 'invalid' && !!s.emailCheckReason && !s.isEmailValid);
+
+        const matchesParses = !speakerFilters.parsesToReview
+            || Object.values(s.parsedFields || {}).some(marker => marker?.confidence === 'low');
+
+        return matchesSearch && matchesCountry && matchesIndustry && matchesCompany && matchesEmailStatus && matchesParses;
     });
   }, [speakerData, speakerSearchTerm, speakerFilters]);
 
   const renderSpeakersTab = () => (
     <>
       <div className="mt-4 p-4 bg-slate-800/50 rounded-lg">
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
             <div className="sm:col-span-2 lg:col-span-1">
                  <label htmlFor="search-speaker" className="block text-sm font-medium text-slate-400 mb-1">Search</label>
                  <input
@@ -425,6 +458,32 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
                     className="w-full bg-slate-700 border border-slate-600 rounded-md py-2 px-3 text-white shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                 />
             </div>
+            <div>
+                <label htmlFor="filter-email-status" className="block text-sm font-medium text-slate-400 mb-1">Email Check</label>
+                <select
+                    id="filter-email-status"
+                    value={speakerFilters.emailStatus}
+                    onChange={(e) => setSpeakerFilters(prev => ({ ...prev, emailStatus: e.target.value as EmailStatusFilter }))}
+                    className="w-full bg-slate-700 border border-slate-600 rounded-md py-2 px-3 text-white shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                >
+                    <option value="">Any</option>
+                    <option value="unchecked">Not checked yet</option>
+                    <option value="valid">Valid</option>
+                    <option value="invalid">Not valid</option>
+                </select>
+            </div>
+            <div>
+                <label htmlFor="filter-parses" className="block text-sm font-medium text-slate-400 mb-1">Parsed Values</label>
+                <select
+                    id="filter-parses"
+                    value={speakerFilters.parsesToReview ? 'review' : ''}
+                    onChange={(e) => setSpeakerFilters(prev => ({ ...prev, parsesToReview: e.target.value === 'review' }))}
+                    className="w-full bg-slate-700 border border-slate-600 rounded-md py-2 px-3 text-white shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                >
+                    <option value="">Any</option>
+                    <option value="review">To review</option>
+                </select>
+            </div>
         </div>
       </div>
       <div className="mt-4 ring-1 ring-slate-700 rounded-lg">
@@ -437,6 +496,7 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
                     <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">Name</th>
                     <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Company</th>
                     <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Email</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Links</th>
                     <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Created By</th>
                     <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
                   </tr>
@@ -444,9 +504,23 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
                 <tbody className="divide-y divide-slate-800 bg-slate-900">
                   {filteredSpeakers.map((speaker) => (
                     <tr key={speaker.id}>
-                      <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{speaker.fullName}</td>
+                      <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">
+                        <span className="flex flex-col items-start gap-y-1">
+                          {speaker.fullName}
+                          <ParsedFieldsStatus speaker={speaker} />
+                        </span>
+                      </td>
                       <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speaker.company}</td>
-                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speaker.businessEmail}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                        {speaker.businessEmail}
+                        <span className="block mt-1"><EmailCheckStatus speaker={speaker} /></span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                        <span className="flex flex-col items-start gap-y-1">
+                          <UrlCheckStatus speaker={speaker} kind="linkedin" />
+                          <UrlCheckStatus speaker={speaker} kind="website" />
+                        </span>
+                      </td>
                       <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speaker.createdBy}</td>
                       <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
                         <button onClick={() => handleViewDetails(speaker)} className="text-indigo-400 hover:text-indigo-300">
@@ -464,7 +538,28 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
     </>
   );
 
+  const renderLockedAccounts = () => (
+    <div className="mt-8 bg-amber-900/30 border border-amber-700/60 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-amber-300">Locked Accounts</h2>
+        <button onClick={fetchLockedAccounts} className="text-sm text-amber-300 hover:text-amber-200">Refresh</button>
+      </div>
+      <p className="text-sm text-amber-200/80 mt-1">These accounts are temporarily blocked after too many failed login attempts.</p>
+      <ul className="mt-3 divide-y divide-amber-800/50">
+        {lockedAccounts.map(account => (
+          <li key={account.email} className="py-2 flex items-center justify-between text-sm">
+            <span className="text-white">{account.email}</span>
+            <span className="text-amber-200/80">{account.failures} failed attempts, locked until {new Date(account.lockedUntil).toLocaleTimeString()}</span>
+            <button onClick={() => handleUnlockAccount(account.email)} className="text-indigo-400 hover:text-indigo-300 font-medium">Unlock</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
   const renderUsersTab = () => (
+    <>
+     {lockedAccounts.length > 0 && renderLockedAccounts()}
      <div className="mt-8 ring-1 ring-slate-700 rounded-lg">
       <div className="overflow-x-auto">
         <div className="inline-block min-w-full align-middle">
@@ -479,13 +574,24 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-800 bg-slate-900">
-                 {users.filter(u => !u.isAdmin).map((user) => (
+                 {users.filter(u => u.email !== currentUser.email).map((user) => (
                   <tr key={user.email}>
                     <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{user.email}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">Intern</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                      <select
+                        value={user.role}
+                        onChange={e => handleRoleChange(user, e.target.value as Role)}
+                        aria-label={`Role for ${user.email}`}
+                        className="bg-slate-700 border border-slate-600 rounded-md py-1 px-2 text-white text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {(Object.keys(ROLE_LABELS) as Role[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                      </select>
+                      {user.mustChangePassword && <span className="ml-2 inline-flex items-center rounded-full bg-amber-500/20 px-2 py-0.5 text-xs text-amber-300">Temporary password</span>}
+                    </td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speakerCountsByUser.get(user.email) || 0}</td>
                     <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-4">
                       <button onClick={() => handleOpenEditUserModal(user)} className="text-indigo-400 hover:text-indigo-300">Edit</button>
+                      <button onClick={() => handleResetPassword(user)} className="text-amber-400 hover:text-amber-300">Reset Password</button>
                       <button onClick={() => confirmDeleteUser(user)} className="text-red-400 hover:text-red-300">Delete</button>
                     </td>
                   </tr>
@@ -496,6 +602,56 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
         </div>
       </div>
     </div>
+    </>
+  );
+
+  const renderTrashTab = () => (
+    <>
+      <p className="mt-4 text-sm text-slate-400">
+        Deleted speaker entries stay here for {trashRetentionDays ?? '...'} days and can be restored until then. After that they are permanently deleted.
+      </p>
+      <div className="mt-4 ring-1 ring-slate-700 rounded-lg">
+        <div className="overflow-x-auto">
+          <div className="inline-block min-w-full align-middle">
+            {isLoadingTrash ? <p className="p-4">Loading trash...</p> : trashedSpeakers.length === 0 ? <p className="p-4 text-slate-400">The trash is empty.</p> : (
+              <table className="min-w-full divide-y divide-slate-700">
+                <thead className="bg-slate-800">
+                  <tr>
+                    <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">Name</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Email</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Created By</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Deleted</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Purged On</th>
+                    <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800 bg-slate-900">
+                  {trashedSpeakers.map((speaker) => (
+                    <tr key={speaker.id}>
+                      <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{speaker.fullName}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                        {speaker.businessEmail}
+                        <span className="block mt-1"><EmailCheckStatus speaker={speaker} /></span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speaker.createdBy}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                        {new Date(speaker.deletedAt).toLocaleString()}
+                        <span className="block text-xs text-slate-500">by {speaker.deletedBy || 'Unknown user'}</span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{new Date(speaker.purgeAt).toLocaleDateString()}</td>
+                      <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-4">
+                        <button onClick={() => handleRestoreSpeaker(speaker)} className="text-indigo-400 hover:text-indigo-300">Restore</button>
+                        <button onClick={() => handlePurgeSpeaker(speaker)} className="text-red-400 hover:text-red-300">Delete Forever</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
   );
 
   return (
@@ -504,15 +660,24 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
         type="file"
         ref={importFileRef}
         className="hidden"
-        accept=".csv"
+        accept=".csv,.xlsx"
         onChange={handleFileImport}
       />
       {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+      {importFile && (
+        <ImportWizard
+          file={importFile}
+          defaultOwner={currentUser.email}
+          canAssignOwner={can(currentUser, 'speakers:assignOwner')}
+          onImported={handleImported}
+          onClose={() => setImportFile(null)}
+        />
+      )}
       <div className="sm:flex sm:items-center sm:justify-between">
         <div className="sm:flex-auto">
           <h1 className="text-2xl font-bold text-white">Admin Dashboard</h1>
           <p className="mt-2 text-sm text-slate-400">
-            Manage speaker data and intern accounts.
+            Manage speaker data and user accounts.
           </p>
           <div className="mt-4 flex items-center gap-x-3">
             <h2 className="text-base font-medium text-white">Total Speaker Entries:</h2>
@@ -525,11 +690,25 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
           {activeTab === 'speakers' && (
             <div className="flex items-center space-x-2">
               <button onClick={handleImportClick} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
-                Import from CSV
+                Import CSV / Excel
               </button>
+              {can(currentUser, 'speakers:verifyUrls') && (
+                <label className="flex items-center gap-x-2 text-sm text-slate-300 cursor-pointer" title="Request each website to check it answers; slow for long lists">
+                  <input type="checkbox" checked={probeWebsites} onChange={e => setProbeWebsites(e.target.checked)} disabled={isVerifying} className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-indigo-600 focus:ring-indigo-500" />
+                  Request websites
+                </label>
+              )}
+              {(can(currentUser, 'speakers:verifyEmails') || can(currentUser, 'speakers:verifyUrls')) && (
+                <button onClick={handleVerifySpeakers} disabled={isVerifying} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 disabled:opacity-50 sm:w-auto">
+                  {isVerifying ? 'Checking...' : 'Verify Listed Speakers'}
+                </button>
+              )}
               <button onClick={handleExport} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
                 Export All to CSV
               </button>
+              <button onClick={handleExportExcel} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
+                Export All to Excel
+              </button>
             </div>
           )}
           {activeTab === 'users' && (
@@ -538,7 +717,7 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
                 Export Interns
               </button>
               <button onClick={handleOpenAddUserModal} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
-                Add Intern
+                Add User
               </button>
             </div>
           )}
@@ -552,15 +731,40 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
               Speaker Database
             </button>
             <button onClick={() => setActiveTab('users')} className={`${activeTab === 'users' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-slate-400 hover:text-slate-300 hover:border-slate-500'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
-              Intern Management
+              User Management
             </button>
+            {can(currentUser, 'speakers:manageTrash') && (
+              <button onClick={() => setActiveTab('trash')} className={`${activeTab === 'trash' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-slate-400 hover:text-slate-300 hover:border-slate-500'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                Trash
+              </button>
+            )}
+            {can(currentUser, 'imports:manage') && (
+              <button onClick={() => setActiveTab('imports')} className={`${activeTab === 'imports' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-slate-400 hover:text-slate-300 hover:border-slate-500'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                Imports
+              </button>
+            )}
+            {can(currentUser, 'duplicates:manage') && (
+              <button onClick={() => setActiveTab('duplicates')} className={`${activeTab === 'duplicates' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-slate-400 hover:text-slate-300 hover:border-slate-500'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                Duplicates
+              </button>
+            )}
+            {can(currentUser, 'titleRules:manage') && (
+              <button onClick={() => setActiveTab('titles')} className={`${activeTab === 'titles' ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-slate-400 hover:text-slate-300 hover:border-slate-500'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                Title Rules
+              </button>
+            )}
           </nav>
         </div>
       </div>
       
       {error && <div className="p-8 text-center text-red-400">{error}</div>}
       
-      {activeTab === 'speakers' ? renderSpeakersTab() : renderUsersTab()}
+      {activeTab === 'speakers' && renderSpeakersTab()}
+      {activeTab === 'users' && renderUsersTab()}
+      {activeTab === 'trash' && renderTrashTab()}
+      {activeTab === 'imports' && <ImportBatches onRolledBack={handleImportRolledBack} onError={showErrorToast} />}
+      {activeTab === 'duplicates' && <DuplicateQueue onMerged={handleDuplicateMerged} onError={showErrorToast} />}
+      {activeTab === 'titles' && <TitleRules onReclassified={handleReclassified} onError={showErrorToast} />}
 
       {selectedSpeaker && (
         <Modal isOpen={isSpeakerModalOpen} onClose={() => setIsSpeakerModalOpen(false)} title={`Details for ${selectedSpeaker.fullName}`}>
@@ -568,19 +772,36 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
             {Object.entries(selectedSpeaker).map(([key, value]) => (
                 <div key={key} className="grid grid-cols-2 gap-2 border-b border-slate-700 py-1">
                     <strong className="capitalize text-slate-400">{key.replace(/([A-Z])/g, ' $1').trim()}:</strong>
-                    <span>{typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)}</span>
+                    <span className="break-all">{typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value)}</span>
                 </div>
             ))}
+            <h4 className="pt-4 text-base font-semibold text-indigo-400">History</h4>
+            {isSpeakerModalOpen && (
+              <SpeakerHistory
+                speakerId={selectedSpeaker.id}
+                canRevert={can(currentUser, 'speakers:editAll')}
+                onReverted={handleSpeakerReverted}
+                onError={showErrorToast}
+              />
+            )}
           </div>
         </Modal>
       )}
 
-      <Modal isOpen={isUserModalOpen} onClose={() => setIsUserModalOpen(false)} title={editingUser ? 'Edit Intern' : 'Add New Intern'}>
+      <Modal isOpen={isUserModalOpen} onClose={() => setIsUserModalOpen(false)} title={editingUser ? 'Edit User' : 'Add New User'}>
          <form onSubmit={handleUserFormSubmit} className="space-y-4">
             <div>
               <label htmlFor="user-email" className="block text-sm font-medium text-slate-300">Email Address</label>
               <input type="email" id="user-email" value={userFormData.email} onChange={e => setUserFormData({...userFormData, email: e.target.value})} required className="mt-1 block w-full bg-slate-700 border border-slate-600 rounded-md py-2 px-3 text-white shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"/>
             </div>
+            {!editingUser && (
+              <div>
+                <label htmlFor="user-role" className="block text-sm font-medium text-slate-300">Role</label>
+                <select id="user-role" value={userFormData.role} onChange={e => setUserFormData({...userFormData, role: e.target.value as Role})} className="mt-1 block w-full bg-slate-700 border border-slate-600 rounded-md py-2 px-3 text-white shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm">
+                  {(Object.keys(ROLE_LABELS) as Role[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                </select>
+              </div>
+            )}
             {editingUser && (
               <div>
                 <label htmlFor="user-password" className="block text-sm font-medium text-slate-300">Password</label>
@@ -595,9 +816,9 @@ const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
       </Modal>
 
       {newInternCredentials && (
-        <Modal isOpen={!!newInternCredentials} onClose={() => setNewInternCredentials(null)} title="Intern Account Created">
+        <Modal isOpen={!!newInternCredentials} onClose={() => setNewInternCredentials(null)} title={newInternCredentials.isReset ? 'Password Reset' : 'Account Created'}>
           <div className="space-y-4 text-slate-300">
-            <p>The account for <span className="font-bold text-white">{newInternCredentials.email}</span> has been successfully created.</p>
+            <p>The account for <span className="font-bold text-white">{newInternCredentials.email}</span> has been successfully {newInternCredentials.isReset ? 'reset' : 'created'}.</p>
             <p>Please provide the following temporary password to the user. They will be required to change it upon first login.</p>
             <div className="bg-slate-900 p-3 rounded-lg flex items-center justify-between">
                 <span className="font-mono text-lg text-indigo-300">{newInternCredentials.password}</span>
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { User } from '../types';
+import * as api from '../mockApi';
+import { checkPasswordPolicy, PASSWORD_MIN_LENGTH } from '../passwordPolicy';
+
+interface ChangePasswordScreenProps {
+  user: User;
+  onPasswordChanged: () => void;
+  onLogout: () => void;
+}
+
+// Shown instead of the app while the user still holds a temporary password.
+const ChangePasswordScreen: React.FC<ChangePasswordScreenProps> = ({ user, onPasswordChanged, onLogout }) => {
+  const [formData, setFormData] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.currentPassword) {
+      setError('Please enter the temporary password you were given.');
+      return;
+    }
+    const policyError = checkPasswordPolicy(formData.newPassword, user.email);
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+    if (formData.newPassword === formData.currentPassword) {
+      setError('Your new password must be different from the temporary one.');
+      return;
+    }
+    if (formData.newPassword !== formData.confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await api.changePassword(user.email, formData.currentPassword, formData.newPassword);
+      onPasswordChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 text-slate-200 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 transition duration-200";
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col justify-center items-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-8 mb-4">
+          <h1 className="text-2xl font-bold text-center text-white mb-2">Choose a New Password</h1>
+          <p className="text-center text-slate-400 mb-6">
+            <span className="text-white">{user.email}</span> is using a temporary password. Please set your own password to continue.
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-slate-300 text-sm font-bold mb-2" htmlFor="currentPassword">Temporary Password</label>
+              <input className={inputClass} id="currentPassword" name="currentPassword" type="password" value={formData.currentPassword} onChange={handleChange} disabled={isSaving} />
+            </div>
+            <div>
+              <label className="block text-slate-300 text-sm font-bold mb-2" htmlFor="newPassword">New Password</label>
+              <input className={inputClass} id="newPassword" name="newPassword" type="password" value={formData.newPassword} onChange={handleChange} disabled={isSaving} />
+              <p className="mt-1 text-xs text-slate-400">At least {PASSWORD_MIN_LENGTH} characters, including letters and numbers.</p>
+            </div>
+            <div>
+              <label className="block text-slate-300 text-sm font-bold mb-2" htmlFor="confirmPassword">Confirm New Password</label>
+              <input className={inputClass} id="confirmPassword" name="confirmPassword" type="password" value={formData.confirmPassword} onChange={handleChange} disabled={isSaving} />
+            </div>
+            {error && <p className="bg-red-900 border border-red-700 text-red-300 text-xs italic p-3 rounded-md">{error}</p>}
+            <div className="flex items-center justify-between space-x-3 pt-2">
+              <button type="button" onClick={onLogout} className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700" disabled={isSaving}>
+                Logout
+              </button>
+              <button
+                type="submit"
+                className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-opacity-75 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isSaving}
+              >
+                {isSaving ? 'Saving...' : 'Set Password'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordScreen;
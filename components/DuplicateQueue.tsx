@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SpeakerData, ImportField, DuplicateCandidate } from '../types';
+import * as api from '../mockApi';
+import { IMPORT_FIELD_LABELS } from '../csvImport';
+import Modal from './Modal';
+
+interface DuplicateQueueProps {
+  onMerged: (speaker: SpeakerData) => void;
+  onError: (message: string) => void;
+}
+
+type ComputedField = 'isEmailValid' | 'isLinkedInValid' | 'isWebsiteValid' | 'extractedRole' | 'isCeo' | 'isSpeaker' | 'isAuthor';
+type MergeField = Exclude<ImportField, 'createdBy' | ComputedField>;
+
+const COMPUTED_FIELDS: ImportField[] = ['isEmailValid', 'isLinkedInValid', 'isWebsiteValid', 'extractedRole', 'isCeo', 'isSpeaker', 'isAuthor'];
+
+// The owner stays the surviving record's and the checks are recomputed for the values kept;
+// every other field can come from either side.
+const MERGE_FIELDS = (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).filter((field): field is MergeField => field !== 'createdBy' && !COMPUTED_FIELDS.includes(field));
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+const formatValue = (value: unknown): string => {
+  if (isEmpty(value)) return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const speakerLabel = (speaker: SpeakerData) => speaker.fullName || `${speaker.firstName} ${speaker.lastName}`.trim() || speaker.businessEmail;
+
+// For each field, which record's value to keep: the survivor's, unless it is empty and the other one isn't.
+const defaultPicks = (survivor: SpeakerData, other: SpeakerData): Record<MergeField, string> =>
+  Object.fromEntries(MERGE_FIELDS.map(field => [field, isEmpty(survivor[field]) && !isEmpty(other[field]) ? other.id : survivor.id])) as Record<MergeField, string>;
+
+// The Duplicates tab: pairs of speakers a scan found to be likely the same person, and a side-by-side
+// review that merges a pair into one record (picking each field's value) or dismisses it for good.
+const DuplicateQueue: React.FC<DuplicateQueueProps> = ({ onMerged, onError }) => {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isScanning, setIsScanning] = useState(false);
+  const [reviewing, setReviewing] = useState<DuplicateCandidate | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [picks, setPicks] = useState<Record<MergeField, string> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const fetchCandidates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setCandidates(await api.getDuplicateCandidates());
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      await api.scanForDuplicates();
+      await fetchCandidates();
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const selectSurvivor = (candidate: DuplicateCandidate, id: string) => {
+    const survivor = id === candidate.speakerA.id ? candidate.speakerA : candidate.speakerB;
+    const other = survivor === candidate.speakerA ? candidate.speakerB : candidate.speakerA;
+    setSurvivorId(id);
+    setPicks(defaultPicks(survivor, other));
+  };
+
+  // The record with more fields filled in is the default survivor.
+  const openReview = (candidate: DuplicateCandidate) => {
+    const filled = (speaker: SpeakerData) => MERGE_FIELDS.filter(field => !isEmpty(speaker[field])).length;
+    setNotice('');
+    setReviewing(candidate);
+    selectSurvivor(candidate, filled(candidate.speakerB) > filled(candidate.speakerA) ? candidate.speakerB.id : candidate.speakerA.id);
+  };
+
+  const closeReview = () => {
+    setReviewing(null);
+    setPicks(null);
+  };
+
+  const handleDismiss = async () => {
+    if (!reviewing) return;
+    setIsSaving(true);
+    try {
+      await api.dismissDuplicate(reviewing.id);
+      setCandidates(prev => prev.filter(c => c.id !== reviewing.id));
+      closeReview();
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!reviewing || !picks) return;
+    const byId: Record<string, SpeakerData> = { [reviewing.speakerA.id]: reviewing.speakerA, [reviewing.speakerB.id]: reviewing.speakerB };
+    const values = Object.fromEntries(MERGE_FIELDS.map(field => [field, byId[picks[field]][field]])) as Partial<SpeakerData>;
+    const other = byId[survivorId] === reviewing.speakerA ? reviewing.speakerB : reviewing.speakerA;
+    if (!window.confirm(`Merge into ${speakerLabel(byId[survivorId])}? ${speakerLabel(other)} will be moved to the trash.`)) return;
+
+    setIsSaving(true);
+    try {
+      const merged = await api.mergeDuplicate(reviewing.id, survivorId, values, {
+        [reviewing.speakerA.id]: reviewing.speakerA.version,
+        [reviewing.speakerB.id]: reviewing.speakerB.version,
+      });
+      // Any other pair involving either speaker now shows stale data
+      setCandidates(prev => prev.filter(c => ![c.speakerA.id, c.speakerB.id].some(id => id === reviewing.speakerA.id || id === reviewing.speakerB.id)));
+      closeReview();
+      onMerged(merged);
+      fetchCandidates();
+    } catch (err) {
+      const current = err instanceof api.ApiError && err.status === 409 ? err.details.current as SpeakerData[] | undefined : undefined;
+      if (current && current.length === 2) {
+        // Someone edited one of the records: review again with what is stored now
+        const refreshed = {
+          ...reviewing,
+          speakerA: current.find(s => s.id === reviewing.speakerA.id) ?? reviewing.speakerA,
+          speakerB: current.find(s => s.id === reviewing.speakerB.id) ?? reviewing.speakerB,
+        };
+        setCandidates(prev => prev.map(c => c.id === refreshed.id ? refreshed : c));
+        setReviewing(refreshed);
+        selectSurvivor(refreshed, survivorId);
+        setNotice('One of these records was changed while you were reviewing it. The values below are the current ones.');
+      } else {
+        onError((err as Error).message);
+        if (err instanceof api.ApiError && (err.status === 404 || err.status === 409)) {
+          closeReview();
+          fetchCandidates();
+        }
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderReviewModal = () => reviewing && picks && (
+    <Modal isOpen onClose={closeReview} title="Review Possible Duplicate" widthClass="max-w-5xl">
+      <div className="space-y-4 text-sm">
+        <p className="text-slate-400">{reviewing.reasons.join(' · ')}</p>
+        {notice && <p className="text-amber-300 bg-amber-900/30 border border-amber-700/60 rounded-lg p-3">{notice}</p>}
+        <div className="max-h-[55vh] overflow-y-auto">
+          <table className="w-full">
+            <thead className="text-left text-slate-400 sticky top-0 bg-slate-800">
+              <tr>
+                <th className="py-2 pr-2 font-medium">Keep</th>
+                {[reviewing.speakerA, reviewing.speakerB].map(speaker => (
+                  <th key={speaker.id} className="py-2 pr-2 font-medium">
+                    <label className="flex items-center gap-x-2 cursor-pointer text-white">
+                      <input type="radio" name="survivor" checked={survivorId === speaker.id} onChange={() => selectSurvivor(reviewing, speaker.id)} />
+                      {survivorId === speaker.id ? 'Surviving record' : 'Moved to trash'}
+                    </label>
+                    <span className="block text-xs font-normal text-slate-500">Owner: {speaker.createdBy}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {MERGE_FIELDS.filter(field => !isEmpty(reviewing.speakerA[field]) || !isEmpty(reviewing.speakerB[field])).map(field => (
+                <tr key={field} className={reviewing.speakerA[field] !== reviewing.speakerB[field] ? '' : 'text-slate-500'}>
+                  <td className="py-2 pr-2 text-slate-400 align-top">{IMPORT_FIELD_LABELS[field]}</td>
+                  {[reviewing.speakerA, reviewing.speakerB].map(speaker => (
+                    <td key={speaker.id} className="py-2 pr-2 align-top">
+                      <label className="flex items-start gap-x-2 cursor-pointer">
+                        <input type="radio" name={`merge-${field}`} checked={picks[field] === speaker.id} onChange={() => setPicks(prev => prev && { ...prev, [field]: speaker.id })} className="mt-1" />
+                        <span className="text-slate-200 break-all">{formatValue(speaker[field])}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end space-x-3 pt-4 border-t border-slate-700">
+          <button type="button" onClick={closeReview} disabled={isSaving} className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700 disabled:opacity-50">Cancel</button>
+          <button type="button" onClick={handleDismiss} disabled={isSaving} className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700 disabled:opacity-50">Not Duplicates</button>
+          <button type="button" onClick={handleMerge} disabled={isSaving} className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50">
+            {isSaving ? 'Saving...' : 'Merge'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+
+  return (
+    <>
+      <div className="mt-4 flex items-center justify-between">
+        <p className="text-sm text-slate-400">
+          Speakers that look like the same person, matched on LinkedIn profile, email, phone and name. Merging keeps one record and moves the other to the trash.
+        </p>
+        <button onClick={handleScan} disabled={isScanning} className="ml-4 shrink-0 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50">
+          {isScanning ? 'Scanning...' : 'Scan for Duplicates'}
+        </button>
+      </div>
+      <div className="mt-4 ring-1 ring-slate-700 rounded-lg">
+        <div className="overflow-x-auto">
+          <div className="inline-block min-w-full align-middle">
+            {isLoading ? <p className="p-4">Loading duplicates...</p> : candidates.length === 0 ? <p className="p-4 text-slate-400">No suspected duplicates. Run a scan to check again.</p> : (
+              <table className="min-w-full divide-y divide-slate-700">
+                <thead className="bg-slate-800">
+                  <tr>
+                    <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">Speakers</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Match</th>
+                    <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800 bg-slate-900">
+                  {candidates.map(candidate => (
+                    <tr key={candidate.id}>
+                      <td className="py-4 pl-4 pr-3 text-sm text-white sm:pl-6">
+                        {[candidate.speakerA, candidate.speakerB].map(speaker => (
+                          <span key={speaker.id} className="block">
+                            {speakerLabel(speaker)} <span className="text-slate-500">{speaker.businessEmail}</span>
+                          </span>
+                        ))}
+                      </td>
+                      <td className="px-3 py-4 text-sm text-slate-300">
+                        {Math.round(candidate.score * 100)}%
+                        <span className="block text-xs text-slate-500">{candidate.reasons.join(', ')}</span>
+                      </td>
+                      <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                        <button onClick={() => openReview(candidate)} className="text-indigo-400 hover:text-indigo-300">Review</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+      {renderReviewModal()}
+    </>
+  );
+};
+
+export default DuplicateQueue;
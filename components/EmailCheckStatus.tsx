@@ -0,0 +1,43 @@
+import React from 'react';
+import type { SpeakerData, EmailCheckReason } from '../types';
+
+interface EmailCheckStatusProps {
+  speaker: Pick<SpeakerData, 'isEmailValid' | 'emailCheckReason' | 'emailCheckedAt'>;
+  showDate?: boolean;
+  labelled?: boolean; // Prefix the result with "Email:", where it is shown next to the URL checks
+}
+
+const REASON_LABELS: Record<EmailCheckReason, string> = {
+  ok: 'Deliverable',
+  freeMail: 'Free-mail address',
+  syntax: 'Not a valid address',
+  disposable: 'Disposable address',
+  role: 'Shared mailbox, not a person',
+  noMx: 'Domain accepts no mail',
+  lookupFailed: 'Could not be checked',
+};
+
+const REASON_STYLES: Record<EmailCheckReason, string> = {
+  ok: 'bg-green-500/20 text-green-300',
+  freeMail: 'bg-green-500/20 text-green-300',
+  syntax: 'bg-red-500/20 text-red-300',
+  disposable: 'bg-red-500/20 text-red-300',
+  role: 'bg-amber-500/20 text-amber-300',
+  noMx: 'bg-red-500/20 text-red-300',
+  lookupFailed: 'bg-slate-500/20 text-slate-300',
+};
+
+// The outcome of the server's business email check, as a small badge.
+const EmailCheckStatus: React.FC<EmailCheckStatusProps> = ({ speaker, showDate = false, labelled = false }) => {
+  const reason = speaker.emailCheckReason;
+  return (
+    <span className="inline-flex items-center gap-x-2 text-xs">
+      <span className={`inline-flex items-center rounded-full px-2 py-0.5 font-medium ${reason ? REASON_STYLES[reason] : 'bg-slate-500/20 text-slate-400'}`}>
+        {labelled && 'Email: '}{reason ? REASON_LABELS[reason] : 'Not checked yet'}
+      </span>
+      {showDate && speaker.emailCheckedAt && <span className="text-slate-500">checked {new Date(speaker.emailCheckedAt).toLocaleString()}</span>}
+    </span>
+  );
+};
+
+export default EmailCheckStatus;
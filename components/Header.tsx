@@ -1,6 +1,7 @@
 
 import React from 'react';
 import type { User } from '../types';
+import { ROLE_LABELS } from '../permissions';
 
 interface HeaderProps {
   user: User | null;
@@ -19,6 +20,7 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
       {user && (
         <div className="flex items-center space-x-4">
           <span className="text-slate-300">Welcome, {user.email}</span>
+          <span className="inline-flex items-center rounded-full bg-slate-700 px-2.5 py-0.5 text-xs font-medium text-slate-300">{ROLE_LABELS[user.role]}</span>
           <button
             onClick={onLogout}
             className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-opacity-75 transition duration-200"
@@ -0,0 +1,73 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import Modal from './Modal';
+
+interface IdleTimerProps {
+  idleTimeoutSeconds: number;
+  onKeepAlive: () => Promise<void>; // Refreshes the server-side idle timer
+  onTimeout: () => void;
+}
+
+const WARNING_SECONDS = 60; // How long before the timeout the warning appears
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Logs the user out after a period of inactivity, warning them first.
+// While the user is active, the server session is kept alive even if they make no requests
+// (e.g. while filling in a long form), so both sides agree on when the session ends.
+const IdleTimer: React.FC<IdleTimerProps> = ({ idleTimeoutSeconds, onKeepAlive, onTimeout }) => {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const lastKeepAliveRef = useRef(Date.now());
+
+  const keepAliveIntervalMs = Math.min(5 * 60, idleTimeoutSeconds / 2) * 1000;
+
+  const keepAlive = useCallback(() => {
+    lastKeepAliveRef.current = Date.now();
+    onKeepAlive().catch(() => { /* A lost session is handled by the caller */ });
+  }, [onKeepAlive]);
+
+  useEffect(() => {
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+      if (Date.now() - lastKeepAliveRef.current > keepAliveIntervalMs) {
+        keepAlive();
+      }
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+  }, [keepAlive, keepAliveIntervalMs]);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const idleSeconds = (Date.now() - lastActivityRef.current) / 1000;
+      const remaining = Math.ceil(idleTimeoutSeconds - idleSeconds);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        onTimeout();
+      } else {
+        setSecondsLeft(remaining <= WARNING_SECONDS ? remaining : null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [idleTimeoutSeconds, onTimeout]);
+
+  const handleStaySignedIn = () => {
+    lastActivityRef.current = Date.now();
+    setSecondsLeft(null);
+    keepAlive();
+  };
+
+  return (
+    <Modal isOpen={secondsLeft !== null} onClose={handleStaySignedIn} title="Are you still there?">
+      <div className="space-y-4 text-slate-300">
+        <p>You have been inactive for a while. For your security you will be logged out in <span className="font-bold text-white">{secondsLeft} seconds</span>.</p>
+        <p className="text-sm text-slate-400">Any unsaved changes will be lost.</p>
+      </div>
+      <div className="pt-4 flex justify-end space-x-3">
+        <button type="button" onClick={onTimeout} className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700">Log Out</button>
+        <button type="button" onClick={handleStaySignedIn} className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700">Stay Signed In</button>
+      </div>
+    </Modal>
+  );
+};
+
+export default IdleTimer;
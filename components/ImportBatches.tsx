@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ImportSession, ImportBatchRow, ImportRollbackResult } from '../types';
+import * as api from '../mockApi';
+import Modal from './Modal';
+
+interface ImportBatchesProps {
+  onRolledBack: (result: ImportRollbackResult) => void;
+  onError: (message: string) => void;
+}
+
+const ROWS_PAGE_SIZE = 100;
+
+const SOURCE_LABELS: Record<ImportSession['source'], string> = {
+  chunked: 'Import wizard',
+  bulk: 'Bulk request',
+  csv: 'CSV upload',
+};
+
+const STATUS_LABELS: Record<ImportSession['status'], string> = {
+  open: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Stopped',
+  expired: 'Interrupted',
+  rolledBack: 'Rolled back',
+};
+const STATUS_STYLES: Record<ImportSession['status'], string> = {
+  open: 'bg-indigo-500/20 text-indigo-300',
+  completed: 'bg-green-500/20 text-green-300',
+  cancelled: 'bg-amber-500/20 text-amber-300',
+  expired: 'bg-amber-500/20 text-amber-300',
+  rolledBack: 'bg-slate-500/20 text-slate-300',
+};
+
+const fileLabel = (batch: ImportSession) => batch.fileName || '(no file name)';
+
+// The Imports tab: every import batch with its provenance and counts, the speakers each one
+// created or updated, and a rollback that undoes exactly one batch.
+const ImportBatches: React.FC<ImportBatchesProps> = ({ onRolledBack, onError }) => {
+  const [batches, setBatches] = useState<ImportSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [selectedBatch, setSelectedBatch] = useState<ImportSession | null>(null);
+  const [rows, setRows] = useState<ImportBatchRow[]>([]);
+  const [rowsTotal, setRowsTotal] = useState(0);
+  const [rowsOffset, setRowsOffset] = useState(0);
+  const [isLoadingRows, setIsLoadingRows] = useState(false);
+
+  const fetchBatches = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBatches(await api.getImportBatches());
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  useEffect(() => {
+    if (!selectedBatch) return;
+    let isCurrent = true;
+    setIsLoadingRows(true);
+    api.getImportBatchRows(selectedBatch.id, rowsOffset, ROWS_PAGE_SIZE)
+      .then(({ total, rows: page }) => {
+        if (!isCurrent) return;
+        setRows(page);
+        setRowsTotal(total);
+      })
+      .catch(err => { if (isCurrent) onError((err as Error).message); })
+      .finally(() => { if (isCurrent) setIsLoadingRows(false); });
+    return () => { isCurrent = false; };
+  }, [selectedBatch, rowsOffset, onError]);
+
+  const handleViewRows = (batch: ImportSession) => {
+    setRows([]);
+    setRowsTotal(0);
+    setRowsOffset(0);
+    setSelectedBatch(batch);
+  };
+
+  const handleRollback = async (batch: ImportSession) => {
+    const confirmed = window.confirm(
+      `Roll back the import of ${fileLabel(batch)}? Its ${batch.insertedCount} new speakers will be moved to the trash `
+      + `and its ${batch.updatedCount} updates will be reverted. Fields edited since the import keep their newer values.`
+    );
+    if (!confirmed) return;
+    setRollingBackId(batch.id);
+    try {
+      const result = await api.rollbackImportBatch(batch.id);
+      setBatches(prev => prev.map(b => b.id === batch.id ? result.session : b));
+      onRolledBack(result);
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const renderRowsModal = () => selectedBatch && (
+    <Modal isOpen onClose={() => setSelectedBatch(null)} title={`Rows imported from ${fileLabel(selectedBatch)}`} widthClass="max-w-4xl">
+      <div className="space-y-3 text-sm">
+        <p className="text-slate-400">
+          The speakers this import created or updated. Skipped and invalid rows were not imported and are only counted.
+        </p>
+        <div className="max-h-[55vh] overflow-y-auto ring-1 ring-slate-700 rounded-lg">
+          {isLoadingRows ? <p className="p-4 text-slate-400">Loading rows...</p> : rows.length === 0 ? <p className="p-4 text-slate-400">This import did not create or update any speakers.</p> : (
+            <table className="min-w-full divide-y divide-slate-700">
+              <thead className="bg-slate-800 sticky top-0">
+                <tr>
+                  <th scope="col" className="py-2 pl-4 pr-3 text-left font-semibold text-white">Name</th>
+                  <th scope="col" className="px-3 py-2 text-left font-semibold text-white">Business Email</th>
+                  <th scope="col" className="px-3 py-2 text-left font-semibold text-white">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800 bg-slate-900">
+                {rows.map(row => (
+                  <tr key={row.id}>
+                    <td className="py-2 pl-4 pr-3 text-white">
+                      {row.snapshot.fullName || '(no name)'}
+                      {row.deletedAt && <span className="ml-2 inline-flex items-center rounded-full bg-red-500/20 px-2 py-0.5 text-xs text-red-300">In trash</span>}
+                    </td>
+                    <td className="px-3 py-2 text-slate-300">{row.snapshot.businessEmail}</td>
+                    <td className="px-3 py-2 text-slate-300">
+                      {row.action === 'create' ? 'Created' : `Updated ${Object.keys(row.changes).join(', ')}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        {rowsTotal > ROWS_PAGE_SIZE && (
+          <div className="flex items-center justify-between text-slate-400">
+            <span>Rows {rowsOffset + 1}-{Math.min(rowsOffset + ROWS_PAGE_SIZE, rowsTotal)} of {rowsTotal}</span>
+            <div className="space-x-2">
+              <button type="button" onClick={() => setRowsOffset(offset => Math.max(offset - ROWS_PAGE_SIZE, 0))} disabled={isLoadingRows || rowsOffset === 0} className="px-3 py-1 bg-slate-600 text-white rounded-md hover:bg-slate-700 disabled:opacity-50">Previous</button>
+              <button type="button" onClick={() => setRowsOffset(offset => offset + ROWS_PAGE_SIZE)} disabled={isLoadingRows || rowsOffset + ROWS_PAGE_SIZE >= rowsTotal} className="px-3 py-1 bg-slate-600 text-white rounded-md hover:bg-slate-700 disabled:opacity-50">Next</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+
+  return (
+    <>
+      <p className="mt-4 text-sm text-slate-400">
+        Every import is recorded here. Rolling one back moves the speakers it created to the trash and reverts the ones it updated.
+      </p>
+      <div className="mt-4 ring-1 ring-slate-700 rounded-lg">
+        <div className="overflow-x-auto">
+          <div className="inline-block min-w-full align-middle">
+            {isLoading ? <p className="p-4">Loading imports...</p> : batches.length === 0 ? <p className="p-4 text-slate-400">No imports yet.</p> : (
+              <table className="min-w-full divide-y divide-slate-700">
+                <thead className="bg-slate-800">
+                  <tr>
+                    <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">File</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Imported</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Rows</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Status</th>
+                    <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800 bg-slate-900">
+                  {batches.map(batch => (
+                    <tr key={batch.id}>
+                      <td className="py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">
+                        {fileLabel(batch)}
+                        <span className="block text-xs font-normal text-slate-500">{SOURCE_LABELS[batch.source]}</span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                        {new Date(batch.createdAt).toLocaleString()}
+                        <span className="block text-xs text-slate-500">by {batch.createdBy}</span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                        {batch.insertedCount} new, {batch.updatedCount} updated
+                        <span className="block text-xs text-slate-500">
+                          {batch.unchangedCount} unchanged, {batch.skippedCount} skipped, {batch.invalidCount} invalid
+                        </span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm">
+                        <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[batch.status]}`}>{STATUS_LABELS[batch.status]}</span>
+                        {batch.rolledBackAt && (
+                          <span className="block text-xs text-slate-500">{new Date(batch.rolledBackAt).toLocaleString()} by {batch.rolledBackBy || 'Unknown user'}</span>
+                        )}
+                      </td>
+                      <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-4">
+                        <button onClick={() => handleViewRows(batch)} className="text-indigo-400 hover:text-indigo-300">View Rows</button>
+                        {batch.status !== 'open' && batch.status !== 'rolledBack' && (
+                          <button onClick={() => handleRollback(batch)} disabled={rollingBackId !== null} className="text-red-400 hover:text-red-300 disabled:opacity-50">
+                            {rollingBackId === batch.id ? 'Rolling Back...' : 'Roll Back'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+      {renderRowsModal()}
+    </>
+  );
+};
+
+export default ImportBatches;
@@ -0,0 +1,639 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import Papa from 'papaparse';
+import type { SpeakerData, ImportField, ColumnMapping, ImportProfile, ImportRowCheck, ImportRowStatus, ImportConflictMode, ImportSession, BulkImportResult, RejectedImportRow } from '../types';
+import * as api from '../mockApi';
+import { ApiError } from '../mockApi';
+import Modal from './Modal';
+import { IMPORT_FIELD_LABELS, cleanHeader, suggestMapping, findProfileForHeaders, applyProfile, mapRowsToSpeakers, buildRejectionReport } from '../csvImport';
+import { isSpreadsheetFile, readWorkbook, listSheets, sheetToCsvFile } from '../spreadsheet';
+import type { SpreadsheetWorkbook, SheetSummary } from '../spreadsheet';
+import type { CsvWorkerMessage, CsvWorkerRequest } from '../workers/csv.worker';
+
+interface ImportWizardProps {
+  file: File; // A .csv or .xlsx file
+  defaultOwner: string; // Owner of imported rows that don't map a "Created By" column
+  canAssignOwner: boolean; // Whether a "Created By" column can be imported at all
+  onImported: (result: BulkImportResult) => void; // Called once the import has finished or was cancelled
+  onClose: () => void;
+}
+
+type WizardStep = 'sheet' | 'mapping' | 'preview' | 'importing' | 'done';
+
+interface ImportProgress {
+  cursor: number; // Characters of the file parsed so far
+  rowsParsed: number;
+  session: ImportSession | null;
+}
+
+const SAMPLE_ROW_COUNT = 3;
+const SAMPLE_PARSE_ROWS = 1000; // Rows read for the mapping and preview steps; the import itself streams the whole file
+const PREVIEW_ROW_LIMIT = 500; // Rows rendered in the preview table; the counts always cover every previewed row
+const UPLOAD_ATTEMPTS = 3; // Per chunk, for network and server errors
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  insert: 'Will import', update: 'Will update', unchanged: 'Unchanged', skip: 'Will skip', invalid: 'Invalid',
+};
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  insert: 'bg-green-500/20 text-green-300',
+  update: 'bg-indigo-500/20 text-indigo-300',
+  unchanged: 'bg-slate-500/20 text-slate-300',
+  skip: 'bg-amber-500/20 text-amber-300',
+  invalid: 'bg-red-500/20 text-red-300',
+};
+
+const CONFLICT_MODE_LABELS: Record<ImportConflictMode, string> = {
+  skip: 'Skip them (keep the existing speaker as is)',
+  overwrite: 'Overwrite all fields, including with blanks',
+  fillEmpty: 'Only fill in fields that are empty',
+  overwriteNonEmpty: 'Overwrite fields that have a value in the file',
+};
+
+const formatCount = (count: number) => count.toLocaleString();
+
+// Uploads one chunk, retrying failures that may be temporary. Re-sending a chunk is safe: the server
+// returns the stored result of a chunk it already imported.
+const uploadChunk = async (sessionId: string, chunkIndex: number, firstRow: number, speakers: Omit<SpeakerData, 'id'>[]) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await api.uploadImportChunk(sessionId, chunkIndex, firstRow, speakers);
+    } catch (err) {
+      const isRetryable = !(err instanceof ApiError) || err.status >= 500;
+      if (!isRetryable || attempt >= UPLOAD_ATTEMPTS) throw err;
+      await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+    }
+  }
+};
+
+const downloadCsv = (csv: string, fileName: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Shown after a CSV or Excel file is picked. Only the first rows are read up front, so files of any size open quickly.
+//  0. sheet     - Excel files only: the sheet to import, which is converted to CSV for the remaining steps.
+//  1. mapping   - every column with sample values and the speaker field it will be imported into.
+//     Mappings can be saved as named profiles; the next file whose headers fit a profile is mapped with it automatically.
+//  2. preview   - what the server will do with each row (import, update an existing speaker, skip as a duplicate,
+//     or reject as invalid) and why. The user picks how rows matching an existing speaker are merged here.
+//  3. importing - the file is parsed in csv.worker and uploaded chunk by chunk to an import session on the server.
+//     An interrupted import can be resumed, here or later with the same file, from the first chunk not yet imported.
+//  4. done      - the outcome, with a downloadable CSV of the rejected rows so they can be fixed and imported again.
+const ImportWizard: React.FC<ImportWizardProps> = ({ file: pickedFile, defaultOwner, canAssignOwner, onImported, onClose }) => {
+  const isSpreadsheet = isSpreadsheetFile(pickedFile);
+  const [step, setStep] = useState<WizardStep>(isSpreadsheet ? 'sheet' : 'mapping');
+  const [workbook, setWorkbook] = useState<SpreadsheetWorkbook | null>(null);
+  const [sheets, setSheets] = useState<SheetSummary[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState('');
+  // The CSV to import: the picked file itself, or the chosen sheet of a workbook
+  const [csvFile, setCsvFile] = useState<File | null>(isSpreadsheet ? null : pickedFile);
+  const file = csvFile ?? pickedFile;
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<{ [header: string]: any }[]>([]); // The sample rows
+  const [isSample, setIsSample] = useState(false); // Whether the file has more rows than the sample
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [rowChecks, setRowChecks] = useState<ImportRowCheck[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | ''>('');
+  const [conflictMode, setConflictMode] = useState<ImportConflictMode>('skip');
+  const [session, setSession] = useState<ImportSession | null>(null);
+  const [progress, setProgress] = useState<ImportProgress>({ cursor: 0, rowsParsed: 0, session: null });
+  const [rejectedRows, setRejectedRows] = useState<RejectedImportRow[]>([]);
+  const [result, setResult] = useState<BulkImportResult | null>(null);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isSpreadsheet) return;
+    readWorkbook(pickedFile)
+      .then(loaded => {
+        const sheetList = listSheets(loaded);
+        if (sheetList.length === 0) {
+          setError('The workbook has no sheets with data.');
+          return;
+        }
+        setWorkbook(loaded);
+        setSheets(sheetList);
+        setSelectedSheet(sheetList[0].name);
+      })
+      .catch(err => setError(`Error reading Excel file: ${(err as Error).message}`))
+      .finally(() => setIsLoading(false));
+  }, [pickedFile, isSpreadsheet]);
+
+  useEffect(() => {
+    if (!csvFile) return;
+    const parseFile = () => new Promise<Papa.ParseResult<{ [header: string]: any }>>((resolve, reject) => {
+      Papa.parse<{ [header: string]: any }>(csvFile, {
+        header: true,
+        skipEmptyLines: true,
+        preview: SAMPLE_PARSE_ROWS,
+        transformHeader: cleanHeader,
+        complete: resolve,
+        error: reject,
+      });
+    });
+
+    const load = async () => {
+      try {
+        const [results, savedProfiles] = await Promise.all([parseFile(), api.getImportProfiles().catch(() => [])]);
+        const fileHeaders = (results.meta.fields || []).filter(header => header !== '');
+        if (fileHeaders.length === 0 || results.data.length === 0) {
+          setError('The CSV file appears to be empty or has no data.');
+          return;
+        }
+        setHeaders(fileHeaders);
+        setRows(results.data);
+        setIsSample(results.meta.truncated);
+        setProfiles(savedProfiles);
+
+        const profile = findProfileForHeaders(savedProfiles, fileHeaders);
+        if (profile) {
+          setMapping(applyProfile(profile, fileHeaders));
+          setSelectedProfileId(profile.id);
+          setProfileName(profile.name);
+          setNotice(`Columns mapped with the saved profile "${profile.name}".`);
+        } else {
+          setMapping(suggestMapping(fileHeaders));
+        }
+      } catch (err) {
+        setError(`Error parsing CSV: ${(err as Error).message}`);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [csvFile]);
+
+  // Closing the wizard mid-import stops parsing; the session stays open and can be resumed with the same file.
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const availableFields = useMemo(
+    () => (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).filter(field => field !== 'createdBy' || canAssignOwner),
+    [canAssignOwner]
+  );
+
+  const mappedFields = useMemo(() => new Set(Object.values(mapping).filter(Boolean)), [mapping]);
+  const speakers = useMemo(() => mapRowsToSpeakers(rows, mapping, defaultOwner), [rows, mapping, defaultOwner]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<ImportRowStatus, number> = { insert: 0, update: 0, unchanged: 0, skip: 0, invalid: 0 };
+    rowChecks.forEach(check => { counts[check.status] += 1; });
+    return counts;
+  }, [rowChecks]);
+
+  const previewRows = useMemo(
+    () => rowChecks.map((check, index) => ({ check, index })).filter(({ check }) => !statusFilter || check.status === statusFilter),
+    [rowChecks, statusFilter]
+  );
+
+  const handleSelectSheet = () => {
+    if (!workbook || !selectedSheet) return;
+    setIsLoading(true);
+    setError(null);
+    setCsvFile(sheetToCsvFile(workbook, selectedSheet, pickedFile.name));
+    setWorkbook(null); // Only the converted sheet is needed from here on
+    setStep('mapping');
+  };
+
+  const handleFieldChange = (header: string, value: string) => {
+    const field = (value || null) as ImportField | null;
+    setMapping(prev => {
+      const next = { ...prev };
+      // A field can only come from one column; the column that had it is ignored from now on.
+      if (field) Object.keys(next).forEach(other => { if (next[other] === field) next[other] = null; });
+      next[header] = field;
+      return next;
+    });
+  };
+
+  const handleProfileChange = (value: string) => {
+    const profile = profiles.find(p => String(p.id) === value);
+    setSelectedProfileId(profile ? profile.id : null);
+    setProfileName(profile ? profile.name : '');
+    setMapping(profile ? applyProfile(profile, headers) : suggestMapping(headers));
+    setNotice(null);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) {
+      setError('Enter a name for the mapping profile.');
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const saved = await api.saveImportProfile(profileName.trim(), mapping);
+      setProfiles(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedProfileId(saved.id);
+      setNotice(`Saved the mapping profile "${saved.name}".`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find(p => p.id === selectedProfileId);
+    if (!profile || !window.confirm(`Delete the mapping profile "${profile.name}"?`)) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await api.deleteImportProfile(profile.id);
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+      setSelectedProfileId(null);
+      setNotice(`Deleted the mapping profile "${profile.name}".`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreview = async (mode: ImportConflictMode = conflictMode) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { rows: checks } = await api.previewBulkImport(speakers, mode);
+      setConflictMode(mode);
+      setRowChecks(checks);
+      setStatusFilter('');
+      setStep('preview');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Streams the file through the worker and uploads every chunk from `importSession.nextChunk` on.
+  // Resolves with the session once the whole file is uploaded, or with null if the worker was stopped.
+  const streamFile = (importSession: ImportSession) => new Promise<ImportSession | null>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/csv.worker.ts', import.meta.url), { type: 'module' });
+    const send = (request: CsvWorkerRequest) => worker.postMessage(request);
+    workerRef.current = worker;
+    let current = importSession;
+    let chunkIndex = 0;
+    let firstRow = 0;
+
+    const stop = (outcome: () => void) => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      outcome();
+    };
+
+    worker.onmessage = async (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'error') return stop(() => reject(new Error(`Error parsing CSV: ${message.error}`)));
+      if (message.type === 'complete') return stop(() => resolve(current));
+      try {
+        // Chunks below `nextChunk` were imported by an earlier attempt; they are only parsed to find the next one.
+        if (chunkIndex >= current.nextChunk) {
+          const chunk = await uploadChunk(current.id, chunkIndex, firstRow, mapRowsToSpeakers(message.data, mapping, defaultOwner));
+          if (workerRef.current !== worker) return resolve(null); // Cancelled while uploading
+          current = chunk.session;
+          const rejected = chunk.result.rejected.map(rejection => ({ ...rejection, data: message.data[rejection.row - firstRow] ?? {} }));
+          if (rejected.length > 0) setRejectedRows(prev => [...prev, ...rejected]);
+        }
+        chunkIndex += 1;
+        firstRow += message.data.length;
+        setProgress({ cursor: message.cursor, rowsParsed: firstRow, session: current });
+        send({ type: 'next' });
+      } catch (err) {
+        if (workerRef.current !== worker) return resolve(null);
+        stop(() => reject(err));
+      }
+    };
+    worker.onerror = (event) => stop(() => reject(new Error(event.message || 'The CSV parser stopped unexpectedly.')));
+    send({ type: 'start', file });
+  });
+
+  // An unfinished import of the same file (by name and size) is offered for resuming.
+  const findResumableSession = async (): Promise<ImportSession | null> => {
+    const openSessions = await api.getOpenImportSessions().catch(() => [] as ImportSession[]);
+    const match = openSessions.find(s => s.fileName === file.name && s.fileSize === file.size && s.rowsReceived > 0);
+    if (!match) return null;
+    const resume = window.confirm(
+      `An import of ${file.name} was interrupted after ${formatCount(match.rowsReceived)} rows. Resume it where it stopped?`
+      + ` (Cancel starts a new import; rows already imported stay imported.)`
+    );
+    return resume ? match : null;
+  };
+
+  const handleImport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      // After a failed attempt, continue from the session as it was after its last imported chunk.
+      let importSession = progress.session || session;
+      if (!importSession) {
+        importSession = await findResumableSession();
+        if (importSession) setConflictMode(importSession.mode);
+        else importSession = await api.createImportSession(file.name, file.size, conflictMode);
+        setSession(importSession);
+      }
+      setProgress({ cursor: 0, rowsParsed: 0, session: importSession });
+      setStep('importing');
+
+      const uploaded = await streamFile(importSession);
+      if (!uploaded) return;
+      const completed = await api.completeImportSession(uploaded.id).catch(() => uploaded);
+      finish(completed);
+    } catch (err) {
+      // The session stays open, so "Retry" continues from the first chunk that was not imported.
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCancelImport = async () => {
+    if (!session || !window.confirm('Stop this import? Rows imported so far will be kept.')) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setWasCancelled(true);
+    finish(await api.cancelImportSession(session.id).catch(() => progress.session || session));
+  };
+
+  const finish = (finished: ImportSession) => {
+    const totals: BulkImportResult = {
+      insertedCount: finished.insertedCount,
+      updatedCount: finished.updatedCount,
+      unchangedCount: finished.unchangedCount,
+      skippedCount: finished.skippedCount,
+      invalidCount: finished.invalidCount,
+      rejected: [],
+    };
+    setResult(totals);
+    setStep('done');
+    setIsBusy(false);
+    onImported(totals);
+  };
+
+  const handleDownloadReport = () => {
+    const baseName = file.name.replace(/\.csv$/i, '');
+    downloadCsv(buildRejectionReport(headers, rejectedRows), `${baseName}_rejected_rows.csv`);
+  };
+
+  const inputClass = "bg-slate-700 border border-slate-600 rounded-md py-1.5 px-2 text-white text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+  const secondaryButtonClass = "px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 disabled:opacity-50";
+  const primaryButtonClass = "px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 disabled:opacity-50";
+
+  const renderSheetStep = () => (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium text-slate-400 mb-2">This workbook has {sheets.length} sheets with data. Which one do you want to import?</legend>
+      {sheets.map(sheet => (
+        <label key={sheet.name} className="flex items-center gap-3 rounded-md bg-slate-900 px-3 py-2 text-sm text-white cursor-pointer">
+          <input type="radio" name="import-sheet" value={sheet.name} checked={selectedSheet === sheet.name} onChange={() => setSelectedSheet(sheet.name)} className="text-indigo-500 focus:ring-indigo-500" />
+          <span className="font-medium">{sheet.name}</span>
+          <span className="text-slate-400">{formatCount(Math.max(sheet.rowCount - 1, 0))} rows</span>
+        </label>
+      ))}
+    </fieldset>
+  );
+
+  const renderMappingStep = () => (
+    <>
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="import-profile" className="block text-sm font-medium text-slate-400 mb-1">Mapping profile</label>
+          <select id="import-profile" value={selectedProfileId ?? ''} onChange={e => handleProfileChange(e.target.value)} className={inputClass} disabled={isBusy}>
+            <option value="">Automatic (by column name)</option>
+            {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="import-profile-name" className="block text-sm font-medium text-slate-400 mb-1">Save mapping as</label>
+          <input id="import-profile-name" type="text" value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="e.g. Conference list export" className={inputClass} disabled={isBusy} />
+        </div>
+        <button type="button" onClick={handleSaveProfile} disabled={isBusy} className="px-3 py-1.5 bg-slate-600 text-white text-sm font-semibold rounded-md hover:bg-slate-700 disabled:opacity-50">Save Profile</button>
+        {selectedProfileId !== null && (
+          <button type="button" onClick={handleDeleteProfile} disabled={isBusy} className="px-3 py-1.5 text-sm text-red-400 hover:text-red-300 disabled:opacity-50">Delete Profile</button>
+        )}
+      </div>
+      {notice && <p className="text-sm text-green-300">{notice}</p>}
+
+      <div className="max-h-[50vh] overflow-y-auto ring-1 ring-slate-700 rounded-lg">
+        <table className="min-w-full divide-y divide-slate-700 text-sm">
+          <thead className="bg-slate-800 sticky top-0">
+            <tr>
+              <th scope="col" className="py-2 pl-4 pr-3 text-left font-semibold text-white">Column in file</th>
+              <th scope="col" className="px-3 py-2 text-left font-semibold text-white">Sample values</th>
+              <th scope="col" className="px-3 py-2 text-left font-semibold text-white">Import as</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800 bg-slate-900">
+            {headers.map(header => (
+              <tr key={header} className={mapping[header] ? '' : 'opacity-60'}>
+                <td className="py-2 pl-4 pr-3 font-medium text-white whitespace-nowrap">{header}</td>
+                <td className="px-3 py-2 text-slate-400">
+                  {rows.slice(0, SAMPLE_ROW_COUNT).map((row, i) => (
+                    <span key={i} className="block truncate max-w-xs">{String(row[header] ?? '') || '(empty)'}</span>
+                  ))}
+                </td>
+                <td className="px-3 py-2">
+                  <select value={mapping[header] ?? ''} onChange={e => handleFieldChange(header, e.target.value)} aria-label={`Field for ${header}`} className={inputClass} disabled={isBusy}>
+                    <option value="">Ignore this column</option>
+                    {availableFields.map(field => <option key={field} value={field}>{IMPORT_FIELD_LABELS[field]}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!mappedFields.has('businessEmail') && (
+        <p className="text-sm text-amber-300">Map a column to "Business Email" to continue; it is required for every speaker.</p>
+      )}
+    </>
+  );
+
+  const renderPreviewStep = () => (
+    <>
+      <div>
+        <label htmlFor="import-conflict-mode" className="block text-sm font-medium text-slate-400 mb-1">When a speaker with the same business email already exists</label>
+        <select id="import-conflict-mode" value={conflictMode} onChange={e => handlePreview(e.target.value as ImportConflictMode)} className={inputClass} disabled={isBusy}>
+          {(Object.keys(CONFLICT_MODE_LABELS) as ImportConflictMode[]).map(mode => <option key={mode} value={mode}>{CONFLICT_MODE_LABELS[mode]}</option>)}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-slate-400 mr-2">{isSample ? `First ${rowChecks.length} rows` : `${rowChecks.length} rows`}:</span>
+        {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map(status => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => setStatusFilter(prev => prev === status ? '' : status)}
+            className={`inline-flex items-center rounded-full px-3 py-1 font-medium ${STATUS_STYLES[status]} ${statusFilter && statusFilter !== status ? 'opacity-40' : ''}`}
+          >
+            {STATUS_LABELS[status]}: {statusCounts[status]}
+          </button>
+        ))}
+      </div>
+      <div className="max-h-[50vh] overflow-y-auto ring-1 ring-slate-700 rounded-lg">
+        <table className="min-w-full divide-y divide-slate-700 text-sm">
+          <thead className="bg-slate-800 sticky top-0">
+            <tr>
+              <th scope="col" className="py-2 pl-4 pr-3 text-left font-semibold text-white">Row</th>
+              <th scope="col" className="px-3 py-2 text-left font-semibold text-white">Name</th>
+              <th scope="col" className="px-3 py-2 text-left font-semibold text-white">Business Email</th>
+              <th scope="col" className="px-3 py-2 text-left font-semibold text-white">Result</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800 bg-slate-900">
+            {previewRows.slice(0, PREVIEW_ROW_LIMIT).map(({ check, index }) => (
+              <tr key={index}>
+                <td className="py-2 pl-4 pr-3 text-slate-400">{index + 1}</td>
+                <td className="px-3 py-2 text-white">{speakers[index].fullName}</td>
+                <td className="px-3 py-2 text-slate-300">{speakers[index].businessEmail}</td>
+                <td className="px-3 py-2">
+                  <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[check.status]}`}>{STATUS_LABELS[check.status]}</span>
+                  {check.reason && <span className="ml-2 text-xs text-slate-400">{check.reason}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {previewRows.length > PREVIEW_ROW_LIMIT && (
+        <p className="text-xs text-slate-500">Showing the first {PREVIEW_ROW_LIMIT} of {previewRows.length} rows.</p>
+      )}
+      {isSample && (
+        <p className="text-xs text-slate-500">
+          This preview covers the first {rowChecks.length} rows of the file. The rest are checked the same way while the file imports.
+        </p>
+      )}
+    </>
+  );
+
+  const renderImportingStep = () => {
+    const current = progress.session;
+    const percent = file.size > 0 ? Math.min(100, Math.round((progress.cursor / file.size) * 100)) : 0;
+    return (
+      <div className="space-y-3 text-sm text-slate-300">
+        <div className="w-full bg-slate-700 rounded-full h-3" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+          <div className="bg-indigo-500 h-3 rounded-full transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            ['Parsed', progress.rowsParsed],
+            ['Uploaded', current?.rowsReceived ?? 0],
+            ['Inserted', current?.insertedCount ?? 0],
+            ['Updated', current?.updatedCount ?? 0],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-slate-900 rounded-md p-3">
+              <dt className="text-xs text-slate-400">{label} rows</dt>
+              <dd className="text-lg font-semibold text-white">{formatCount(value as number)}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-xs text-slate-500">
+          {percent}% of the file read. Rows are imported as each part of the file is uploaded; stopping keeps the rows imported so far.
+        </p>
+      </div>
+    );
+  };
+
+  const renderDoneStep = () => result && (
+    <div className="space-y-3 text-sm text-slate-300">
+      <p>
+        Imported <span className="font-semibold text-white">{result.insertedCount}</span> new speakers
+        and updated <span className="font-semibold text-white">{result.updatedCount}</span> existing ones
+        ({result.unchangedCount} already matched the file).
+        Skipped <span className="font-semibold text-white">{result.skippedCount}</span> duplicates
+        and <span className="font-semibold text-white">{result.invalidCount}</span> invalid rows.
+      </p>
+      {wasCancelled && (
+        <p className="text-amber-300">The import was stopped before the end of the file. Only the rows above were imported.</p>
+      )}
+      {rejectedRows.length > 0 && (
+        <p className="text-slate-400">
+          Download the rejected rows to see why each one was not imported. Fix them in the file and import it again.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderFooter = () => {
+    if (step === 'sheet') {
+      return (
+        <>
+          <button type="button" onClick={onClose} className={secondaryButtonClass}>Cancel</button>
+          <button type="button" onClick={handleSelectSheet} disabled={!workbook || !selectedSheet} className={primaryButtonClass}>Next: Map Columns</button>
+        </>
+      );
+    }
+    if (step === 'mapping') {
+      return (
+        <>
+          <button type="button" onClick={onClose} disabled={isBusy} className={secondaryButtonClass}>Cancel</button>
+          <button type="button" onClick={() => handlePreview()} disabled={isBusy || !mappedFields.has('businessEmail')} className={primaryButtonClass}>
+            {isBusy ? 'Working...' : 'Next: Preview'}
+          </button>
+        </>
+      );
+    }
+    if (step === 'preview') {
+      return (
+        <>
+          <button type="button" onClick={() => setStep('mapping')} disabled={isBusy} className={secondaryButtonClass}>Back</button>
+          <button type="button" onClick={handleImport} disabled={isBusy || (!isSample && statusCounts.insert + statusCounts.update === 0)} className={primaryButtonClass}>
+            {isBusy ? 'Starting...' : isSample ? 'Import File' : `Import ${statusCounts.insert + statusCounts.update} Rows`}
+          </button>
+        </>
+      );
+    }
+    if (step === 'importing') {
+      return (
+        <>
+          <button type="button" onClick={handleCancelImport} className={secondaryButtonClass}>Stop Import</button>
+          {!isBusy && (
+            <button type="button" onClick={handleImport} className={primaryButtonClass}>Retry</button>
+          )}
+        </>
+      );
+    }
+    return (
+      <>
+        {rejectedRows.length > 0 && (
+          <button type="button" onClick={handleDownloadReport} className={secondaryButtonClass}>Download Rejected Rows</button>
+        )}
+        <button type="button" onClick={onClose} className={primaryButtonClass}>Done</button>
+      </>
+    );
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Import ${pickedFile.name}`} widthClass="max-w-5xl">
+      {isLoading ? <p className="text-sm text-slate-400">Reading file...</p> : (
+        <div className="space-y-4">
+          {step === 'sheet' && sheets.length > 0 && renderSheetStep()}
+          {headers.length > 0 && step === 'mapping' && renderMappingStep()}
+          {step === 'preview' && renderPreviewStep()}
+          {step === 'importing' && renderImportingStep()}
+          {step === 'done' && renderDoneStep()}
+
+          {error && <p className="bg-red-900 border border-red-700 text-red-300 text-xs p-3 rounded-md">{error}</p>}
+
+          <div className="pt-4 flex justify-end space-x-3 border-t border-slate-600">
+            {renderFooter()}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ImportWizard;
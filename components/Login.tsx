@@ -1,14 +1,33 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 
 interface LoginProps {
   onLogin: (email: string, pass: string) => Promise<void>;
   error: string | null;
+  retryAt?: number | null; // Epoch ms before which the server will reject another attempt
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin, error }) => {
+const formatWait = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}:${String(rest).padStart(2, '0')} minutes` : `${rest} second${rest === 1 ? '' : 's'}`;
+};
+
+const Login: React.FC<LoginProps> = ({ onLogin, error, retryAt = null }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [secondsToWait, setSecondsToWait] = useState(0);
+
+  // Count down until the next attempt is allowed.
+  useEffect(() => {
+    const update = () => setSecondsToWait(retryAt ? Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)) : 0);
+    update();
+    if (!retryAt) return;
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const isWaiting = secondsToWait > 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -57,14 +76,19 @@ const Login: React.FC<LoginProps> = ({ onLogin, error }) => {
                 disabled={isLoading}
               />
             </div>
-            {error && <p className="bg-red-900 border border-red-700 text-red-300 text-xs italic p-3 rounded-md mb-4">{error}</p>}
+            {error && (
+              <p className="bg-red-900 border border-red-700 text-red-300 text-xs italic p-3 rounded-md mb-4">
+                {error}
+                {isWaiting && <> Please wait <span className="font-bold not-italic">{formatWait(secondsToWait)}</span> before trying again.</>}
+              </p>
+            )}
             <div className="flex items-center justify-between">
               <button
                 className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-opacity-75 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                 type="submit"
-                disabled={isLoading}
+                disabled={isLoading || isWaiting}
               >
-                {isLoading ? 'Signing In...' : 'Sign In'}
+                {isLoading ? 'Signing In...' : isWaiting ? `Try again in ${formatWait(secondsToWait)}` : 'Sign In'}
               </button>
             </div>
           </form>
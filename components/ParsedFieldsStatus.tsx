@@ -0,0 +1,19 @@
+import React from 'react';
+import type { SpeakerData } from '../types';
+
+interface ParsedFieldsStatusProps {
+  speaker: Pick<SpeakerData, 'parsedFields'>;
+}
+
+// A badge for speakers with values the server's name or location parsing had to guess, until someone reviews them.
+const ParsedFieldsStatus: React.FC<ParsedFieldsStatusProps> = ({ speaker }) => {
+  const toReview = Object.entries(speaker.parsedFields || {}).filter(([, marker]) => marker?.confidence === 'low').map(([field]) => field);
+  if (toReview.length === 0) return null;
+  return (
+    <span title={`Parsed: ${toReview.join(', ')}`} className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium bg-amber-500/20 text-amber-300">
+      {toReview.length === 1 ? '1 parsed value to review' : `${toReview.length} parsed values to review`}
+    </span>
+  );
+};
+
+export default ParsedFieldsStatus;
@@ -0,0 +1,100 @@
+import React, { useState, useMemo } from 'react';
+import type { SpeakerData } from '../types';
+
+type EditableField = keyof Omit<SpeakerData, 'id' | 'createdBy'>;
+
+interface SpeakerConflictResolverProps {
+  fields: EditableField[];
+  original: SpeakerData; // The record as it was when editing started
+  mine: Partial<SpeakerData>; // The values the user tried to save
+  theirs: SpeakerData; // The record as it is now on the server
+  isSaving: boolean;
+  onResolve: (values: Partial<SpeakerData>) => void;
+  onCancel: () => void;
+}
+
+// Empty strings and missing values are treated as the same "no value".
+const normalizeValue = (value: unknown) => (value === undefined || value === null ? '' : value);
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const formatFieldName = (field: string): string => field.replace(/([A-Z])/g, ' $1').trim();
+
+// Shown when a save was rejected because someone else saved the record in the meantime.
+// Lists every field where the user's values and the stored ones differ, side by side.
+// Fields the user edited default to their own value; everything else defaults to the stored one.
+const SpeakerConflictResolver: React.FC<SpeakerConflictResolverProps> = ({ fields, original, mine, theirs, isSaving, onResolve, onCancel }) => {
+  const conflictingFields = useMemo(
+    () => fields.filter(field => normalizeValue(mine[field]) !== normalizeValue(theirs[field])),
+    [fields, mine, theirs]
+  );
+
+  const [keepMine, setKeepMine] = useState<Partial<Record<EditableField, boolean>>>(() =>
+    Object.fromEntries(conflictingFields.map(field => [field, normalizeValue(mine[field]) !== normalizeValue(original[field])]))
+  );
+
+  const handleResolve = () => {
+    const values: Partial<SpeakerData> = { ...theirs };
+    conflictingFields.forEach(field => {
+      if (keepMine[field]) {
+        (values as Record<string, unknown>)[field] = mine[field];
+      }
+    });
+    onResolve(values);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-amber-300 bg-amber-900/30 border border-amber-700/60 rounded-lg p-3">
+        Someone else saved changes to this entry while you were editing it.
+        Choose which value to keep for each field below.
+      </p>
+      {conflictingFields.length === 0 ? (
+        <p className="text-sm text-slate-400">Your changes match what is stored now. Save again to continue.</p>
+      ) : (
+        <div className="max-h-[50vh] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-slate-400">
+              <tr>
+                <th className="py-2 pr-2 font-medium">Field</th>
+                <th className="py-2 pr-2 font-medium">Your value</th>
+                <th className="py-2 font-medium">Current value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {conflictingFields.map(field => (
+                <tr key={field}>
+                  <td className="py-2 pr-2 text-slate-400 capitalize align-top">{formatFieldName(field)}</td>
+                  <td className="py-2 pr-2 align-top">
+                    <label className="flex items-start gap-x-2 cursor-pointer">
+                      <input type="radio" name={`conflict-${field}`} checked={!!keepMine[field]} onChange={() => setKeepMine(prev => ({ ...prev, [field]: true }))} className="mt-1" />
+                      <span className="text-slate-200 break-all">{formatValue(mine[field])}</span>
+                    </label>
+                  </td>
+                  <td className="py-2 align-top">
+                    <label className="flex items-start gap-x-2 cursor-pointer">
+                      <input type="radio" name={`conflict-${field}`} checked={!keepMine[field]} onChange={() => setKeepMine(prev => ({ ...prev, [field]: false }))} className="mt-1" />
+                      <span className="text-slate-200 break-all">{formatValue(theirs[field])}</span>
+                    </label>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="pt-4 flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} disabled={isSaving} className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 disabled:opacity-50">Discard My Changes</button>
+        <button type="button" onClick={handleResolve} disabled={isSaving} className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 disabled:opacity-50">
+          {isSaving ? 'Saving...' : 'Save Selected Values'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeakerConflictResolver;
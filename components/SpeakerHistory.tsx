@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SpeakerData, SpeakerHistoryEntry } from '../types';
+import * as api from '../mockApi';
+
+interface SpeakerHistoryProps {
+  speakerId: string;
+  canRevert: boolean;
+  onReverted: (speaker: SpeakerData) => void;
+  onError: (message: string) => void;
+}
+
+const ACTION_STYLES: Record<SpeakerHistoryEntry['action'], string> = {
+  create: 'bg-green-500/20 text-green-300',
+  update: 'bg-indigo-500/20 text-indigo-300',
+  delete: 'bg-red-500/20 text-red-300',
+  revert: 'bg-amber-500/20 text-amber-300',
+  restore: 'bg-green-500/20 text-green-300',
+  purge: 'bg-red-500/20 text-red-300',
+  merge: 'bg-purple-500/20 text-purple-300',
+};
+
+// Summaries for entries whose diff would just list every field.
+const WHOLE_RECORD_SUMMARIES: Partial<Record<SpeakerHistoryEntry['action'], string>> = {
+  delete: 'Moved to the trash.',
+  restore: 'Restored from the trash.',
+  purge: 'Permanently deleted from the trash.',
+};
+
+// Only field edits can be undone from here; trash actions are handled in the Trash tab.
+const isRevertible = (entry: SpeakerHistoryEntry) => ['create', 'update', 'revert', 'merge'].includes(entry.action);
+
+const hasFieldDiff = (entry: SpeakerHistoryEntry) => entry.action === 'update' || entry.action === 'revert' || entry.action === 'merge';
+
+const summarize = (entry: SpeakerHistoryEntry): string | undefined => {
+  if (entry.action === 'delete' && entry.relatedSpeakerId) return 'Merged into another entry and moved to the trash.';
+  if (entry.action === 'merge') return 'Merged with a duplicate entry, which was moved to the trash.';
+  return WHOLE_RECORD_SUMMARIES[entry.action];
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const formatFieldName = (field: string): string => field.replace(/([A-Z])/g, ' $1').trim();
+
+// The change log of one speaker, with field-level diffs and revert actions.
+const SpeakerHistory: React.FC<SpeakerHistoryProps> = ({ speakerId, canRevert, onReverted, onError }) => {
+  const [entries, setEntries] = useState<SpeakerHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReverting, setIsReverting] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await api.getSpeakerHistory(speakerId));
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [speakerId, onError]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleRevert = async (entry: SpeakerHistoryEntry, field?: keyof SpeakerData) => {
+    const confirmation = field
+      ? `Set "${formatFieldName(field)}" back to ${formatValue(entry.changes[field]?.from)}?`
+      : `Restore every field of this record to how it was on ${new Date(entry.createdAt).toLocaleString()}?`;
+    if (!window.confirm(confirmation)) return;
+
+    setIsReverting(true);
+    try {
+      const speaker = await api.revertSpeaker(speakerId, entry.id, field);
+      onReverted(speaker);
+      await fetchHistory();
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  if (isLoading) return <p className="text-sm text-slate-400">Loading history...</p>;
+  if (entries.length === 0) return <p className="text-sm text-slate-400">No changes have been recorded for this entry yet.</p>;
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry, index) => {
+        const changedFields = Object.keys(entry.changes) as (keyof SpeakerData)[];
+        const isLatest = index === 0;
+        return (
+          <li key={entry.id} className="border border-slate-700 rounded-lg p-3">
+            <div className="flex items-center justify-between text-xs">
+              <div className="flex items-center gap-x-2">
+                <span className={`inline-flex items-center rounded-full px-2 py-0.5 font-medium capitalize ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                <span className="text-slate-300">{entry.actor || 'Unknown user'}</span>
+                <span className="text-slate-500">{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              {canRevert && !isLatest && isRevertible(entry) && (
+                <button onClick={() => handleRevert(entry)} disabled={isReverting} className="text-amber-400 hover:text-amber-300 disabled:opacity-50">
+                  Restore this version
+                </button>
+              )}
+            </div>
+            {hasFieldDiff(entry) && changedFields.length > 0 && (
+              <table className="mt-2 w-full text-xs">
+                <tbody className="divide-y divide-slate-800">
+                  {changedFields.map(field => (
+                    <tr key={field}>
+                      <td className="py-1 pr-2 text-slate-400 capitalize align-top">{formatFieldName(field)}</td>
+                      <td className="py-1 pr-2 text-red-300 line-through break-all">{formatValue(entry.changes[field]?.from)}</td>
+                      <td className="py-1 pr-2 text-green-300 break-all">{formatValue(entry.changes[field]?.to)}</td>
+                      <td className="py-1 text-right">
+                        {canRevert && field !== 'createdBy' && (
+                          <button onClick={() => handleRevert(entry, field)} disabled={isReverting} className="text-amber-400 hover:text-amber-300 disabled:opacity-50">
+                            Revert
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {entry.action === 'create' && <p className="mt-2 text-xs text-slate-400">Entry created with {changedFields.length} fields filled in.</p>}
+            {summarize(entry) && <p className="mt-2 text-xs text-slate-400">{summarize(entry)}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default SpeakerHistory;
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import type { SpeakerMatch } from '../types';
+import * as api from '../mockApi';
+
+interface SpeakerMatchPanelProps {
+  values: api.SpeakerMatchQuery;
+  onOpen: (match: SpeakerMatch) => void;
+}
+
+const SEARCH_DELAY_MS = 400; // Wait for a pause in typing before searching
+
+const matchName = (match: SpeakerMatch) => match.fullName || `${match.firstName || ''} ${match.lastName || ''}`.trim() || match.businessEmail || 'Unnamed speaker';
+
+// Shown in the add-speaker form: existing speakers that look like the person being typed in,
+// with who entered them, so the existing entry can be opened instead of adding it again.
+const SpeakerMatchPanel: React.FC<SpeakerMatchPanelProps> = ({ values, onOpen }) => {
+  const [matches, setMatches] = useState<SpeakerMatch[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const query = JSON.stringify(values);
+
+  useEffect(() => {
+    const current: api.SpeakerMatchQuery = JSON.parse(query);
+    if (!Object.values(current).some(value => value && value.trim().length >= 3)) {
+      setMatches([]);
+      return;
+    }
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      api.findSpeakerMatches(current)
+        .then(found => { if (isCurrent) setMatches(found); })
+        .catch(() => { /* Suggestions are a convenience; the email check on submit still applies */ });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-700/60 bg-amber-900/20 p-3 text-sm">
+      <p className="font-medium text-amber-300">This speaker may already be in the database</p>
+      <ul className="mt-2 divide-y divide-amber-900/40">
+        {matches.map(match => (
+          <li key={match.id} className="py-2">
+            <div className="flex items-start justify-between gap-x-4">
+              <div>
+                <span className="text-white">{matchName(match)}</span>
+                {(match.title || match.company) && <span className="text-slate-400"> · {[match.title, match.company].filter(Boolean).join(', ')}</span>}
+                <span className="block text-xs text-slate-400">{match.reasons.join(', ')} · entered by {match.createdBy}</span>
+              </div>
+              {match.canEdit ? (
+                <button type="button" onClick={() => onOpen(match)} className="shrink-0 text-indigo-400 hover:text-indigo-300">Open Existing</button>
+              ) : (
+                <button type="button" onClick={() => setExpandedId(id => id === match.id ? null : match.id)} className="shrink-0 text-indigo-400 hover:text-indigo-300">
+                  {expandedId === match.id ? 'Hide' : 'View'}
+                </button>
+              )}
+            </div>
+            {expandedId === match.id && (
+              <dl className="mt-2 grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 text-xs">
+                {match.businessEmail && <><dt className="text-slate-400">Business Email</dt><dd className="text-slate-200 break-all">{match.businessEmail}</dd></>}
+                {match.personLinkedinUrl && <><dt className="text-slate-400">LinkedIn</dt><dd className="text-slate-200 break-all">{match.personLinkedinUrl}</dd></>}
+                {match.website && <><dt className="text-slate-400">Website</dt><dd className="text-slate-200 break-all">{match.website}</dd></>}
+                <dd className="col-span-2 text-slate-400">Only {match.createdBy}, a team lead or an admin can change this entry. Ask them to update it instead of adding it again.</dd>
+              </dl>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SpeakerMatchPanel;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import type { ScrapeProfile, ScrapeRules, ScrapeField, SpeakerDraft, ScrapeResult } from '../types';
+import * as api from '../mockApi';
+import Modal from './Modal';
+
+interface SpeakerScraperProps {
+  onDraftsCreated: (drafts: SpeakerDraft[]) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ScrapeField, string> = {
+  fullName: 'Full Name',
+  title: 'Title',
+  company: 'Company',
+  speakingTopic: 'Talk Topic',
+  speakingLink: 'Talk Link',
+};
+
+const EMPTY_RULES: ScrapeRules = { item: '', fields: { fullName: '', title: '', company: '', speakingTopic: '', speakingLink: '' } };
+
+// "https://www.example.com/agenda" -> "example.com", or '' while the address is incomplete.
+const hostOf = (url: string) => {
+  try {
+    return new URL(url.trim()).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+// Extracts speakers from an event page into drafts. The extraction rules come from a saved profile (picked
+// automatically for the page's site) or are entered here as CSS selectors, and can be tried out with a preview.
+const SpeakerScraper: React.FC<SpeakerScraperProps> = ({ onDraftsCreated, onClose }) => {
+  const [url, setUrl] = useState('');
+  const [profiles, setProfiles] = useState<ScrapeProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null);
+  const [rules, setRules] = useState<ScrapeRules>(EMPTY_RULES);
+  const [profileName, setProfileName] = useState('');
+  const [preview, setPreview] = useState<ScrapeResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getScrapeProfiles()
+      .then(setProfiles)
+      .catch(err => setError((err as Error).message));
+  }, []);
+
+  const selectProfile = (profile: ScrapeProfile | null) => {
+    setSelectedProfileId(profile ? profile.id : null);
+    setRules(profile ? { item: profile.rules.item, fields: { ...EMPTY_RULES.fields, ...profile.rules.fields } } : EMPTY_RULES);
+    setPreview(null);
+  };
+
+  const handleUrlChange = (value: string) => {
+    setUrl(value);
+    setPreview(null);
+    const siteProfile = profiles.find(profile => profile.host && profile.host === hostOf(value));
+    if (siteProfile && siteProfile.id !== selectedProfileId) {
+      selectProfile(siteProfile);
+      setNotice(`Using the profile "${siteProfile.name}" for ${siteProfile.host}.`);
+    }
+  };
+
+  // Edited rules no longer are the profile's.
+  const updateRules = (change: Partial<ScrapeRules>) => {
+    setRules(prev => ({ ...prev, ...change }));
+    setSelectedProfileId(null);
+    setPreview(null);
+  };
+
+  const source = () => (selectedProfileId !== null ? { profileId: selectedProfileId } : { rules });
+
+  const handleScrape = async (asPreview: boolean) => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await api.scrapePage(url, source(), asPreview);
+      if (asPreview) {
+        setPreview(result);
+      } else if (result.drafts.length === 0) {
+        setError('No speakers were found on this page. Check the selectors with a preview.');
+      } else {
+        onDraftsCreated(result.drafts);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) {
+      setError('Enter a name for the scrape profile.');
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const saved = await api.saveScrapeProfile(profileName.trim(), hostOf(url), rules);
+      setProfiles(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedProfileId(saved.id);
+      setNotice(saved.host ? `Saved the profile "${saved.name}" for ${saved.host}.` : `Saved the profile "${saved.name}".`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find(p => p.id === selectedProfileId);
+    if (!profile || !window.confirm(`Delete the scrape profile "${profile.name}"?`)) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await api.deleteScrapeProfile(profile.id);
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+      setSelectedProfileId(null);
+      setNotice(`Deleted the scrape profile "${profile.name}".`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-md py-1.5 px-2 text-white text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+  const secondaryButtonClass = "px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700 disabled:opacity-50";
+  const primaryButtonClass = "px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 disabled:opacity-50";
+  const canScrape = !isBusy && url.trim() !== '' && (selectedProfileId !== null || (rules.item.trim() !== '' && !!rules.fields.fullName?.trim()));
+
+  return (
+    <Modal isOpen onClose={onClose} title="Scrape Event Page" widthClass="max-w-4xl">
+      <div className="space-y-4 text-sm">
+        <div>
+          <label htmlFor="scrape-url" className="block font-medium text-slate-400 mb-1">Event or agenda page</label>
+          <input id="scrape-url" type="url" value={url} onChange={e => handleUrlChange(e.target.value)} placeholder="https://example.com/2026/speakers" className={inputClass} disabled={isBusy} />
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="scrape-profile" className="block font-medium text-slate-400 mb-1">Scrape profile</label>
+            <select id="scrape-profile" value={selectedProfileId ?? ''} onChange={e => selectProfile(profiles.find(p => p.id === Number(e.target.value)) ?? null)} className={inputClass} disabled={isBusy}>
+              <option value="">Custom selectors</option>
+              {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}{profile.host ? ` (${profile.host})` : ''}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="scrape-profile-name" className="block font-medium text-slate-400 mb-1">Save selectors as</label>
+            <input id="scrape-profile-name" type="text" value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="e.g. Conference agenda" className={inputClass} disabled={isBusy} />
+          </div>
+          <button type="button" onClick={handleSaveProfile} disabled={isBusy} className="px-3 py-1.5 bg-slate-600 text-white text-sm font-semibold rounded-md hover:bg-slate-700 disabled:opacity-50">Save Profile</button>
+          {selectedProfileId !== null && (
+            <button type="button" onClick={handleDeleteProfile} disabled={isBusy} className="px-3 py-1.5 text-sm text-red-400 hover:text-red-300 disabled:opacity-50">Delete Profile</button>
+          )}
+        </div>
+        {notice && <p className="text-sm text-green-300">{notice}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="md:col-span-2">
+            <label htmlFor="scrape-item" className="block font-medium text-slate-400 mb-1">Each speaker</label>
+            <input id="scrape-item" type="text" value={rules.item} onChange={e => updateRules({ item: e.target.value })} placeholder=".speaker-card" className={inputClass} disabled={isBusy} />
+          </div>
+          {(Object.keys(FIELD_LABELS) as ScrapeField[]).map(field => (
+            <div key={field}>
+              <label htmlFor={`scrape-${field}`} className="block font-medium text-slate-400 mb-1">{FIELD_LABELS[field]}</label>
+              <input
+                id={`scrape-${field}`}
+                type="text"
+                value={rules.fields[field] ?? ''}
+                onChange={e => updateRules({ fields: { ...rules.fields, [field]: e.target.value } })}
+                className={inputClass}
+                disabled={isBusy}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">
+          Field selectors are looked up inside each speaker's block. Add <code>@attribute</code> to read an attribute instead of the text, e.g. <code>img@alt</code>. The talk link is read from the matched link.
+        </p>
+
+        {preview && (
+          preview.speakers.length === 0 ? <p className="text-slate-400">No speakers found on {preview.sourceUrl}.</p> : (
+            <div className="max-h-[40vh] overflow-y-auto ring-1 ring-slate-700 rounded-lg">
+              <table className="min-w-full divide-y divide-slate-700">
+                <thead className="bg-slate-800 sticky top-0">
+                  <tr>
+                    {(Object.keys(FIELD_LABELS) as ScrapeField[]).map(field => (
+                      <th key={field} scope="col" className="px-3 py-2 text-left font-semibold text-white">{FIELD_LABELS[field]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800 bg-slate-900">
+                  {preview.speakers.map((speaker, index) => (
+                    <tr key={index}>
+                      {(Object.keys(FIELD_LABELS) as ScrapeField[]).map(field => (
+                        <td key={field} className="px-3 py-2 text-slate-300 max-w-xs truncate">{speaker[field] || <span className="text-slate-500">-</span>}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+
+        {error && <p className="bg-red-900 border border-red-700 text-red-300 text-xs p-3 rounded-md">{error}</p>}
+
+        <div className="pt-4 flex justify-end space-x-3 border-t border-slate-600">
+          <button type="button" onClick={onClose} className={secondaryButtonClass}>Cancel</button>
+          <button type="button" onClick={() => handleScrape(true)} disabled={!canScrape} className={secondaryButtonClass}>Preview</button>
+          <button type="button" onClick={() => handleScrape(false)} disabled={!canScrape} className={primaryButtonClass}>
+            {isBusy ? 'Scraping...' : preview ? `Create ${preview.speakers.length} Drafts` : 'Create Drafts'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default SpeakerScraper;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { TitleRule, TitleRuleInput, TitleClassification, Seniority } from '../types';
+import * as api from '../mockApi';
+import Modal from './Modal';
+
+interface TitleRulesProps {
+  onReclassified: (updatedCount: number) => void;
+  onError: (message: string) => void;
+}
+
+const SENIORITY_LABELS: Record<Seniority, string> = {
+  executive: 'Executive',
+  vicePresident: 'Vice President',
+  director: 'Director',
+  manager: 'Manager',
+  individual: 'Individual contributor',
+};
+
+const EMPTY_RULE: TitleRuleInput = { phrase: '', role: '', seniority: null, isCeo: false, isSpeaker: false, isAuthor: false, priority: 100 };
+
+const flagsOf = (value: Pick<TitleRule, 'isCeo' | 'isSpeaker' | 'isAuthor'>) =>
+  [value.isCeo && 'CEO', value.isSpeaker && 'Speaker', value.isAuthor && 'Author'].filter(Boolean).join(', ');
+
+// The Title Rules tab: the rules deriving a speaker's role, seniority and flags from their title, a box to try
+// a title against them, and a reclassification of every speaker once the rules have changed.
+const TitleRules: React.FC<TitleRulesProps> = ({ onReclassified, onError }) => {
+  const [rules, setRules] = useState<TitleRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<TitleRuleInput>(EMPTY_RULE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sampleTitle, setSampleTitle] = useState('');
+  const [preview, setPreview] = useState<TitleClassification | null>(null);
+  const [reclassifyProgress, setReclassifyProgress] = useState<number | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRules(await api.getTitleRules());
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openEditor = (rule: TitleRule | null) => {
+    setEditingId(rule ? rule.id : 'new');
+    setForm(rule ? { phrase: rule.phrase, role: rule.role ?? '', seniority: rule.seniority, isCeo: rule.isCeo, isSpeaker: rule.isSpeaker, isAuthor: rule.isAuthor, priority: rule.priority } : EMPTY_RULE);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      if (editingId === 'new') await api.createTitleRule(form);
+      else if (editingId !== null) await api.updateTitleRule(editingId, form);
+      setEditingId(null);
+      setPreview(null);
+      await fetchRules();
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: TitleRule) => {
+    if (!window.confirm(`Delete the rule for "${rule.phrase}"?`)) return;
+    try {
+      await api.deleteTitleRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      setPreview(null);
+    } catch (err) {
+      onError((err as Error).message);
+    }
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setPreview(await api.previewTitleClassification(sampleTitle));
+    } catch (err) {
+      onError((err as Error).message);
+    }
+  };
+
+  // Runs the reclassification a page at a time, until the server reports the last page.
+  const handleReclassify = async () => {
+    if (!window.confirm('Reclassify the titles of every speaker with the current rules? Changed speakers are recorded in their history.')) return;
+    let afterId: string | null = null;
+    let scannedCount = 0;
+    let updatedCount = 0;
+    setReclassifyProgress(0);
+    try {
+      do {
+        const page = await api.reclassifySpeakers(afterId);
+        scannedCount += page.scannedCount;
+        updatedCount += page.updatedCount;
+        afterId = page.nextAfterId;
+        setReclassifyProgress(scannedCount);
+      } while (afterId);
+      onReclassified(updatedCount);
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setReclassifyProgress(null);
+    }
+  };
+
+  const inputClass = 'w-full bg-slate-700 border border-slate-600 rounded-md py-2 px-3 text-white shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+  const renderEditor = () => editingId !== null && (
+    <Modal isOpen onClose={() => setEditingId(null)} title={editingId === 'new' ? 'Add Title Rule' : 'Edit Title Rule'}>
+      <form onSubmit={handleSave} className="space-y-4 text-sm">
+        <div>
+          <label htmlFor="rule-phrase" className="block font-medium text-slate-300 mb-1">Phrase in the title</label>
+          <input id="rule-phrase" type="text" required value={form.phrase} onChange={e => setForm(prev => ({ ...prev, phrase: e.target.value }))} className={inputClass} />
+          <p className="mt-1 text-xs text-slate-500">Matched as whole words, ignoring case, punctuation and dots ("C.E.O." matches "ceo").</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="rule-role" className="block font-medium text-slate-300 mb-1">Role</label>
+            <input id="rule-role" type="text" value={form.role ?? ''} onChange={e => setForm(prev => ({ ...prev, role: e.target.value }))} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="rule-seniority" className="block font-medium text-slate-300 mb-1">Seniority</label>
+            <select id="rule-seniority" value={form.seniority ?? ''} onChange={e => setForm(prev => ({ ...prev, seniority: (e.target.value || null) as Seniority | null }))} className={inputClass}>
+              <option value="">None</option>
+              {(Object.keys(SENIORITY_LABELS) as Seniority[]).map(band => <option key={band} value={band}>{SENIORITY_LABELS[band]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="rule-priority" className="block font-medium text-slate-300 mb-1">Priority</label>
+            <input id="rule-priority" type="number" min={0} max={1000} required value={form.priority} onChange={e => setForm(prev => ({ ...prev, priority: Number(e.target.value) }))} className={inputClass} />
+          </div>
+        </div>
+        <div className="flex items-center gap-x-6 text-slate-300">
+          {(['isCeo', 'isSpeaker', 'isAuthor'] as const).map(flag => (
+            <label key={flag} className="flex items-center gap-x-2 cursor-pointer">
+              <input type="checkbox" checked={form[flag]} onChange={e => setForm(prev => ({ ...prev, [flag]: e.target.checked }))} className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-indigo-600 focus:ring-indigo-500" />
+              {flag === 'isCeo' ? 'Is CEO' : flag === 'isSpeaker' ? 'Is Speaker' : 'Is Author'}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">Of the rules matching a title, the one with the lowest priority that has a role decides the role, seniority and CEO flag. The speaker and author flags are set by any matching rule.</p>
+        <div className="flex justify-end space-x-3 pt-4 border-t border-slate-700">
+          <button type="button" onClick={() => setEditingId(null)} disabled={isSaving} className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700 disabled:opacity-50">Cancel</button>
+          <button type="submit" disabled={isSaving} className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50">{isSaving ? 'Saving...' : 'Save Rule'}</button>
+        </div>
+      </form>
+    </Modal>
+  );
+
+  return (
+    <>
+      <div className="mt-4 flex items-center justify-between">
+        <p className="text-sm text-slate-400">
+          Speakers' roles and CEO, speaker and author flags are derived from their titles with these rules whenever a title is saved or imported.
+        </p>
+        <div className="ml-4 flex shrink-0 items-center space-x-2">
+          <button onClick={handleReclassify} disabled={reclassifyProgress !== null} className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700 disabled:opacity-50">
+            {reclassifyProgress !== null ? `Reclassifying... ${reclassifyProgress}` : 'Reclassify All Speakers'}
+          </button>
+          <button onClick={() => openEditor(null)} className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700">Add Rule</button>
+        </div>
+      </div>
+      <form onSubmit={handlePreview} className="mt-4 flex items-center gap-x-3 text-sm">
+        <input type="text" placeholder="Try a title, e.g. Co-Founder & Chief Executive" value={sampleTitle} onChange={e => { setSampleTitle(e.target.value); setPreview(null); }} className={`${inputClass} max-w-md`} />
+        <button type="submit" disabled={!sampleTitle.trim()} className="px-4 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700 disabled:opacity-50">Classify</button>
+        {preview && (
+          <span className="text-slate-300">
+            {preview.extractedRole || 'No role'}
+            {preview.seniority && <span className="text-slate-500"> · {SENIORITY_LABELS[preview.seniority]}</span>}
+            {flagsOf(preview) && <span className="text-slate-500"> · {flagsOf(preview)}</span>}
+          </span>
+        )}
+      </form>
+      <div className="mt-4 ring-1 ring-slate-700 rounded-lg">
+        <div className="overflow-x-auto">
+          <div className="inline-block min-w-full align-middle">
+            {isLoading ? <p className="p-4">Loading rules...</p> : rules.length === 0 ? <p className="p-4 text-slate-400">No rules yet. Titles are left unclassified.</p> : (
+              <table className="min-w-full divide-y divide-slate-700">
+                <thead className="bg-slate-800">
+                  <tr>
+                    <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">Priority</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Phrase</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Role</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Seniority</th>
+                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Flags</th>
+                    <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800 bg-slate-900">
+                  {rules.map(rule => (
+                    <tr key={rule.id}>
+                      <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-slate-300 sm:pl-6">{rule.priority}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-white">{rule.phrase}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{rule.role || <span className="text-slate-500">-</span>}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{rule.seniority ? SENIORITY_LABELS[rule.seniority] : <span className="text-slate-500">-</span>}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{flagsOf(rule) || <span className="text-slate-500">-</span>}</td>
+                      <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-4">
+                        <button onClick={() => openEditor(rule)} className="text-indigo-400 hover:text-indigo-300">Edit</button>
+                        <button onClick={() => handleDelete(rule)} className="text-red-400 hover:text-red-300">Delete</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+      {renderEditor()}
+    </>
+  );
+};
+
+export default TitleRules;
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { SpeakerData, LinkedinCheckReason, WebsiteCheckReason } from '../types';
+
+interface UrlCheckStatusProps {
+  speaker: Pick<SpeakerData, 'linkedinCheckReason' | 'websiteCheckReason' | 'urlsCheckedAt'>;
+  kind: 'linkedin' | 'website';
+  showDate?: boolean;
+}
+
+const LINKEDIN_LABELS: Record<LinkedinCheckReason, string> = {
+  ok: 'Profile URL',
+  missing: 'No URL',
+  malformed: 'Not a LinkedIn URL',
+  notProfile: 'Not a personal profile',
+};
+
+const WEBSITE_LABELS: Record<WebsiteCheckReason, string> = {
+  ok: 'Matches email domain',
+  missing: 'No website',
+  malformed: 'Not a valid address',
+  domainMismatch: 'Different domain than email',
+  unreachable: 'Not reachable',
+};
+
+const REASON_STYLES: Record<LinkedinCheckReason | WebsiteCheckReason, string> = {
+  ok: 'bg-green-500/20 text-green-300',
+  missing: 'bg-slate-500/20 text-slate-300',
+  malformed: 'bg-red-500/20 text-red-300',
+  notProfile: 'bg-amber-500/20 text-amber-300',
+  domainMismatch: 'bg-amber-500/20 text-amber-300',
+  unreachable: 'bg-red-500/20 text-red-300',
+};
+
+// The outcome of the server's LinkedIn URL or website check, as a small badge.
+const UrlCheckStatus: React.FC<UrlCheckStatusProps> = ({ speaker, kind, showDate = false }) => {
+  const reason = kind === 'linkedin' ? speaker.linkedinCheckReason : speaker.websiteCheckReason;
+  const label = !reason ? 'Not checked yet' : kind === 'linkedin' ? LINKEDIN_LABELS[reason as LinkedinCheckReason] : WEBSITE_LABELS[reason as WebsiteCheckReason];
+  return (
+    <span className="inline-flex items-center gap-x-2 text-xs">
+      <span className={`inline-flex items-center rounded-full px-2 py-0.5 font-medium ${reason ? REASON_STYLES[reason] : 'bg-slate-500/20 text-slate-400'}`}>
+        {kind === 'linkedin' ? 'LinkedIn' : 'Website'}: {label}
+      </span>
+      {showDate && speaker.urlsCheckedAt && <span className="text-slate-500">checked {new Date(speaker.urlsCheckedAt).toLocaleString()}</span>}
+    </span>
+  );
+};
+
+export default UrlCheckStatus;
@@ -1,55 +1,40 @@
-import React, { useState, useMemo, useRef } from 'react';
-import type { SpeakerData } from '../types';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import type { SpeakerData, User, BulkImportResult, SpeakerMatch, ParsedFieldMarker, SpeakerDraft, TitleFlagOverrides } from '../types';
 import * as api from '../mockApi';
 import Modal from './Modal';
 import Toast from './Toast';
-import Papa from 'papaparse';
+import SpeakerConflictResolver from './SpeakerConflictResolver';
+import ImportWizard from './ImportWizard';
+import SpeakerMatchPanel from './SpeakerMatchPanel';
+import EmailCheckStatus from './EmailCheckStatus';
+import UrlCheckStatus from './UrlCheckStatus';
+import ParsedFieldsStatus from './ParsedFieldsStatus';
+import SpeakerScraper from './SpeakerScraper';
+import { EXPORT_FIELDS, buildSpeakerCsv } from '../csvImport';
+import { buildSpeakerWorkbook, downloadBlob } from '../spreadsheet';
+import { checkPasswordPolicy } from '../passwordPolicy';
+import { can, canModifySpeaker } from '../permissions';
 
 interface UserPanelProps {
   data: SpeakerData[];
   onAddSpeaker: (speakerData: Omit<SpeakerData, 'id' | 'createdBy'>) => Promise<SpeakerData | null>;
   onUpdateSpeaker: (speakerData: SpeakerData) => Promise<SpeakerData>;
   onDeleteSpeaker: (speakerId: string) => Promise<void>;
-  currentUserEmail: string;
+  currentUser: User;
   onDataImported: () => void;
 }
 
-// A simple, predictable normalizer: lowercase and remove all whitespace.
-const normalizeKey = (key: string): string => {
-    if (!key) return '';
-    return key.toLowerCase().replace(/\s+/g, '');
+// Turns a failed speaker request into a toast message, explaining permission errors in plain words.
+const describeSpeakerError = (error: unknown, fallback: string): string => {
+  if (error instanceof api.ApiError && error.status === 403) {
+    return `Permission denied: ${error.message} Ask an admin if this entry needs to change.`;
+  }
+  return error instanceof Error ? error.message : fallback;
 };
 
-// Creates an exhaustive mapping from various normalized header names to the correct SpeakerData keys.
-const getFieldMap = (): { [key: string]: keyof SpeakerData } => {
-    const map: { [key: string]: keyof SpeakerData } = {};
-
-    const aliases: { [alias: string]: keyof SpeakerData } = {
-        // Main Aliases
-        'firstname': 'firstName', 'lastname': 'lastName', 'title': 'title', 'company': 'company',
-        'businessemail': 'businessEmail', 'email': 'businessEmail', 'emailaddress': 'businessEmail',
-        'workemail': 'businessEmail', 'country': 'country', 'website': 'website', 'fullname': 'fullName',
-        'emailvalid': 'isEmailValid', 'isemailvalid': 'isEmailValid', 'linkedvalid': 'isLinkedInValid',
-        'islinkedinvalid': 'isLinkedInValid', 'websitevalid': 'isWebsiteValid', 'iswebsitevalid': 'isWebsiteValid',
-        'extractedrole': 'extractedRole', 'isceo': 'isCeo', 'isspeaker': 'isSpeaker', 'isauthor': 'isAuthor',
-        'industry': 'industry', 'personlinkedinurl': 'personLinkedinUrl', 'linkedin': 'personLinkedinUrl',
-        'linkedinurl': 'personLinkedinUrl', 'stage': 'stage', 'phonenumber': 'phoneNumber', 'phone': 'phoneNumber',
-        'employees': 'employees', 'location': 'location', 'city': 'city', 'state': 'state',
-        'companyaddress': 'companyAddress', 'companycity': 'companyCity', 'companystate': 'companyState',
-        'companycountry': 'companyCountry', 'companyphone': 'companyPhone', 'secondaryemail': 'secondaryEmail',
-        'speakingtopic': 'speakingTopic', 'speakinginfotopic': 'speakingTopic', 'speakinglink': 'speakingLink',
-        'speakinginfolink': 'speakingLink', 'createdby': 'createdBy', 'id': 'id'
-    };
-    
-    for (const alias in aliases) {
-        map[normalizeKey(alias)] = aliases[alias];
-    }
-    
-    return map;
-};
-
-// Generate the map once for efficiency
-const fieldMap = getFieldMap();
+// The stored record returned with a 409, when someone else saved the entry while it was being edited.
+const getConflictingRecord = (error: unknown): SpeakerData | null =>
+  error instanceof api.ApiError && error.status === 409 && error.details.current ? error.details.current as SpeakerData : null;
 
 
 const getInitialFormData = (): Omit<SpeakerData, 'id' | 'createdBy'> => ({
@@ -63,11 +48,39 @@ const getInitialFormData = (): Omit<SpeakerData, 'id' | 'createdBy'> => ({
   speakingTopic: '', speakingLink: ''
 });
 
-const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeaker, onDeleteSpeaker, currentUserEmail, onDataImported }) => {
+// The flags the server derives from the title, with their badge labels.
+const TITLE_FLAGS = [['isCeo', 'CEO'], ['isSpeaker', 'Speaker'], ['isAuthor', 'Author']] as const;
+
+// The flags that can be set by hand instead.
+const OVERRIDABLE_TITLE_FLAGS = [['isSpeaker', 'Speaker'], ['isAuthor', 'Author']] as const;
+
+// The fields the server's name and location parsing reads, by the `source` it records.
+const PARSE_SOURCE_LABELS: Record<ParsedFieldMarker['source'], string> = {
+  fullName: 'Full Name',
+  name: 'First and Last Name',
+  location: 'Location',
+};
+
+// The values the server's LinkedIn URL and website checks look at.
+const URL_CHECK_INPUTS = ['personLinkedinUrl', 'website', 'businessEmail'] as const;
+
+const EDITABLE_FIELDS = Object.keys(getInitialFormData()) as (keyof ReturnType<typeof getInitialFormData>)[];
+
+const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeaker, onDeleteSpeaker, currentUser, onDataImported }) => {
+  const currentUserEmail = currentUser.email;
+  // Leads and viewers see everyone's entries; interns only their own.
+  const canReadAll = can(currentUser, 'speakers:readAll');
+  const canCreate = can(currentUser, 'speakers:create');
+  const canScrape = can(currentUser, 'speakers:scrape');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingSpeaker, setEditingSpeaker] = useState<SpeakerData | null>(null);
+  const [reviewingDraft, setReviewingDraft] = useState<SpeakerDraft | null>(null);
   const [formData, setFormData] = useState(getInitialFormData());
   const [errors, setErrors] = useState<Partial<Record<keyof SpeakerData, string>>>({});
+  const [reviewedParses, setReviewedParses] = useState<(keyof SpeakerData)[]>([]);
+  const [titleFlagOverrides, setTitleFlagOverrides] = useState<TitleFlagOverrides>({});
+  const [conflict, setConflict] = useState<{ mine: SpeakerData; theirs: SpeakerData } | null>(null);
+  const [isResolvingConflict, setIsResolvingConflict] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
   const [searchTerm, setSearchTerm] = useState('');
@@ -78,6 +91,17 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
   const [passwordErrors, setPasswordErrors] = useState<Partial<Record<keyof typeof passwordFormData, string>>>({});
 
   const importFileRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  const [isScraperOpen, setIsScraperOpen] = useState(false);
+  const [drafts, setDrafts] = useState<SpeakerDraft[]>([]);
+
+  useEffect(() => {
+    if (!canScrape) return;
+    api.getSpeakerDrafts()
+      .then(setDrafts)
+      .catch(err => setToast({ message: `Could not load your scraped drafts: ${(err as Error).message}`, type: 'error' }));
+  }, [canScrape]);
 
   const mandatoryFields: (keyof SpeakerData)[] = [
     'firstName', 'lastName', 'title', 'company', 'businessEmail',
@@ -86,22 +110,67 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
 
   const openAddModal = () => {
     setEditingSpeaker(null);
+    setReviewingDraft(null);
     setFormData(getInitialFormData());
+    setTitleFlagOverrides({});
+    setErrors({});
+    setIsModalOpen(true);
+  };
+
+  // Opens the add form filled in with a scraped draft; saving it turns the draft into a speaker, marked as one.
+  const openDraftReview = (draft: SpeakerDraft) => {
+    setEditingSpeaker(null);
+    setReviewingDraft(draft);
+    setFormData({ ...getInitialFormData(), ...draft.values });
+    setTitleFlagOverrides({ isSpeaker: true });
     setErrors({});
     setIsModalOpen(true);
   };
 
+  const handleDiscardDraft = async (draft: SpeakerDraft) => {
+    if (!window.confirm(`Discard the draft for ${draft.values.fullName}?`)) return;
+    try {
+      await api.discardSpeakerDraft(draft.id);
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+    } catch (error) {
+      setToast({ message: describeSpeakerError(error, 'Failed to discard the draft.'), type: 'error' });
+    }
+  };
+
+  const handleDraftsCreated = (created: SpeakerDraft[]) => {
+    setDrafts(prev => [...prev, ...created]);
+    setIsScraperOpen(false);
+    setToast({ message: `Scraped ${created.length} speakers. Review each draft before it is saved.`, type: 'success' });
+  };
+
   const openEditModal = (speaker: SpeakerData) => {
     setEditingSpeaker(speaker);
+    setReviewingDraft(null);
     const { id, createdBy, ...editableData } = speaker;
     setFormData(editableData);
+    setTitleFlagOverrides(speaker.titleFlagOverrides ?? {});
     setErrors({});
+    setReviewedParses([]);
     setIsModalOpen(true);
   };
   
+  // Switches from adding a speaker to editing the existing entry suggested by the match panel.
+  const handleOpenMatch = (match: SpeakerMatch) => {
+    const existing = data.find(speaker => speaker.id === match.id);
+    if (!existing) {
+      setToast({ message: `That entry was made by ${match.createdBy} and is not in your list. Ask them to update it instead of adding it again.`, type: 'error' });
+      return;
+    }
+    if (window.confirm('Open the existing entry? What you have typed here will be discarded.')) {
+      openEditModal(existing);
+    }
+  };
+
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingSpeaker(null);
+    setReviewingDraft(null);
+    setConflict(null);
   };
 
   const validateForm = (): boolean => {
@@ -146,22 +215,63 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
       }
       
       if (editingSpeaker) {
-        await onUpdateSpeaker({ ...editingSpeaker, ...formData });
+        const mine = { ...editingSpeaker, ...formData, reviewedParsedFields: reviewedParses, titleFlagOverrides };
+        try {
+          await onUpdateSpeaker(mine);
+        } catch (error) {
+          const theirs = getConflictingRecord(error);
+          if (!theirs) throw error;
+          setConflict({ mine, theirs });
+          return;
+        }
         setToast({ message: 'Speaker updated successfully!', type: 'success' });
+      } else if (reviewingDraft) {
+        await api.saveSpeakerDraft(reviewingDraft.id, { ...formData, titleFlagOverrides });
+        setDrafts(prev => prev.filter(d => d.id !== reviewingDraft.id));
+        onDataImported();
+        setToast({ message: 'Draft saved as a speaker.', type: 'success' });
       } else {
-        await onAddSpeaker(formData);
+        await onAddSpeaker({ ...formData, titleFlagOverrides });
         setToast({ message: 'Speaker added successfully!', type: 'success' });
       }
       closeModal();
     } catch (error) {
-      setToast({ message: 'An error occurred.', type: 'error' });
+      setToast({ message: describeSpeakerError(error, 'An error occurred.'), type: 'error' });
+    }
+  };
+
+  // Saves the values picked in the conflict view on top of the latest stored version. The hand-set flags and the
+  // confirmed parses aren't compared there, so they are carried over from what the user tried to save.
+  const handleResolveConflict = async (values: Partial<SpeakerData>) => {
+    if (!conflict) return;
+    const merged = { ...conflict.theirs, ...values, titleFlagOverrides: conflict.mine.titleFlagOverrides, reviewedParsedFields: conflict.mine.reviewedParsedFields };
+    setIsResolvingConflict(true);
+    try {
+      await onUpdateSpeaker(merged);
+      setToast({ message: 'Speaker updated successfully!', type: 'success' });
+      closeModal();
+    } catch (error) {
+      const theirs = getConflictingRecord(error);
+      if (theirs) {
+        // Saved again in the meantime: compare the merged values with the newest version.
+        setEditingSpeaker(conflict.theirs);
+        setConflict({ mine: merged, theirs });
+      } else {
+        setToast({ message: describeSpeakerError(error, 'An error occurred.'), type: 'error' });
+      }
+    } finally {
+      setIsResolvingConflict(false);
     }
   };
   
   const handleDelete = async (speakerId: string) => {
-    if(window.confirm('Are you sure you want to delete this speaker entry?')) {
-        await onDeleteSpeaker(speakerId);
-        setToast({ message: 'Speaker deleted.', type: 'success' });
+    if(window.confirm('Move this speaker entry to the trash? An admin can restore it if this was a mistake.')) {
+        try {
+            await onDeleteSpeaker(speakerId);
+            setToast({ message: 'Speaker moved to the trash.', type: 'success' });
+        } catch (error) {
+            setToast({ message: describeSpeakerError(error, 'Failed to delete speaker.'), type: 'error' });
+        }
     }
   };
 
@@ -181,8 +291,10 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
     e.preventDefault();
     const newErrors: Partial<Record<keyof typeof passwordFormData, string>> = {};
     if (!passwordFormData.currentPassword) newErrors.currentPassword = 'Current password is required.';
+    const policyError = checkPasswordPolicy(passwordFormData.newPassword, currentUserEmail);
+    if (policyError) newErrors.newPassword = policyError;
     if (!passwordFormData.newPassword) newErrors.newPassword = 'New password is required.';
-    if (passwordFormData.newPassword.length < 6) newErrors.newPassword = 'Password must be at least 6 characters.';
+    if (passwordFormData.newPassword && passwordFormData.newPassword === passwordFormData.currentPassword) newErrors.newPassword = 'New password must be different from your current password.';
     if (passwordFormData.newPassword !== passwordFormData.confirmPassword) newErrors.confirmPassword = 'Passwords do not match.';
     
     setPasswordErrors(newErrors);
@@ -206,74 +318,13 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
   
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file) return;
+    if (file) setImportFile(file);
+    event.target.value = '';
+  };
 
-    setToast({ message: 'Parsing CSV file...', type: 'success' });
-    
-    Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: async (results: { data: { [key: string]: any }[] }) => {
-            if (!results.data || results.data.length === 0) {
-                setToast({ message: 'Import failed. The CSV file is empty.', type: 'error' });
-                if (event.target) event.target.value = '';
-                return;
-            }
-
-            const remappedData = results.data.map(originalRow => {
-                const newRow: { [key: string]: any } = {};
-                for (const originalHeader in originalRow) {
-                    const normalizedHeader = normalizeKey(originalHeader);
-                    const finalKey = fieldMap[normalizedHeader];
-                    if (finalKey) {
-                        newRow[finalKey] = originalRow[originalHeader];
-                    }
-                }
-                return newRow as Partial<SpeakerData>;
-            });
-            
-            const dataToImport: Omit<SpeakerData, 'id'>[] = [];
-            
-            for (const row of remappedData) {
-                if (row.businessEmail && String(row.businessEmail).trim()) {
-                    const getBool = (key: keyof SpeakerData) => ['true', '1', 'yes'].includes(String(row[key] ?? '').toLowerCase());
-                    dataToImport.push({
-                      createdBy: currentUserEmail,
-                      firstName: row.firstName || '', lastName: row.lastName || '', title: row.title || '', company: row.company || '',
-                      businessEmail: row.businessEmail, country: row.country || '', website: row.website || '',
-                      fullName: row.fullName || `${row.firstName || ''} ${row.lastName || ''}`.trim(), extractedRole: row.extractedRole || '',
-                      industry: row.industry || '', personLinkedinUrl: row.personLinkedinUrl || '', stage: row.stage || '', phoneNumber: row.phoneNumber || '',
-                      employees: row.employees || '', location: row.location || '', city: row.city || '', state: row.state || '',
-                      companyAddress: row.companyAddress || '', companyCity: row.companyCity || '', companyState: row.companyState || '',
-                      companyCountry: row.companyCountry || '', companyPhone: row.companyPhone || '', secondaryEmail: row.secondaryEmail || '',
-                      speakingTopic: row.speakingTopic || '', speakingLink: row.speakingLink || '', isEmailValid: getBool('isEmailValid'),
-                      isLinkedInValid: getBool('isLinkedInValid'), isWebsiteValid: getBool('isWebsiteValid'), isCeo: getBool('isCeo'),
-                      isSpeaker: getBool('isSpeaker'), isAuthor: getBool('isAuthor'),
-                    });
-                }
-            }
-            
-            if (dataToImport.length > 0) {
-                setToast({ message: `Importing ${dataToImport.length} valid records...`, type: 'success' });
-                try {
-                    const result = await api.bulkAddSpeakerData(dataToImport);
-                    setToast({ message: `Import complete. Added ${result.importedCount}, skipped ${result.skippedCount} duplicates.`, type: 'success' });
-                    onDataImported();
-                } catch (err) {
-                    const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during import.';
-                    setToast({ message: `Import failed: ${errorMessage}`, type: 'error' });
-                }
-            } else {
-                setToast({ message: 'Import failed. No rows with a valid "Business Email" found.', type: 'error' });
-            }
-
-            if (event.target) event.target.value = '';
-        },
-        error: (error: Error) => {
-            setToast({ message: `Error parsing CSV: ${error.message}`, type: 'error' });
-            if (event.target) event.target.value = '';
-        },
-    });
+  const handleImported = (result: BulkImportResult) => {
+    setToast({ message: `Import complete. Added ${result.insertedCount}, updated ${result.updatedCount}, skipped ${result.skippedCount} duplicates and ${result.invalidCount} invalid rows.`, type: 'success' });
+    onDataImported();
   };
 
   const handleDownloadTemplate = () => {
@@ -304,12 +355,7 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
         return;
     }
 
-    const exportableData = data.map(d => {
-        const { id, createdBy, ...rest } = d;
-        return rest;
-    });
-
-    const csv = Papa.unparse(exportableData);
+    const csv = buildSpeakerCsv(data, EXPORT_FIELDS.filter(field => field !== 'createdBy'));
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
@@ -322,6 +368,22 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
     setToast({ message: `Exported ${data.length} records.`, type: 'success' });
   };
 
+  // Same columns as the CSV export, which leaves out the owner.
+  const handleExportExcel = async () => {
+    if (data.length === 0) {
+        setToast({ message: 'You have no data to export.', type: 'error' });
+        return;
+    }
+    try {
+      const fields = EXPORT_FIELDS.filter(field => field !== 'createdBy');
+      const blob = await buildSpeakerWorkbook([{ name: canReadAll ? 'Speakers' : 'My Speakers', speakers: data }], fields);
+      downloadBlob(blob, 'my_speaker_data.xlsx');
+      setToast({ message: `Exported ${data.length} records.`, type: 'success' });
+    } catch (err) {
+      setToast({ message: (err as Error).message, type: 'error' });
+    }
+  };
+
   const filteredData = useMemo(() => {
      return data.filter(s => {
         const searchTermLower = searchTerm.toLowerCase();
@@ -343,6 +405,10 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
 
   const renderTextInput = (id: keyof typeof formData, label: string) => {
     const isRequired = mandatoryFields.includes(id as keyof SpeakerData);
+    // The server stores some fields in a canonical form; show what was originally entered while the value is unchanged.
+    const rawValue = editingSpeaker && formData[id] === editingSpeaker[id] ? editingSpeaker.rawValues?.[id] : undefined;
+    // Values the server filled in from other fields, while unchanged; guessed ones can be confirmed.
+    const parsed = editingSpeaker && formData[id] === editingSpeaker[id] ? editingSpeaker.parsedFields?.[id] : undefined;
     return (
       <div>
         <label htmlFor={id} className="block mb-2 text-sm font-medium text-slate-300">
@@ -357,24 +423,23 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
           className={`bg-slate-700 border ${errors[id as keyof SpeakerData] ? 'border-red-500' : 'border-slate-600'} text-slate-200 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block w-full p-2.5`}
         />
         {errors[id as keyof SpeakerData] && <p className="mt-1 text-xs text-red-400">{errors[id as keyof SpeakerData]}</p>}
+        {rawValue !== undefined && <p className="mt-1 text-xs text-slate-500">Entered as "{rawValue}"</p>}
+        {parsed && parsed.confidence === 'high' && <p className="mt-1 text-xs text-slate-500">Filled in from {PARSE_SOURCE_LABELS[parsed.source]}</p>}
+        {parsed && parsed.confidence === 'low' && (
+          <label className="mt-1 flex items-center gap-x-2 text-xs text-amber-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={reviewedParses.includes(id)}
+              onChange={e => setReviewedParses(prev => e.target.checked ? [...prev, id] : prev.filter(field => field !== id))}
+              className="h-3.5 w-3.5 rounded border-slate-500 bg-slate-700 text-indigo-600 focus:ring-indigo-500"
+            />
+            Guessed from {PARSE_SOURCE_LABELS[parsed.source]}; looks right
+          </label>
+        )}
       </div>
     );
   };
   
-   const renderCheckboxInput = (id: keyof typeof formData, label: string) => (
-     <div className="flex items-center">
-        <input 
-            id={id}
-            name={id}
-            type="checkbox" 
-            checked={Boolean(formData[id])}
-            onChange={handleChange}
-            className="w-4 h-4 text-indigo-600 bg-gray-700 border-gray-600 rounded focus:ring-indigo-600" 
-        />
-        <label htmlFor={id} className="ml-2 text-sm font-medium text-slate-300">{label}</label>
-    </div>
-  );
-
   const renderSectionTitle = (title: string) => (
     <h3 className="text-lg font-semibold text-indigo-400 col-span-1 md:col-span-2 pt-2">{title}</h3>
   );
@@ -386,40 +451,97 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
         type="file"
         ref={importFileRef}
         className="hidden"
-        accept=".csv"
+        accept=".csv,.xlsx"
         onChange={handleFileImport}
       />
        {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+       {isScraperOpen && <SpeakerScraper onDraftsCreated={handleDraftsCreated} onClose={() => setIsScraperOpen(false)} />}
+       {importFile && (
+        <ImportWizard
+          file={importFile}
+          defaultOwner={currentUserEmail}
+          canAssignOwner={can(currentUser, 'speakers:assignOwner')}
+          onImported={handleImported}
+          onClose={() => setImportFile(null)}
+        />
+       )}
       <div className="sm:flex sm:items-center sm:justify-between">
         <div className="sm:flex-auto">
-          <h1 className="text-2xl font-bold text-white">My Speaker Entries</h1>
+          <h1 className="text-2xl font-bold text-white">{canReadAll ? 'Speaker Database' : 'My Speaker Entries'}</h1>
           <p className="mt-2 text-sm text-slate-400">
-            A list of all speakers you have added. Total: <span className="font-semibold text-white">{data.length}</span>
+            {canReadAll ? 'All speaker entries in the database.' : 'A list of all speakers you have added.'} Total: <span className="font-semibold text-white">{data.length}</span>
           </p>
         </div>
         <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex items-center space-x-2">
            <button onClick={() => setIsProfileModalOpen(true)} type="button" className="inline-flex items-center justify-center rounded-md border border-slate-500 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
                 Profile
             </button>
-            <button onClick={handleDownloadTemplate} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
-                Download Template
+            {canScrape && (
+              <button onClick={() => setIsScraperOpen(true)} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
+                  Scrape Event Page
+              </button>
+            )}
+            {canCreate && (
+              <>
+                <button onClick={handleDownloadTemplate} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
+                    Download Template
+                </button>
+                <button onClick={handleImportClick} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
+                    Import Data
+                </button>
+              </>
+            )}
+            <button onClick={handleExportMyData} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
+                {canReadAll ? 'Export Data' : 'Export My Data'}
             </button>
-            <button onClick={handleImportClick} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
-                Import Data
+            <button onClick={handleExportExcel} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
+                Export to Excel
             </button>
-            <button onClick={handleExportMyData} type="button" className="inline-flex items-center justify-center rounded-md border border-transparent bg-slate-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto">
-                Export My Data
+          {canCreate && (
+            <button
+              onClick={openAddModal}
+              type="button"
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto"
+            >
+              + Add New Speaker
             </button>
-          <button
-            onClick={openAddModal}
-            type="button"
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-slate-900 sm:w-auto"
-          >
-            + Add New Speaker
-          </button>
+          )}
         </div>
       </div>
 
+      {drafts.length > 0 && (
+        <div className="mt-4 ring-1 ring-amber-500/40 rounded-lg">
+          <h2 className="px-4 pt-3 text-sm font-semibold text-amber-300 sm:px-6">Scraped Drafts to Review ({drafts.length})</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-700">
+              <thead>
+                <tr>
+                  <th scope="col" className="py-2 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">Name</th>
+                  <th scope="col" className="px-3 py-2 text-left text-sm font-semibold text-white">Title</th>
+                  <th scope="col" className="px-3 py-2 text-left text-sm font-semibold text-white">Company</th>
+                  <th scope="col" className="px-3 py-2 text-left text-sm font-semibold text-white">Talk</th>
+                  <th scope="col" className="relative py-2 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {drafts.map(draft => (
+                  <tr key={draft.id}>
+                    <td className="whitespace-nowrap py-2 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{draft.values.fullName}</td>
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-slate-300">{draft.values.title}</td>
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-slate-300">{draft.values.company}</td>
+                    <td className="px-3 py-2 text-sm text-slate-300 max-w-xs truncate">{draft.values.speakingTopic}</td>
+                    <td className="relative whitespace-nowrap py-2 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-4">
+                      <button onClick={() => openDraftReview(draft)} className="text-indigo-400 hover:text-indigo-300">Review</button>
+                      <button onClick={() => handleDiscardDraft(draft)} className="text-red-400 hover:text-red-300">Discard</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
        <div className="mt-4 p-4 bg-slate-800/50 rounded-lg">
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="sm:col-span-2 lg:col-span-1">
@@ -466,18 +588,33 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
                   <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">Name</th>
                   <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Title</th>
                   <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Company</th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Checks</th>
+                  {canReadAll && <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">Created By</th>}
                   <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Actions</span></th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-800 bg-slate-900">
                 {filteredData.map((speaker) => (
                   <tr key={speaker.id}>
-                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{speaker.fullName}</td>
+                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">
+                      <span className="flex flex-col items-start gap-y-1">
+                        {speaker.fullName}
+                        <ParsedFieldsStatus speaker={speaker} />
+                      </span>
+                    </td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speaker.title}</td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speaker.company}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">
+                      <span className="flex flex-col items-start gap-y-1">
+                        <EmailCheckStatus speaker={speaker} labelled />
+                        <UrlCheckStatus speaker={speaker} kind="linkedin" />
+                        <UrlCheckStatus speaker={speaker} kind="website" />
+                      </span>
+                    </td>
+                    {canReadAll && <td className="whitespace-nowrap px-3 py-4 text-sm text-slate-300">{speaker.createdBy}</td>}
                     <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6 space-x-4">
-                      <button onClick={() => openEditModal(speaker)} className="text-indigo-400 hover:text-indigo-300">Edit</button>
-                      <button onClick={() => handleDelete(speaker.id)} className="text-red-400 hover:text-red-300">Delete</button>
+                      {canModifySpeaker(currentUser, speaker, 'edit') && <button onClick={() => openEditModal(speaker)} className="text-indigo-400 hover:text-indigo-300">Edit</button>}
+                      {canModifySpeaker(currentUser, speaker, 'delete') && <button onClick={() => handleDelete(speaker.id)} className="text-red-400 hover:text-red-300">Delete</button>}
                     </td>
                   </tr>
                 ))}
@@ -487,9 +624,32 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
         </div>
       </div>
       
-       <Modal isOpen={isModalOpen} onClose={closeModal} title={editingSpeaker ? 'Edit Speaker' : 'Add New Speaker'}>
+       <Modal isOpen={isModalOpen} onClose={closeModal} title={conflict ? 'Resolve Conflicting Changes' : editingSpeaker ? 'Edit Speaker' : reviewingDraft ? 'Review Scraped Speaker' : 'Add New Speaker'}>
+          {conflict && editingSpeaker ? (
+            <SpeakerConflictResolver
+              key={conflict.theirs.version}
+              fields={EDITABLE_FIELDS}
+              original={editingSpeaker}
+              mine={conflict.mine}
+              theirs={conflict.theirs}
+              isSaving={isResolvingConflict}
+              onResolve={handleResolveConflict}
+              onCancel={closeModal}
+            />
+          ) : (
           <form onSubmit={handleSubmit} noValidate>
              <div className="space-y-6 max-h-[70vh] overflow-y-auto p-1 pr-4">
+                {!editingSpeaker && (
+                  <SpeakerMatchPanel
+                    values={{ fullName: formData.fullName, firstName: formData.firstName, lastName: formData.lastName, company: formData.company, personLinkedinUrl: formData.personLinkedinUrl, website: formData.website }}
+                    onOpen={handleOpenMatch}
+                  />
+                )}
+                {reviewingDraft && (
+                  <p className="text-sm text-slate-400">
+                    Scraped from <a href={reviewingDraft.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:text-indigo-300 break-all">{reviewingDraft.sourceUrl}</a>. Check the values and fill in the rest before saving.
+                  </p>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-b border-slate-700 pb-6">
                   {renderSectionTitle('Personal Information')}
                   {renderTextInput('firstName', 'First Name')}
@@ -528,29 +688,66 @@ const UserPanel: React.FC<UserPanelProps> = ({ data, onAddSpeaker, onUpdateSpeak
                   {renderTextInput('speakingTopic', 'Speaking Topic')}
                   {renderTextInput('speakingLink', 'Speaking Info Link')}
                   {renderTextInput('stage', 'Stage')}
-                  {renderTextInput('extractedRole', 'Extracted Role')}
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {renderSectionTitle('Flags & Validation')}
-                  <div className="flex flex-col space-y-2">
-                    {renderCheckboxInput('isCeo', 'Is CEO?')}
-                    {renderCheckboxInput('isSpeaker', 'Is Speaker?')}
-                    {renderCheckboxInput('isAuthor', 'Is Author?')}
+                  <div className="text-sm text-slate-300">
+                    <span className="font-medium">From the title: </span>
+                    {editingSpeaker && editingSpeaker.title === formData.title
+                      ? <span>
+                          {editingSpeaker.extractedRole || <span className="text-slate-400">No role recognized</span>}
+                          {TITLE_FLAGS.filter(([flag]) => editingSpeaker[flag]).map(([flag, label]) => (
+                            <span key={flag} className="ml-2 inline-flex items-center rounded-full bg-indigo-500/20 px-2 py-0.5 text-xs font-medium text-indigo-300">{label}</span>
+                          ))}
+                        </span>
+                      : <span className="text-slate-400">Role and CEO, speaker and author flags are derived when saved.</span>}
+                    <div className="mt-2 flex flex-wrap gap-4">
+                      {OVERRIDABLE_TITLE_FLAGS.map(([flag, label]) => (
+                        <label key={flag} className="flex items-center gap-x-2">
+                          <span className="font-medium">{label}:</span>
+                          <select
+                            value={titleFlagOverrides[flag] === undefined ? '' : String(titleFlagOverrides[flag])}
+                            onChange={e => {
+                              const { [flag]: _previous, ...others } = titleFlagOverrides;
+                              setTitleFlagOverrides(e.target.value === '' ? others : { ...others, [flag]: e.target.value === 'true' });
+                            }}
+                            className="bg-slate-700 border border-slate-600 rounded-md py-1 px-2 text-white text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                          >
+                            <option value="">From the title</option>
+                            <option value="true">Yes</option>
+                            <option value="false">No</option>
+                          </select>
+                        </label>
+                      ))}
+                    </div>
                   </div>
                   <div className="flex flex-col space-y-2">
-                    {renderCheckboxInput('isEmailValid', 'Email Valid?')}
-                    {renderCheckboxInput('isLinkedInValid', 'LinkedIn Valid?')}
-                    {renderCheckboxInput('isWebsiteValid', 'Website Valid?')}
+                    <div className="text-sm text-slate-300">
+                      <span className="font-medium">Email check: </span>
+                      {editingSpeaker && editingSpeaker.businessEmail === formData.businessEmail
+                        ? <EmailCheckStatus speaker={editingSpeaker} showDate />
+                        : <span className="text-slate-400">Runs automatically when saved.</span>}
+                    </div>
+                    <div className="text-sm text-slate-300">
+                      <span className="font-medium">URL checks: </span>
+                      {editingSpeaker && URL_CHECK_INPUTS.every(field => editingSpeaker[field] === formData[field])
+                        ? <span className="inline-flex flex-col items-start gap-y-1 align-top">
+                            <UrlCheckStatus speaker={editingSpeaker} kind="linkedin" showDate />
+                            <UrlCheckStatus speaker={editingSpeaker} kind="website" />
+                          </span>
+                        : <span className="text-slate-400">Run automatically when saved.</span>}
+                    </div>
                   </div>
                 </div>
 
               </div>
             <div className="mt-6 flex justify-end space-x-3 border-t border-slate-600 pt-4">
               <button type="button" onClick={closeModal} className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg shadow-md hover:bg-slate-700">Cancel</button>
-              <button type="submit" className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700">{editingSpeaker ? 'Save Changes' : 'Add Speaker'}</button>
+              <button type="submit" className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700">{editingSpeaker ? 'Save Changes' : reviewingDraft ? 'Save Speaker' : 'Add Speaker'}</button>
             </div>
           </form>
+          )}
        </Modal>
 
        <Modal isOpen={isProfileModalOpen} onClose={() => setIsProfileModalOpen(false)} title="My Profile">
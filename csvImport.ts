@@ -0,0 +1,57 @@
+import Papa from 'papaparse';
+import type { SpeakerData, ColumnMapping, ImportProfile, RejectedImportRow, ImportField } from './types';
+import { IMPORT_FIELD_LABELS, escapeFormula, mapCsvRow } from './api/speakerIngestion.js';
+
+// CSV import helpers for the import wizard. The ingestion rules themselves (header aliases, flag
+// parsing, the full name fallback) live in api/speakerIngestion.js, which the server applies to
+// raw CSV uploads too, so both paths read a file the same way.
+export { IMPORT_FIELD_LABELS, cleanHeader, normalizeHeader, suggestMapping } from './api/speakerIngestion.js';
+
+// The saved profile that best fits a file: every header it maps must be present,
+// and the one covering the most headers wins.
+export const findProfileForHeaders = (profiles: ImportProfile[], headers: string[]): ImportProfile | null => {
+  const present = new Set(headers);
+  let best: ImportProfile | null = null;
+  profiles.forEach(profile => {
+    const profileHeaders = Object.keys(profile.mapping);
+    if (profileHeaders.every(header => present.has(header)) && profileHeaders.length > (best ? Object.keys(best.mapping).length : 0)) {
+      best = profile;
+    }
+  });
+  return best;
+};
+
+// Applies a saved profile to a file; headers the profile doesn't know are ignored.
+export const applyProfile = (profile: ImportProfile, headers: string[]): ColumnMapping =>
+  Object.fromEntries(headers.map(header => [header, profile.mapping[header] ?? null]));
+
+// Turns parsed CSV rows into speaker records, one per row and in the same order, so the server's
+// verdict on each row can be matched back to the file. Rows are validated by the server.
+// `defaultOwner` is used when no column is mapped to "Created By" (the server decides whether it may be overridden).
+export const mapRowsToSpeakers = (rows: { [header: string]: any }[], mapping: ColumnMapping, defaultOwner: string): Omit<SpeakerData, 'id'>[] =>
+  rows.map(row => mapCsvRow(row, mapping, defaultOwner));
+
+// The columns of the speaker exports: the user-facing fields, headed by their import labels so an export can be
+// imported again as it is. The columns only the server writes (check reasons, raw values, ...) are left out.
+export const EXPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+// A speaker's value in an export column; flags stay booleans and text can't start a formula.
+export const exportValue = (speaker: SpeakerData, field: ImportField): string | boolean => {
+  const value = speaker[field];
+  if (typeof value === 'boolean') return value;
+  return typeof value === 'string' ? escapeFormula(value) : '';
+};
+
+export const buildSpeakerCsv = (speakers: SpeakerData[], fields: ImportField[] = EXPORT_FIELDS): string =>
+  Papa.unparse({
+    fields: fields.map(field => IMPORT_FIELD_LABELS[field]),
+    data: speakers.map(speaker => fields.map(field => exportValue(speaker, field))),
+  });
+
+// A CSV of the rejected rows exactly as they were in the file, plus the reason for each,
+// so they can be fixed and imported again. The extra columns are ignored on re-import.
+export const buildRejectionReport = (headers: string[], rejected: RejectedImportRow[]): string =>
+  Papa.unparse({
+    fields: ['Row', ...headers, 'Rejection Reason'],
+    data: rejected.map(({ row, reason, data }) => [row + 1, ...headers.map(header => data[header] ?? ''), reason]),
+  });
@@ -1,23 +1,51 @@
 // This file is now a real API client, not a mock.
-import type { User, SpeakerData } from './types';
+import type { User, SpeakerData, LockedAccount, SessionInfo, Role, SpeakerHistoryEntry, TrashedSpeaker, ImportProfile, ColumnMapping, ImportRowCheck, BulkImportResult, ImportConflictMode, ImportSession, ImportBatchRow, ImportRollbackResult, DuplicateCandidate, DuplicateScanResult, SpeakerMatch, TitleRule, TitleRuleInput, TitleClassification, ReclassifyPage, ScrapeProfile, ScrapeRules, ScrapeResult, SpeakerDraft } from './types';
 
 const API_BASE_URL = '/api';
 
+// Error thrown for any non-2xx response, carrying the HTTP status so callers can react to specific cases.
+export class ApiError extends Error {
+  status: number;
+  details: { [key: string]: any }; // The full JSON error body, for endpoints that return more than a message
+
+  constructor(message: string, status: number, details: { [key: string]: any } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// Endpoints whose 401 responses are expected answers rather than a lost session.
+const UNAUTHORIZED_EXEMPT_ENDPOINTS = new Set(['/auth/login', '/auth/me']);
+
+// Called whenever the server rejects our session (401), so the app can return to the login screen.
+let unauthorizedHandler: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
 // Helper function for all API requests
 async function apiFetch(endpoint: string, options: RequestInit = {}, returnsBlob = false) {
   try {
     const response = await fetch(`${API_BASE_URL}${endpoint}`, {
       ...options,
+      credentials: 'include', // Send the session cookie
       headers: {
         'Content-Type': 'application/json',
         ...options.headers,
       },
     });
 
+    if (response.status === 401 && !UNAUTHORIZED_EXEMPT_ENDPOINTS.has(endpoint)) {
+      unauthorizedHandler?.();
+    }
+
     if (!response.ok) {
       // Try to parse error message from backend, otherwise use default
       const errorData = await response.json().catch(() => ({ message: `Request failed with status ${response.status}` }));
-      throw new Error(errorData.message || `Request failed`);
+      throw new ApiError(errorData.message || `Request failed`, response.status, errorData);
     }
 
     if (returnsBlob) {
@@ -39,29 +67,37 @@ async function apiFetch(endpoint: string, options: RequestInit = {}, returnsBlob
 
 // --- User Management ---
 
-export const login = async (email: string, pass: string): Promise<User | null> => {
-  try {
-    const user = await apiFetch('/auth/login', {
-      method: 'POST',
-      body: JSON.stringify({ email, password: pass }),
-    });
-    return user as User | null;
-  } catch (error) {
-    // Login is a special case where we want to return null on failure, not crash
-    return null;
-  }
+// Rejects with an ApiError on failure: 401 for bad credentials, 429 while the account or IP is locked out.
+// Both carry `retryAfterSeconds` in `details` when the next attempt is delayed.
+export const login = (email: string, pass: string): Promise<SessionInfo> => {
+  return apiFetch('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password: pass }),
+  }) as Promise<SessionInfo>;
 };
 
+// Resolves the session from the cookie (and refreshes its idle timer). Rejects with a 401 ApiError if there is none.
+export const getCurrentSession = (): Promise<SessionInfo> => apiFetch('/auth/me') as Promise<SessionInfo>;
+
+export const logout = (): Promise<void> => apiFetch('/auth/logout', { method: 'POST' }) as Promise<void>;
+
 export const getAllUsers = (): Promise<User[]> => apiFetch('/users') as Promise<User[]>;
 
-export const addUser = (email: string, password?: string, isAdmin?: boolean): Promise<User & { password?: string }> => {
+export const addUser = (email: string, password?: string, role: Role = 'intern'): Promise<User & { password?: string }> => {
   // Password is now optional. Backend will generate if it's not provided.
   return apiFetch('/users', {
     method: 'POST',
-    body: JSON.stringify({ email, password, isAdmin }),
+    body: JSON.stringify({ email, password, role }),
   }) as Promise<User & { password?: string }>;
 };
 
+export const updateUserRole = (email: string, role: Role): Promise<User> => {
+  return apiFetch(`/users/${encodeURIComponent(email)}/role`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  }) as Promise<User>;
+};
+
 export const updateUser = (originalEmail: string, updatedUser: User): Promise<User> => {
   const { password } = updatedUser;
   // Only include password in payload if it's being changed
@@ -82,6 +118,17 @@ export const changePassword = (email: string, currentPassword: string, newPasswo
     }) as Promise<{ message: string }>;
 };
 
+// Generates a new temporary password for the user; it is returned only in this response.
+export const resetUserPassword = (email: string): Promise<User & { password: string }> => {
+  return apiFetch(`/users/${encodeURIComponent(email)}/reset-password`, { method: 'POST' }) as Promise<User & { password: string }>;
+};
+
+export const getLockedAccounts = (): Promise<LockedAccount[]> => apiFetch('/users/lockouts') as Promise<LockedAccount[]>;
+
+export const unlockAccount = (email: string): Promise<void> => {
+  return apiFetch(`/users/lockouts/${encodeURIComponent(email)}`, { method: 'DELETE' }) as Promise<void>;
+};
+
 export const deleteUser = (email: string): Promise<void> => {
   return apiFetch(`/users/${encodeURIComponent(email)}`, { method: 'DELETE' }) as Promise<void>;
 };
@@ -112,28 +159,91 @@ export const updateSpeakerData = (data: SpeakerData): Promise<SpeakerData> => {
   }) as Promise<SpeakerData>;
 };
 
+// Moves the speaker to the trash; an admin can restore it until it is purged.
 export const deleteSpeakerData = (id: string): Promise<void> => {
   return apiFetch(`/speakers/${id}`, { method: 'DELETE' }) as Promise<void>;
 };
 
+export const getTrashedSpeakers = (): Promise<{ retentionDays: number; speakers: TrashedSpeaker[] }> => {
+  return apiFetch('/speakers/trash') as Promise<{ retentionDays: number; speakers: TrashedSpeaker[] }>;
+};
+
+export const restoreSpeaker = (id: string): Promise<SpeakerData> => {
+  return apiFetch(`/speakers/${id}/restore`, { method: 'POST' }) as Promise<SpeakerData>;
+};
+
+export const purgeSpeaker = (id: string): Promise<void> => {
+  return apiFetch(`/speakers/${id}/purge`, { method: 'DELETE' }) as Promise<void>;
+};
+
+export const getSpeakerHistory = (id: string): Promise<SpeakerHistoryEntry[]> => {
+  return apiFetch(`/speakers/${id}/history`) as Promise<SpeakerHistoryEntry[]>;
+};
+
+// Without `field`, restores the whole record to its state right after the history entry;
+// with `field`, restores just that field to its value before the entry's change.
+export const revertSpeaker = (id: string, historyId: string, field?: keyof SpeakerData): Promise<SpeakerData> => {
+  return apiFetch(`/speakers/${id}/revert`, {
+    method: 'POST',
+    body: JSON.stringify({ historyId, field }),
+  }) as Promise<SpeakerData>;
+};
+
 export const isBusinessEmailInUse = async (businessEmail: string, speakerIdToExclude?: string): Promise<boolean> => {
   const query = speakerIdToExclude ? `?exclude=${speakerIdToExclude}` : '';
   const result: {inUse: boolean} = await apiFetch(`/speakers/email-check/${encodeURIComponent(businessEmail)}${query}`) as {inUse: boolean};
   return result.inUse;
 };
 
-export const bulkAddSpeakerData = (data: Omit<SpeakerData, 'id'>[]): Promise<{ importedCount: number; skippedCount: number; }> => {
+// Re-runs the email checks of up to 200 speakers; returns them with the new results.
+export const verifySpeakerEmails = (ids: string[]): Promise<SpeakerData[]> => {
+  return apiFetch('/speakers/verify-emails', {
+    method: 'POST',
+    body: JSON.stringify({ ids }),
+  }) as Promise<SpeakerData[]>;
+};
+
+// Re-runs the LinkedIn URL and website checks of up to 25 speakers, requesting each website when `probe` is set;
+// returns them with the new results.
+export const verifySpeakerUrls = (ids: string[], probe: boolean): Promise<SpeakerData[]> => {
+  return apiFetch('/speakers/verify-urls', {
+    method: 'POST',
+    body: JSON.stringify({ ids, probe }),
+  }) as Promise<SpeakerData[]>;
+};
+
+export type SpeakerMatchQuery = Partial<Pick<SpeakerData, 'fullName' | 'firstName' | 'lastName' | 'company' | 'personLinkedinUrl' | 'website'>>;
+
+// Existing speakers that look like the one described by `values`, best first.
+export const findSpeakerMatches = (values: SpeakerMatchQuery, speakerIdToExclude?: string): Promise<SpeakerMatch[]> => {
+  const params = new URLSearchParams(Object.entries(values).filter(([, value]) => value) as [string, string][]);
+  if (speakerIdToExclude) params.set('exclude', speakerIdToExclude);
+  return apiFetch(`/speakers/matches?${params}`) as Promise<SpeakerMatch[]>;
+};
+
+// `mode` decides what happens to rows whose business email already exists.
+export const bulkAddSpeakerData = (data: Omit<SpeakerData, 'id'>[], mode: ImportConflictMode = 'skip'): Promise<BulkImportResult> => {
   return apiFetch('/speakers/bulk', {
     method: 'POST',
-    body: JSON.stringify(data),
-  }) as Promise<{ importedCount: number; skippedCount: number; }>;
+    body: JSON.stringify({ speakers: data, mode }),
+  }) as Promise<BulkImportResult>;
+};
+
+// What a bulk import of these rows would do, row by row, without importing anything.
+export const previewBulkImport = (data: Omit<SpeakerData, 'id'>[], mode: ImportConflictMode = 'skip'): Promise<{ rows: ImportRowCheck[] }> => {
+  return apiFetch('/speakers/bulk/preview', {
+    method: 'POST',
+    body: JSON.stringify({ speakers: data, mode }),
+  }) as Promise<{ rows: ImportRowCheck[] }>;
 };
 
-export const uploadCsvData = (csvContent: string, createdBy: string): Promise<{ importedCount: number; skippedCount: number; }> => {
+// Imports a raw CSV file; the server maps its columns by header name with the standard ingestion rules.
+// `createdBy` owns rows without a "Created By" column (only roles that may assign owners can choose someone else).
+export const uploadCsvData = (csvContent: string, createdBy: string, mode: ImportConflictMode = 'skip'): Promise<BulkImportResult> => {
   return apiFetch('/speakers/upload-csv', {
     method: 'POST',
-    body: JSON.stringify({ csvContent, createdBy }),
-  }) as Promise<{ importedCount: number; skippedCount: number; }>;
+    body: JSON.stringify({ csvContent, createdBy, mode }),
+  }) as Promise<BulkImportResult>;
 };
 
 export const exportAllSpeakers = (): Promise<Blob> => {
@@ -143,3 +253,180 @@ export const exportAllSpeakers = (): Promise<Blob> => {
 export const exportUserSpeakers = (email: string): Promise<Blob> => {
     return apiFetch(`/speakers/export/user/${encodeURIComponent(email)}`, { method: 'GET' }, true) as Promise<Blob>;
 };
+
+// --- Chunked Imports ---
+
+export const createImportSession = (fileName: string, fileSize: number, mode: ImportConflictMode): Promise<ImportSession> => {
+  return apiFetch('/imports', {
+    method: 'POST',
+    body: JSON.stringify({ fileName, fileSize, mode }),
+  }) as Promise<ImportSession>;
+};
+
+// The current user's unfinished imports, which can be resumed with the same file.
+export const getOpenImportSessions = (): Promise<ImportSession[]> => apiFetch('/imports/open') as Promise<ImportSession[]>;
+
+// Chunks must be sent in order. Sending an already imported chunk again returns its stored result;
+// any other out-of-order chunk is rejected with a 409 whose `details.session` says where to continue.
+export const uploadImportChunk = (
+  sessionId: string,
+  chunkIndex: number,
+  firstRow: number,
+  speakers: Omit<SpeakerData, 'id'>[]
+): Promise<{ session: ImportSession; result: BulkImportResult }> => {
+  return apiFetch(`/imports/${encodeURIComponent(sessionId)}/chunks`, {
+    method: 'POST',
+    body: JSON.stringify({ chunkIndex, firstRow, speakers }),
+  }) as Promise<{ session: ImportSession; result: BulkImportResult }>;
+};
+
+export const completeImportSession = (sessionId: string): Promise<ImportSession> => {
+  return apiFetch(`/imports/${encodeURIComponent(sessionId)}/complete`, { method: 'POST' }) as Promise<ImportSession>;
+};
+
+// Rows from chunks that were already uploaded stay imported.
+export const cancelImportSession = (sessionId: string): Promise<ImportSession> => {
+  return apiFetch(`/imports/${encodeURIComponent(sessionId)}/cancel`, { method: 'POST' }) as Promise<ImportSession>;
+};
+
+// --- Import Batches ---
+
+// Every user's imports for roles with `imports:manage`, otherwise the current user's.
+export const getImportBatches = (): Promise<ImportSession[]> => apiFetch('/imports') as Promise<ImportSession[]>;
+
+export const getImportBatchRows = (batchId: string, offset = 0, limit = 100): Promise<{ total: number; rows: ImportBatchRow[] }> => {
+  return apiFetch(`/imports/${encodeURIComponent(batchId)}/rows?offset=${offset}&limit=${limit}`) as Promise<{ total: number; rows: ImportBatchRow[] }>;
+};
+
+export const rollbackImportBatch = (batchId: string): Promise<ImportRollbackResult> => {
+  return apiFetch(`/imports/${encodeURIComponent(batchId)}/rollback`, { method: 'POST' }) as Promise<ImportRollbackResult>;
+};
+
+// --- Duplicate Review ---
+
+export const getDuplicateCandidates = (): Promise<DuplicateCandidate[]> => {
+  return apiFetch('/duplicates') as Promise<DuplicateCandidate[]>;
+};
+
+export const scanForDuplicates = (): Promise<DuplicateScanResult> => {
+  return apiFetch('/duplicates/scan', { method: 'POST' }) as Promise<DuplicateScanResult>;
+};
+
+export const dismissDuplicate = (candidateId: number): Promise<void> => {
+  return apiFetch(`/duplicates/${candidateId}/dismiss`, { method: 'POST' }) as Promise<void>;
+};
+
+// `versions` are the versions of both speakers as reviewed; a 409 means one of them changed since.
+export const mergeDuplicate = (
+  candidateId: number,
+  survivorId: string,
+  values: Partial<SpeakerData>,
+  versions: Record<string, number | undefined>
+): Promise<SpeakerData> => {
+  return apiFetch(`/duplicates/${candidateId}/merge`, {
+    method: 'POST',
+    body: JSON.stringify({ survivorId, values, versions }),
+  }) as Promise<SpeakerData>;
+};
+
+// --- Import Mapping Profiles ---
+
+export const getImportProfiles = (): Promise<ImportProfile[]> => {
+  return apiFetch('/import-profiles') as Promise<ImportProfile[]>;
+};
+
+// Saving under an existing name replaces that profile.
+export const saveImportProfile = (name: string, mapping: ColumnMapping): Promise<ImportProfile> => {
+  return apiFetch('/import-profiles', {
+    method: 'POST',
+    body: JSON.stringify({ name, mapping }),
+  }) as Promise<ImportProfile>;
+};
+
+export const deleteImportProfile = (id: number): Promise<void> => {
+  return apiFetch(`/import-profiles/${id}`, { method: 'DELETE' }) as Promise<void>;
+};
+
+// --- Title Rules ---
+
+export const getTitleRules = (): Promise<TitleRule[]> => {
+  return apiFetch('/title-rules') as Promise<TitleRule[]>;
+};
+
+export const createTitleRule = (rule: TitleRuleInput): Promise<TitleRule> => {
+  return apiFetch('/title-rules', {
+    method: 'POST',
+    body: JSON.stringify(rule),
+  }) as Promise<TitleRule>;
+};
+
+export const updateTitleRule = (id: number, rule: TitleRuleInput): Promise<TitleRule> => {
+  return apiFetch(`/title-rules/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(rule),
+  }) as Promise<TitleRule>;
+};
+
+export const deleteTitleRule = (id: number): Promise<void> => {
+  return apiFetch(`/title-rules/${id}`, { method: 'DELETE' }) as Promise<void>;
+};
+
+// How the current rules classify `title`.
+export const previewTitleClassification = (title: string): Promise<TitleClassification> => {
+  return apiFetch('/title-rules/preview', {
+    method: 'POST',
+    body: JSON.stringify({ title }),
+  }) as Promise<TitleClassification>;
+};
+
+// Reclassifies the next page of speakers with the current rules; call again with `nextAfterId` until it is null.
+export const reclassifySpeakers = (afterId: string | null): Promise<ReclassifyPage> => {
+  return apiFetch('/title-rules/reclassify', {
+    method: 'POST',
+    body: JSON.stringify({ afterId }),
+  }) as Promise<ReclassifyPage>;
+};
+
+// --- Scraper ---
+
+export const getScrapeProfiles = (): Promise<ScrapeProfile[]> => {
+  return apiFetch('/scrape-profiles') as Promise<ScrapeProfile[]>;
+};
+
+// Saving under an existing name replaces that profile.
+export const saveScrapeProfile = (name: string, host: string, rules: ScrapeRules): Promise<ScrapeProfile> => {
+  return apiFetch('/scrape-profiles', {
+    method: 'POST',
+    body: JSON.stringify({ name, host, rules }),
+  }) as Promise<ScrapeProfile>;
+};
+
+export const deleteScrapeProfile = (id: number): Promise<void> => {
+  return apiFetch(`/scrape-profiles/${id}`, { method: 'DELETE' }) as Promise<void>;
+};
+
+// Extracts the speakers on the page at `url` with a saved profile or with `rules`. They are stored as drafts,
+// unless `preview` is set.
+export const scrapePage = (url: string, source: { profileId: number } | { rules: ScrapeRules }, preview = false): Promise<ScrapeResult> => {
+  return apiFetch('/scrapes', {
+    method: 'POST',
+    body: JSON.stringify({ url, ...source, preview }),
+  }) as Promise<ScrapeResult>;
+};
+
+// The caller's drafts waiting for review.
+export const getSpeakerDrafts = (): Promise<SpeakerDraft[]> => {
+  return apiFetch('/speaker-drafts') as Promise<SpeakerDraft[]>;
+};
+
+// Saves a draft as a speaker with the reviewed values; returns the new speaker.
+export const saveSpeakerDraft = (id: number, speaker: Omit<SpeakerData, 'id' | 'createdBy'>): Promise<SpeakerData> => {
+  return apiFetch(`/speaker-drafts/${id}/save`, {
+    method: 'POST',
+    body: JSON.stringify(speaker),
+  }) as Promise<SpeakerData>;
+};
+
+export const discardSpeakerDraft = (id: number): Promise<void> => {
+  return apiFetch(`/speaker-drafts/${id}`, { method: 'DELETE' }) as Promise<void>;
+};
@@ -0,0 +1,18 @@
+// Mirrors the server's password policy (api/auth.js) so forms can explain problems before submitting.
+// The server remains the authority and rejects anything that slips through.
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+// Returns a human-readable reason the password is rejected, or null if it is acceptable.
+export const checkPasswordPolicy = (password: string, email?: string): string | null => {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters long.`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    return 'Password must contain both letters and numbers.';
+  }
+  if (email && password.trim().toLowerCase() === email.trim().toLowerCase()) {
+    return 'Password must not be the same as your email address.';
+  }
+  return null;
+};
@@ -0,0 +1,14 @@
+import type { User, Role, Permission, SpeakerData } from './types';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  lead: 'Team Lead',
+  intern: 'Intern',
+  viewer: 'Viewer',
+};
+
+export const can = (user: User, permission: Permission): boolean => !!user.permissions?.includes(permission);
+
+// Mirrors the server's ownership rule for editing and deleting a single speaker entry.
+export const canModifySpeaker = (user: User, speaker: SpeakerData, action: 'edit' | 'delete'): boolean =>
+  can(user, `speakers:${action}All`) || (speaker.createdBy === user.email && can(user, `speakers:${action}Own`));
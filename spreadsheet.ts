@@ -0,0 +1,111 @@
+import Papa from 'papaparse';
+import type { Workbook, CellValue } from 'exceljs';
+import type { SpeakerData, ImportField } from './types';
+import { IMPORT_FIELD_LABELS, exportValue } from './csvImport';
+
+// Excel (.xlsx) support for the import wizard and the exports. Everything runs in the browser;
+// exceljs is loaded on first use so it stays out of the main bundle.
+// Imported sheets are converted to CSV and then go through exactly the same mapping, preview
+// and chunked upload as a CSV file.
+
+export type SpreadsheetWorkbook = Workbook;
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number; // Including the header row
+}
+
+export interface SpeakerSheet {
+  name: string;
+  speakers: SpeakerData[];
+}
+
+const loadExcelJs = async () => (await import('exceljs')).default;
+
+export const isSpreadsheetFile = (file: File): boolean => /\.xlsx$/i.test(file.name);
+
+const MAX_SHEET_NAME_LENGTH = 31; // Excel's limit
+
+// Sheet names can't contain []:*?/\ and must be unique (case-insensitively) within a workbook.
+const safeSheetName = (name: string, used: Set<string>): string => {
+  const base = (name.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Sheet').slice(0, MAX_SHEET_NAME_LENGTH);
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// The text a cell shows, for the kinds of values exceljs returns.
+const cellToString = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('hyperlink' in value) return String(value.text || value.hyperlink);
+  if ('formula' in value || 'sharedFormula' in value) return cellToString(value.result as CellValue);
+  return ''; // Error values
+};
+
+export const readWorkbook = async (file: File): Promise<SpreadsheetWorkbook> => {
+  const ExcelJS = await loadExcelJs();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return workbook;
+};
+
+// The sheets that have any content, in workbook order.
+export const listSheets = (workbook: SpreadsheetWorkbook): SheetSummary[] =>
+  workbook.worksheets
+    .filter(sheet => sheet.actualRowCount > 0)
+    .map(sheet => ({ name: sheet.name, rowCount: sheet.actualRowCount }));
+
+// One sheet as a CSV file, named after the workbook and the sheet. Its first non-empty row is the header.
+export const sheetToCsvFile = (workbook: SpreadsheetWorkbook, sheetName: string, workbookName: string): File => {
+  const sheet = workbook.getWorksheet(sheetName);
+  const rows: string[][] = [];
+  sheet?.eachRow({ includeEmpty: false }, row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) cells.push(cellToString(row.getCell(column).value));
+    rows.push(cells);
+  });
+  const width = Math.max(0, ...rows.map(cells => cells.length));
+  const csv = Papa.unparse(rows.map(cells => [...cells, ...Array(width - cells.length).fill('')]));
+  return new File([csv], `${workbookName.replace(/\.xlsx$/i, '')} - ${sheetName}.csv`, { type: 'text/csv' });
+};
+
+// A workbook with one sheet per entry. Columns use the import labels, so the file can be imported
+// again as it is; flags are real boolean cells, text is escaped like in the CSV export (see exportValue) and the
+// header row stays frozen while scrolling.
+export const buildSpeakerWorkbook = async (sheets: SpeakerSheet[], fields: ImportField[]): Promise<Blob> => {
+  const ExcelJS = await loadExcelJs();
+  const workbook = new ExcelJS.Workbook();
+  const usedNames = new Set<string>();
+  sheets.forEach(({ name, speakers }) => {
+    const worksheet = workbook.addWorksheet(safeSheetName(name, usedNames), { views: [{ state: 'frozen', ySplit: 1 }] });
+    worksheet.columns = fields.map(field => ({ header: IMPORT_FIELD_LABELS[field], key: field, width: Math.max(12, IMPORT_FIELD_LABELS[field].length + 2) }));
+    worksheet.getRow(1).font = { bold: true };
+    speakers.forEach(speaker => {
+      worksheet.addRow(Object.fromEntries(fields.map(field => [field, exportValue(speaker, field)])));
+    });
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: fields.length } };
+  });
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeLinkedin, findDuplicatePairs } from '../api/duplicates.js';
+
+// The duplicate signals, on speakers as the scan reads them.
+
+const speaker = (id, values) => ({
+    id, fullName: '', firstName: '', lastName: '', company: '', businessEmail: `${id}@example.com`, secondaryEmail: '', personLinkedinUrl: '', phoneNumber: '', ...values,
+});
+
+test('compares LinkedIn profiles by their slug', () => {
+    assert.equal(normalizeLinkedin('https://www.LinkedIn.com/in/Jane-Doe/?trk=public'), 'jane-doe');
+    assert.equal(normalizeLinkedin('linkedin.com/in/j%C3%A9r%C3%B4me'), 'jérôme');
+    assert.equal(normalizeLinkedin('https://www.linkedin.com/company/acme'), '');
+});
+
+test('keeps a slug with a malformed escape as it is stored', () => {
+    assert.equal(normalizeLinkedin('https://www.linkedin.com/in/jane%ZZdoe'), 'jane%zzdoe');
+    assert.equal(normalizeLinkedin('https://www.linkedin.com/in/jane%'), 'jane%');
+});
+
+test('pairs speakers sharing a profile even when its URL has a malformed escape', () => {
+    const pairs = findDuplicatePairs([
+        speaker('speaker-1', { fullName: 'Jane Doe', personLinkedinUrl: 'https://www.linkedin.com/in/jane%zzdoe' }),
+        speaker('speaker-2', { fullName: 'J. Doe', personLinkedinUrl: 'https://www.linkedin.com/in/jane%ZZdoe/' }),
+        speaker('speaker-3', { fullName: 'Alan Turing', personLinkedinUrl: 'https://www.linkedin.com/in/alan-turing' }),
+    ]);
+    assert.equal(pairs.length, 1);
+    assert.deepEqual([pairs[0].speakerA, pairs[0].speakerB], ['speaker-1', 'speaker-2']);
+    assert.ok(pairs[0].reasons.includes('Same LinkedIn profile'));
+});
@@ -0,0 +1,49 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setMxResolver, verifyEmail } from '../api/emailVerification.js';
+
+// The email check with a stub MX resolver, so it runs offline.
+
+const MX_RECORDS = {
+    'acme.com': [{ exchange: 'mx1.acme.com', priority: 10 }, { exchange: 'mx2.acme.com', priority: 20 }],
+    'nomail.example': [{ exchange: '.', priority: 0 }],
+    'parked.example': [],
+};
+
+const lookups = [];
+setMxResolver(async (domain) => {
+    lookups.push(domain);
+    if (domain === 'broken-dns.example') throw Object.assign(new Error('queryMx ESERVFAIL'), { code: 'ESERVFAIL' });
+    return MX_RECORDS[domain] ?? [];
+});
+
+after(() => setMxResolver());
+
+test('accepts an address whose domain has mail servers', async () => {
+    assert.deepEqual(await verifyEmail(' Jane.Doe@ACME.com '), { isValid: true, reason: 'ok' });
+});
+
+test('rejects domains that accept no mail', async () => {
+    assert.deepEqual(await verifyEmail('jane@nomail.example'), { isValid: false, reason: 'noMx' });
+    assert.deepEqual(await verifyEmail('jane@parked.example'), { isValid: false, reason: 'noMx' });
+});
+
+test('leaves the result unknown when the lookup fails', async () => {
+    assert.deepEqual(await verifyEmail('jane@broken-dns.example'), { isValid: null, reason: 'lookupFailed' });
+});
+
+test('decides syntax, disposable, role and free-mail addresses without a lookup', async () => {
+    lookups.length = 0;
+    assert.deepEqual(await verifyEmail('jane@@acme.com'), { isValid: false, reason: 'syntax' });
+    assert.deepEqual(await verifyEmail('jane@mailinator.com'), { isValid: false, reason: 'disposable' });
+    assert.deepEqual(await verifyEmail('info+events@acme.com'), { isValid: false, reason: 'role' });
+    assert.deepEqual(await verifyEmail('jane.doe@gmail.com'), { isValid: true, reason: 'freeMail' });
+    assert.deepEqual(lookups, []);
+});
+
+test('looks each domain up once per batch', async () => {
+    lookups.length = 0;
+    const mxCache = new Map();
+    await Promise.all(['a@acme.com', 'b@acme.com', 'c@ACME.com'].map(email => verifyEmail(email, mxCache)));
+    assert.deepEqual(lookups, ['acme.com']);
+});
@@ -0,0 +1,85 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { checkScrapeRules, extractSpeakers, scrapePage, setPageFetcher } from '../api/scraper.js';
+
+// The extraction rules against saved event pages, served by a stub page fetcher.
+
+const fixture = (name) => readFile(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+const CARD_RULES = {
+    item: '.speaker-card',
+    fields: { fullName: '.speaker-name', title: '.speaker-title', company: '.speaker-company', speakingTopic: '.talk-title', speakingLink: 'a.talk' },
+};
+
+const TABLE_RULES = {
+    item: 'tr.session',
+    fields: { fullName: '@data-speaker', company: '.speaker .org', speakingTopic: '.session-title', speakingLink: '.session-title' },
+};
+
+after(() => setPageFetcher());
+
+test('reads each speaker card once, in page order', async () => {
+    const speakers = extractSpeakers(await fixture('speaker-cards.html'), CARD_RULES, 'https://summit.example.com/2026/speakers');
+    assert.deepEqual(speakers.map(s => s.fullName), ['Ada Lovelace', 'Dr. Grace Hopper', 'Alan Turing']);
+    assert.deepEqual(speakers[0], {
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        fullName: 'Ada Lovelace',
+        title: 'Chief Executive Officer',
+        company: 'Analytical Engines Ltd',
+        speakingTopic: 'The First Program',
+        speakingLink: 'https://summit.example.com/2026/sessions/the-first-program',
+    });
+    assert.equal(speakers[1].title, 'Keynote Speaker & Rear Admiral');
+    assert.equal(speakers[1].speakingLink, 'https://talks.example.org/compilers');
+    assert.equal(speakers[2].speakingLink, undefined, 'javascript: links are dropped');
+});
+
+test('reads attributes and links inside table rows', async () => {
+    const speakers = extractSpeakers(await fixture('agenda-table.html'), TABLE_RULES, 'https://day.example.org/agenda/');
+    assert.deepEqual(speakers.map(s => [s.fullName, s.company]), [
+        ['Linus Torvalds', 'Linux Foundation'],
+        ['Margaret Hamilton', 'Hamilton Technologies'],
+        ['Barbara Liskov', 'MIT'],
+    ]);
+    assert.equal(speakers[0].speakingLink, 'https://day.example.org/agenda/sessions/kernel-keynote.html');
+    assert.equal(speakers[2].speakingTopic, 'Data Abstraction, Revisited');
+    assert.equal(speakers[2].speakingLink, undefined);
+});
+
+test('rejects rules it cannot use', () => {
+    assert.equal(checkScrapeRules(CARD_RULES), null);
+    assert.equal(checkScrapeRules(TABLE_RULES), null);
+    assert.match(checkScrapeRules({ item: '', fields: { fullName: 'h3' } }), /each speaker/);
+    assert.match(checkScrapeRules({ item: '.card', fields: { title: 'p' } }), /full name/);
+    assert.match(checkScrapeRules({ item: '.card', fields: { fullName: 'h3', phone: '.tel' } }), /Unknown speaker field "phone"/);
+    assert.match(checkScrapeRules({ item: '.card', fields: { fullName: 'h3[' } }), /not valid CSS/);
+});
+
+test('scrapes a page through the page fetcher, relative to the address it redirected to', async () => {
+    const html = await fixture('speaker-cards.html');
+    setPageFetcher(async () => ({ status: 200, url: 'https://summit.example.com/2026/speakers/', contentType: 'text/html; charset=utf-8', body: html }));
+    const result = await scrapePage('https://summit.example.com/speakers', CARD_RULES);
+    assert.equal(result.pageUrl, 'https://summit.example.com/2026/speakers/');
+    assert.equal(result.speakers.length, 3);
+    assert.equal(result.speakers[0].speakingLink, 'https://summit.example.com/2026/sessions/the-first-program');
+});
+
+test('reports pages that cannot be scraped', async () => {
+    setPageFetcher(async () => ({ status: 404, url: 'https://summit.example.com/gone', contentType: 'text/html', body: '' }));
+    assert.match((await scrapePage('https://summit.example.com/gone', CARD_RULES)).error, /HTTP 404/);
+
+    setPageFetcher(async () => ({ status: 200, url: 'https://summit.example.com/speakers.pdf', contentType: 'application/pdf', body: '' }));
+    assert.equal((await scrapePage('https://summit.example.com/speakers.pdf', CARD_RULES)).error, 'The address is not a web page.');
+
+    setPageFetcher(async () => { throw new Error('it redirects too many times'); });
+    assert.match((await scrapePage('https://summit.example.com/loop', CARD_RULES)).error, /redirects too many times/);
+});
+
+test('the default page fetcher refuses addresses that are not on the public internet', async () => {
+    setPageFetcher();
+    for (const url of ['http://127.0.0.1:8080/speakers', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]:8080/']) {
+        assert.match((await scrapePage(url, CARD_RULES)).error, /not on the public internet/, url);
+    }
+});
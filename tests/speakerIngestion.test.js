@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Papa from 'papaparse';
+import { escapeFormula, unescapeFormula, parseSpeakerCsv } from '../api/speakerIngestion.js';
+
+// Exported cells can't start a formula, and an export imports again as it is.
+
+test('escapes text that would start a formula', () => {
+    assert.equal(escapeFormula('=HYPERLINK("http://evil.example","Click")'), `'=HYPERLINK("http://evil.example","Click")`);
+    assert.equal(escapeFormula('+14155550100'), `'+14155550100`);
+    assert.equal(escapeFormula('-2+3'), `'-2+3`);
+    assert.equal(escapeFormula('@SUM(A1:A2)'), `'@SUM(A1:A2)`);
+    assert.equal(escapeFormula('\t=1+1'), `'\t=1+1`);
+    assert.equal(escapeFormula('Ada Lovelace'), 'Ada Lovelace');
+    assert.equal(escapeFormula("O'Brien"), "O'Brien");
+    assert.equal(escapeFormula(''), '');
+});
+
+test('unescapes only what escapeFormula added', () => {
+    for (const value of ['=1+1', '+14155550100', '@home', 'plain', "'quoted'", "O'Brien"]) {
+        assert.equal(unescapeFormula(escapeFormula(value)), value);
+    }
+    assert.equal(unescapeFormula("'plain"), "'plain");
+});
+
+test('imports an escaped export as the original values', () => {
+    const csv = Papa.unparse({
+        fields: ['First Name', 'Last Name', 'Business Email', 'Phone Number', 'Title'],
+        data: [['Ada', 'Lovelace', 'ada@acme.com', escapeFormula('+14155550100'), escapeFormula('=cmd|calc')]],
+    });
+    const { speakers } = parseSpeakerCsv(csv, 'owner@example.com');
+    assert.equal(speakers[0].phoneNumber, '+14155550100');
+    assert.equal(speakers[0].title, '=cmd|calc');
+    assert.equal(speakers[0].fullName, 'Ada Lovelace');
+});
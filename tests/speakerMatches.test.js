@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findSpeakerMatches } from '../api/speakerMatches.js';
+
+// The add-form suggestions, with a stub database returning the candidate rows.
+
+const ROWS = [
+    { id: 'speaker-1', fullName: 'Jane Doe', firstName: 'Jane', lastName: 'Doe', company: 'Acme', website: 'https://acme.com', personLinkedinUrl: 'https://www.linkedin.com/in/jane%zzdoe' },
+    { id: 'speaker-2', fullName: 'Janet Smith', firstName: 'Janet', lastName: 'Smith', company: 'Globex', website: '', personLinkedinUrl: 'https://www.linkedin.com/in/janet-smith' },
+];
+
+const stubDb = { query: async () => ({ rows: ROWS }) };
+
+test('suggests the speaker with the same profile when the typed URL has a malformed escape', async () => {
+    const matches = await findSpeakerMatches(stubDb, { personLinkedinUrl: 'linkedin.com/in/jane%ZZdoe' });
+    assert.deepEqual(matches.map(m => m.speaker.id), ['speaker-1']);
+    assert.deepEqual(matches[0].reasons, ['Same LinkedIn profile']);
+});
+
+test('still suggests by name next to stored URLs with malformed escapes', async () => {
+    const matches = await findSpeakerMatches(stubDb, { fullName: 'Jane Doe', company: 'Acme', personLinkedinUrl: 'https://www.linkedin.com/in/jane%' });
+    assert.deepEqual(matches.map(m => m.speaker.id), ['speaker-1']);
+    assert.deepEqual(matches[0].reasons, ['Same name', 'Same company']);
+});
@@ -0,0 +1,59 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { checkLinkedinUrl, checkWebsite, probeWebsite, setUrlFetcher } from '../api/urlVerification.js';
+import { fetchPublic } from '../api/publicNetwork.js';
+
+// The LinkedIn URL and website checks, with the website probe going to a stub fetcher.
+
+after(() => setUrlFetcher());
+
+test('accepts only personal LinkedIn profiles', () => {
+    assert.deepEqual(checkLinkedinUrl('linkedin.com/in/jane-doe'), { isValid: true, reason: 'ok' });
+    assert.deepEqual(checkLinkedinUrl('https://www.linkedin.com/in/jane-doe/'), { isValid: true, reason: 'ok' });
+    assert.deepEqual(checkLinkedinUrl('https://www.linkedin.com/company/acme'), { isValid: false, reason: 'notProfile' });
+    assert.deepEqual(checkLinkedinUrl('https://linkedin.example.com/in/jane'), { isValid: false, reason: 'malformed' });
+    assert.deepEqual(checkLinkedinUrl(''), { isValid: false, reason: 'missing' });
+});
+
+test('expects the website on the domain of the business email', () => {
+    assert.deepEqual(checkWebsite('www.acme.co.uk', 'jane@mail.acme.co.uk'), { isValid: true, reason: 'ok' });
+    assert.deepEqual(checkWebsite('https://other.com', 'jane@acme.com'), { isValid: false, reason: 'domainMismatch' });
+    assert.deepEqual(checkWebsite('https://janedoe.dev', 'jane@gmail.com'), { isValid: true, reason: 'ok' });
+    assert.deepEqual(checkWebsite('not a url', 'jane@acme.com'), { isValid: false, reason: 'malformed' });
+});
+
+test('probes the website through the URL fetcher', async () => {
+    const requested = [];
+    const statuses = { 'https://acme.com/': 200, 'https://gone.com/': 404 };
+    setUrlFetcher(async (url) => {
+        requested.push(url);
+        if (url === 'https://down.com/') throw new Error('connect ECONNREFUSED');
+        return { status: statuses[url] };
+    });
+    assert.deepEqual(await probeWebsite('acme.com', 'jane@acme.com'), { isValid: true, reason: 'ok' });
+    assert.deepEqual(await probeWebsite('gone.com', 'jane@gone.com'), { isValid: false, reason: 'unreachable' });
+    assert.deepEqual(await probeWebsite('down.com', 'jane@down.com'), { isValid: false, reason: 'unreachable' });
+    assert.deepEqual(await probeWebsite('other.com', 'jane@acme.com'), { isValid: false, reason: 'domainMismatch' });
+    assert.deepEqual(requested, ['https://acme.com/', 'https://gone.com/', 'https://down.com/']);
+});
+
+test('the default fetchers refuse addresses that are not on the public internet', async (t) => {
+    let requestCount = 0;
+    const server = http.createServer((req, res) => {
+        requestCount += 1;
+        res.end('internal');
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    t.after(() => server.close());
+    const { port } = server.address();
+
+    for (const url of [`http://127.0.0.1:${port}/`, `http://localhost:${port}/`, 'http://169.254.169.254/latest/meta-data/', 'http://[::1]:8080/']) {
+        await assert.rejects(fetchPublic(url), /not on the public internet/, url);
+    }
+    assert.equal(requestCount, 0);
+
+    setUrlFetcher();
+    assert.deepEqual(await probeWebsite(`http://127.0.0.1:${port}/`, ''), { isValid: false, reason: 'unreachable' });
+    assert.equal(requestCount, 0);
+});
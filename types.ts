@@ -1,7 +1,42 @@
+export type Role = 'admin' | 'lead' | 'intern' | 'viewer';
+
+// Granted per role by the server (api/permissions.js); the client only uses them to decide what to show.
+export type Permission =
+  | 'users:manage'
+  | 'speakers:readAll'
+  | 'speakers:create'
+  | 'speakers:editOwn'
+  | 'speakers:editAll'
+  | 'speakers:deleteOwn'
+  | 'speakers:deleteAll'
+  | 'speakers:assignOwner'
+  | 'speakers:manageTrash'
+  | 'imports:manage' // See every import batch and roll them back
+  | 'duplicates:manage' // Review suspected duplicates and merge them
+  | 'speakers:verifyEmails' // Re-run the email checks on any speakers
+  | 'speakers:verifyUrls' // Re-run the LinkedIn URL and website checks on any speakers, optionally requesting each website
+  | 'titleRules:manage' // Edit the rules deriving roles from titles, and reclassify every speaker
+  | 'speakers:scrape'; // Extract speakers from event pages into drafts, and review those drafts
+
 export interface User {
   email: string;
   password: string;
   isAdmin: boolean;
+  role: Role;
+  permissions?: Permission[]; // Only present on the signed-in user
+  mustChangePassword?: boolean; // Set while the user still holds a generated or admin-set password
+}
+
+// Returned by login and by the session check made on page load.
+export interface SessionInfo {
+  user: User;
+  idleTimeoutSeconds: number; // The server ends the session after this long without requests
+}
+
+export interface LockedAccount {
+  email: string;
+  failures: number;
+  lockedUntil: string; // ISO timestamp
 }
 
 export interface SpeakerData {
@@ -38,6 +73,254 @@ export interface SpeakerData {
   secondaryEmail: string;
   speakingTopic: string;
   speakingLink: string;
+  version?: number; // Incremented by the server on every save; sent back on update to detect conflicting edits
+  // Set by the server when it stores values in canonical form (E.164 phones, ISO country names, ...)
+  countryCode?: string | null; // ISO 3166 code of `country`
+  companyCountryCode?: string | null; // ISO 3166 code of `companyCountry`
+  rawValues?: Partial<Record<keyof SpeakerData, string>>; // What was entered, for fields whose stored value differs
+  // Set by the server's email check, which also computes `isEmailValid`; null until first checked
+  emailCheckReason?: EmailCheckReason | null;
+  emailCheckedAt?: string | null; // ISO timestamp
+  // Set by the server's URL checks, which also compute `isLinkedInValid` and `isWebsiteValid`; null until first checked
+  linkedinCheckReason?: LinkedinCheckReason | null;
+  websiteCheckReason?: WebsiteCheckReason | null;
+  urlsCheckedAt?: string | null; // ISO timestamp
+  seniority?: Seniority | null; // Derived from `title` with `extractedRole` and the CEO, speaker and author flags
+  parsedFields?: Partial<Record<keyof SpeakerData, ParsedFieldMarker>>; // Fields the server filled in from other fields
+  reviewedParsedFields?: (keyof SpeakerData)[]; // Sent on update: parsed values a person confirmed
+  titleFlagOverrides?: TitleFlagOverrides; // Flags set by hand; sent on create and update to change them
+}
+
+// Speaker and author flags set by hand, which the title classification never changes. A missing flag follows the title.
+export type TitleFlagOverrides = Partial<Record<'isSpeaker' | 'isAuthor', boolean>>;
+
+// Where the server's name and location parsing took a value from, and whether it had to guess.
+export interface ParsedFieldMarker {
+  source: 'fullName' | 'name' | 'location';
+  confidence: 'high' | 'low';
+}
+
+// Why the latest email check found the business email valid or not.
+export type EmailCheckReason = 'ok' | 'freeMail' | 'syntax' | 'disposable' | 'role' | 'noMx' | 'lookupFailed';
+
+// Why the latest URL checks found the LinkedIn URL and the website valid or not.
+export type LinkedinCheckReason = 'ok' | 'missing' | 'malformed' | 'notProfile';
+export type WebsiteCheckReason = 'ok' | 'missing' | 'malformed' | 'domainMismatch' | 'unreachable';
+
+// Fields only the server writes.
+export type ServerManagedSpeakerField =
+  | 'countryCode' | 'companyCountryCode' | 'rawValues' | 'emailCheckReason' | 'emailCheckedAt'
+  | 'linkedinCheckReason' | 'websiteCheckReason' | 'urlsCheckedAt' | 'seniority' | 'parsedFields';
+
+// Seniority bands a title can be classified into, most senior first.
+export type Seniority = 'executive' | 'vicePresident' | 'director' | 'manager' | 'individual';
+
+// A rule deriving a role and flags from titles containing `phrase` (stored normalized: lowercase words).
+export interface TitleRule {
+  id: number;
+  phrase: string;
+  role: string | null;
+  seniority: Seniority | null;
+  isCeo: boolean;
+  isSpeaker: boolean;
+  isAuthor: boolean;
+  priority: number; // Lower first; the first matching rule with a role decides the role
+  updatedBy: string | null;
+  updatedAt: string; // ISO timestamp
+}
+
+export type TitleRuleInput = Omit<TitleRule, 'id' | 'updatedBy' | 'updatedAt'>;
+
+// What the rules derive from one title.
+export interface TitleClassification {
+  extractedRole: string;
+  seniority: Seniority | null;
+  isCeo: boolean;
+  isSpeaker: boolean;
+  isAuthor: boolean;
+}
+
+// One page of a reclassification of every speaker; `nextAfterId` is null after the last page.
+export interface ReclassifyPage {
+  scannedCount: number;
+  updatedCount: number;
+  nextAfterId: string | null;
+}
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// One entry of a speaker's append-only change log.
+export interface SpeakerHistoryEntry {
+  id: string;
+  speakerId: string;
+  action: 'create' | 'update' | 'delete' | 'revert' | 'restore' | 'purge' | 'merge';
+  actor: string | null;
+  createdAt: string; // ISO timestamp
+  changes: Partial<Record<keyof SpeakerData, FieldChange>>;
+  snapshot: Partial<SpeakerData> | null;
+  relatedSpeakerId?: string | null; // For merges: the other speaker of the pair
+}
+
+// An existing speaker that looks like the one being entered in the add-speaker form.
+// Only the fields needed to recognize the person are included.
+// The title, emails and URLs are left out of other people's entries for users who may not read every speaker.
+export interface SpeakerMatch extends Pick<SpeakerData, 'id' | 'fullName' | 'firstName' | 'lastName' | 'company' | 'createdBy'>, Partial<Pick<SpeakerData, 'title' | 'businessEmail' | 'personLinkedinUrl' | 'website'>> {
+  score: number; // 0-1
+  reasons: string[];
+  canEdit: boolean; // Whether the current user may open it for editing
+}
+
+// A soft-deleted speaker, as listed in the admin's trash.
+export interface TrashedSpeaker extends SpeakerData {
+  deletedAt: string; // ISO timestamp
+  deletedBy: string | null;
+  purgeAt: string; // ISO timestamp after which it is purged automatically
+}
+
+// A speaker field a CSV column can be imported into.
+export type ImportField = Exclude<keyof SpeakerData, 'id' | 'version' | 'reviewedParsedFields' | 'titleFlagOverrides' | ServerManagedSpeakerField>;
+
+// CSV header -> speaker field; null means the column is ignored.
+export type ColumnMapping = Record<string, ImportField | null>;
+
+// What a bulk import does (or did) with one row.
+export type ImportRowStatus = 'insert' | 'update' | 'unchanged' | 'skip' | 'invalid';
+
+// How an imported row is merged into an existing speaker with the same business email.
+export type ImportConflictMode = 'skip' | 'overwrite' | 'fillEmpty' | 'overwriteNonEmpty';
+
+export interface ImportRowCheck {
+  status: ImportRowStatus;
+  reason: string | null;
+}
+
+// A row that was not imported, identified by its position in the imported file.
+export interface ImportRejection {
+  row: number; // 0-based
+  status: 'skip' | 'invalid';
+  reason: string;
+}
+
+export interface BulkImportResult {
+  insertedCount: number;
+  updatedCount: number;
+  unchangedCount: number; // Matched an existing speaker, but the merge changed nothing
+  skippedCount: number; // Duplicates, within the file or of existing speakers
+  invalidCount: number;
+  rejected: ImportRejection[];
+  batchId?: string; // The import batch the rows were recorded under
+}
+
+// A rejected row together with its values as they were in the file, for the rejection report.
+export interface RejectedImportRow extends ImportRejection {
+  data: { [header: string]: any };
+}
+
+// One import. Large files are imported in numbered chunks; the counts are running totals over the chunks
+// received so far. Every import, chunked or not, is also the batch its rows can be traced back to and rolled back with.
+export interface ImportSession {
+  id: string; // Also the batch id stamped on the speakers it inserted
+  createdBy: string;
+  fileName: string | null;
+  fileSize: number | null;
+  mode: ImportConflictMode;
+  source: 'chunked' | 'bulk' | 'csv'; // Import wizard, JSON bulk request or raw CSV upload
+  status: 'open' | 'completed' | 'cancelled' | 'expired' | 'rolledBack';
+  nextChunk: number; // Index of the next chunk the server expects; earlier ones are imported
+  rowsReceived: number;
+  insertedCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  skippedCount: number;
+  invalidCount: number;
+  createdAt: string;
+  updatedAt: string;
+  rolledBackAt: string | null;
+  rolledBackBy: string | null;
+}
+
+// A speaker an import created or updated, as the import left it.
+export interface ImportBatchRow {
+  id: string; // The history entry
+  speakerId: string;
+  action: 'create' | 'update';
+  changes: { [field: string]: { from: any; to: any } };
+  snapshot: Partial<SpeakerData>;
+  createdAt: string;
+  deletedAt: string | null; // Set if the speaker is in the trash now
+}
+
+export interface ImportRollbackResult {
+  removedCount: number; // Inserted speakers moved to the trash
+  revertedCount: number; // Updated speakers put back
+  keptEditsCount: number; // Updated speakers with fields edited again since; those edits were kept
+  session: ImportSession;
+}
+
+// A pair of speakers that look like the same person, waiting for an admin to merge or dismiss it.
+export interface DuplicateCandidate {
+  id: number;
+  score: number; // 0-1, how likely the two are the same person
+  reasons: string[];
+  createdAt: string; // ISO timestamp
+  speakerA: SpeakerData;
+  speakerB: SpeakerData;
+}
+
+export interface DuplicateScanResult {
+  scannedCount: number;
+  pendingCount: number;
+}
+
+// A saved, team-wide column mapping for files from one source.
+export interface ImportProfile {
+  id: number;
+  name: string;
+  mapping: ColumnMapping;
+  createdBy: string | null;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// The speaker fields a scrape can extract from an event page.
+export type ScrapeField = 'fullName' | 'title' | 'company' | 'speakingTopic' | 'speakingLink';
+
+// Where the speakers are on a page, as CSS selectors: `item` matches each speaker's block, `fields` are looked
+// for inside it ("a.talk@href" reads an attribute instead of the text).
+export interface ScrapeRules {
+  item: string;
+  fields: Partial<Record<ScrapeField, string>>;
+}
+
+// Saved, team-wide extraction rules for the event pages of one site.
+export interface ScrapeProfile {
+  id: number;
+  name: string;
+  host: string | null; // e.g. "example.com"; pages on it use this profile by default
+  rules: ScrapeRules;
+  createdBy: string | null;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// A speaker extracted from an event page, waiting for its scraper to review it.
+export interface SpeakerDraft {
+  id: number;
+  sourceUrl: string;
+  profileId: number | null;
+  values: Partial<Pick<SpeakerData, ScrapeField | 'firstName' | 'lastName'>>;
+  status: 'pending' | 'saved' | 'discarded';
+  createdBy: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface ScrapeResult {
+  sourceUrl: string; // The page address after redirects
+  speakers: SpeakerDraft['values'][];
+  drafts: SpeakerDraft[]; // Empty for a preview
 }
 
 export type SpeakerDataStore = SpeakerData[];
@@ -1,27 +1,53 @@
 import Papa from 'papaparse';
+import { cleanHeader } from '../csvImport';
 
-self.onmessage = (event: MessageEvent<File>) => {
-  const file = event.data;
+// Parses a CSV file off the main thread, one chunk at a time. After each chunk the parser waits
+// for a `next` message, so a file is never read faster than its rows can be uploaded.
 
-  Papa.parse(file, {
+const CHUNK_SIZE_BYTES = 256 * 1024;
+
+export type CsvWorkerRequest =
+  | { type: 'start'; file: File }
+  | { type: 'next' } // Parse the next chunk
+  | { type: 'abort' };
+
+export type CsvWorkerMessage =
+  | { type: 'chunk'; data: { [header: string]: any }[]; cursor: number } // `cursor`: characters of the file parsed so far
+  | { type: 'complete' }
+  | { type: 'error'; error: string };
+
+let parser: Papa.Parser | null = null;
+
+const post = (message: CsvWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<CsvWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'next') {
+    parser?.resume();
+    return;
+  }
+  if (request.type === 'abort') {
+    parser?.abort();
+    return;
+  }
+
+  Papa.parse<{ [header: string]: any }>(request.file, {
     header: true,
     skipEmptyLines: true,
     worker: false, // We are already in a worker
-    transformHeader: (header) => {
-      // Remove BOM character if present and trim whitespace
-      const cleanedHeader = header.charCodeAt(0) === 0xFEFF ? header.slice(1) : header;
-      return cleanedHeader.trim();
-    },
-    chunk: (results) => {
-      // Post message back to the main thread with the chunk of data
-      self.postMessage({ type: 'chunk', data: results.data });
+    chunkSize: CHUNK_SIZE_BYTES,
+    transformHeader: cleanHeader,
+    chunk: (results, chunkParser) => {
+      parser = chunkParser;
+      chunkParser.pause();
+      post({ type: 'chunk', data: results.data, cursor: results.meta.cursor });
     },
-    complete: (results) => {
-      // The `results.meta.cursor` gives the final row index, which is the total count.
-      self.postMessage({ type: 'complete', count: results.meta.cursor });
+    complete: () => {
+      post({ type: 'complete' });
     },
     error: (error: Error) => {
-      self.postMessage({ type: 'error', error: error.message });
+      post({ type: 'error', error: error.message });
     },
   });
 };